@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "average_rating" DECIMAL(3,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "rating_histogram" JSONB NOT NULL DEFAULT '{"1":0,"2":0,"3":0,"4":0,"5":0}',
+ADD COLUMN     "review_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "products_average_rating_idx" ON "products"("average_rating");
+
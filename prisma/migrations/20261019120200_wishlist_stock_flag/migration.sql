@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "wishlist_items" ADD COLUMN     "in_stock_when_added" BOOLEAN NOT NULL DEFAULT true;
+
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "weight_kg" DECIMAL(6,2) NOT NULL DEFAULT 0.5;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "shipping_method" TEXT NOT NULL DEFAULT 'STANDARD';
+
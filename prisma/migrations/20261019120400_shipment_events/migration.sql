@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "shipment_events" (
+    "id" TEXT NOT NULL,
+    "shipment_id" TEXT NOT NULL,
+    "status" "ShippingStatus" NOT NULL,
+    "description" TEXT NOT NULL,
+    "location" TEXT,
+    "occurred_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "shipment_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "shipment_events_shipment_id_occurred_at_idx" ON "shipment_events"("shipment_id", "occurred_at");
+
+-- AddForeignKey
+ALTER TABLE "shipment_events" ADD CONSTRAINT "shipment_events_shipment_id_fkey" FOREIGN KEY ("shipment_id") REFERENCES "shipments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "checkout_url" TEXT,
+ADD COLUMN     "expires_at" TIMESTAMP(3);
+
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "PaymentProvider" ADD VALUE 'PAYSTACK';
+
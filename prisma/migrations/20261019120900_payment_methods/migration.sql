@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('ONLINE', 'CASH_ON_DELIVERY', 'BANK_TRANSFER');
+
+-- AlterEnum
+ALTER TYPE "PaymentProvider" ADD VALUE 'MANUAL';
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "payment_method" "PaymentMethod" NOT NULL DEFAULT 'ONLINE';
+
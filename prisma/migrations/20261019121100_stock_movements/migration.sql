@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "StockMovementReason" AS ENUM ('SALE', 'CANCEL', 'REFUND', 'ADJUSTMENT', 'RESTOCK');
+
+-- CreateTable
+CREATE TABLE "stock_movements" (
+    "id" TEXT NOT NULL,
+    "variant_id" TEXT NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "reason" "StockMovementReason" NOT NULL,
+    "actor_id" TEXT,
+    "order_id" TEXT,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_movements_variant_id_created_at_idx" ON "stock_movements"("variant_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_created_at_idx" ON "stock_movements"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
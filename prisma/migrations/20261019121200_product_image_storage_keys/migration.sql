@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "product_images" ADD COLUMN     "storage_key" TEXT;
+
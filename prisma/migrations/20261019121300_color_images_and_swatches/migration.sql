@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "product_images" ADD COLUMN     "color" TEXT;
+
+-- CreateTable
+CREATE TABLE "product_color_swatches" (
+    "id" TEXT NOT NULL,
+    "product_id" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "hex" TEXT,
+    "image_url" TEXT,
+
+    CONSTRAINT "product_color_swatches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_color_swatches_product_id_color_key" ON "product_color_swatches"("product_id", "color");
+
+-- CreateIndex
+CREATE INDEX "product_images_product_id_color_idx" ON "product_images"("product_id", "color");
+
+-- AddForeignKey
+ALTER TABLE "product_color_swatches" ADD CONSTRAINT "product_color_swatches_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
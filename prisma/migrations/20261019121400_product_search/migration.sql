@@ -0,0 +1,12 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "search_vector" tsvector;
+
+-- CreateIndex
+CREATE INDEX "products_search_vector_idx" ON "products" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "products_name_trgm_idx" ON "products" USING GIN ("name" gin_trgm_ops);
+
@@ -0,0 +1,83 @@
+-- Keep products.search_vector in sync inside the database
+-- Weighted search document: A name, B category and colors, C descriptions
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION product_search_vector(
+    p_id TEXT,
+    p_name TEXT,
+    p_short_description TEXT,
+    p_description TEXT,
+    p_category_id TEXT
+) RETURNS tsvector
+LANGUAGE sql STABLE AS $$
+    SELECT setweight(to_tsvector('english', p_name), 'A')
+        || setweight(to_tsvector('english', COALESCE((
+            SELECT c.name FROM categories c WHERE c.id = p_category_id
+        ), '')), 'B')
+        || setweight(to_tsvector('english', COALESCE((
+            SELECT string_agg(DISTINCT v.color, ' ')
+            FROM product_variants v
+            WHERE v.product_id = p_id AND v.is_active
+        ), '')), 'B')
+        || setweight(to_tsvector('english', COALESCE(p_short_description, '') || ' ' || p_description), 'C')
+$$;
+
+-- CreateFunction
+CREATE OR REPLACE FUNCTION refresh_product_search_vector(p_product_id TEXT) RETURNS void
+LANGUAGE sql AS $$
+    UPDATE products p
+    SET search_vector = product_search_vector(p.id, p.name, p.short_description, p.description, p.category_id)
+    WHERE p.id = p_product_id
+$$;
+
+-- Product text and category: rebuilt on the row being written
+CREATE OR REPLACE FUNCTION products_search_vector_trigger() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+    NEW.search_vector := product_search_vector(
+        NEW.id, NEW.name, NEW.short_description, NEW.description, NEW.category_id
+    );
+    RETURN NEW;
+END
+$$;
+
+CREATE TRIGGER products_search_vector_sync
+    BEFORE INSERT OR UPDATE OF name, short_description, description, category_id ON products
+    FOR EACH ROW EXECUTE FUNCTION products_search_vector_trigger();
+
+-- Variant colors: rebuilt on the products the variant left and joined
+CREATE OR REPLACE FUNCTION product_variants_search_vector_trigger() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        PERFORM refresh_product_search_vector(OLD.product_id);
+    END IF;
+    IF TG_OP <> 'DELETE' AND (TG_OP = 'INSERT' OR NEW.product_id <> OLD.product_id) THEN
+        PERFORM refresh_product_search_vector(NEW.product_id);
+    END IF;
+    RETURN NULL;
+END
+$$;
+
+CREATE TRIGGER product_variants_search_vector_sync
+    AFTER INSERT OR DELETE OR UPDATE OF color, is_active, product_id ON product_variants
+    FOR EACH ROW EXECUTE FUNCTION product_variants_search_vector_trigger();
+
+-- Category names: rebuilt on every product in the category
+CREATE OR REPLACE FUNCTION categories_search_vector_trigger() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+    UPDATE products p
+    SET search_vector = product_search_vector(p.id, p.name, p.short_description, p.description, p.category_id)
+    WHERE p.category_id = NEW.id;
+    RETURN NULL;
+END
+$$;
+
+CREATE TRIGGER categories_search_vector_sync
+    AFTER UPDATE OF name ON categories
+    FOR EACH ROW EXECUTE FUNCTION categories_search_vector_trigger();
+
+-- Backfill products written before the triggers existed
+UPDATE products p
+SET search_vector = product_search_vector(p.id, p.name, p.short_description, p.description, p.category_id);
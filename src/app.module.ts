@@ -2,16 +2,23 @@
 
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 import { APP_FILTER, APP_INTERCEPTOR } from '@nestjs/core';
 
 import { PrismaModule } from './prisma';
+import { CacheModule } from './cache';
 import {
   appConfig,
   jwtConfig,
   googleConfig,
   opayConfig,
+  paystackConfig,
   gigConfig,
+  shippingConfig,
+  inventoryConfig,
   cloudinaryConfig,
+  storageConfig,
   emailConfig,
   redisConfig,
 } from './config';
@@ -26,6 +33,12 @@ import { ProductsModule } from './modules/products/products.module';
 import { CartModule } from './modules/cart/cart.module';
 import { OrdersModule } from './modules/orders/orders.module';
 import { PaymentsModule } from './modules/payments/payments.module';
+import { ReviewsModule } from './modules/reviews/reviews.module';
+import { WishlistModule } from './modules/wishlist/wishlist.module';
+import { CouponsModule } from './modules/coupons/coupons.module';
+import { ShippingModule } from './modules/shipping/shipping.module';
+import { InventoryModule } from './modules/inventory/inventory.module';
+import { SearchModule } from './modules/search/search.module';
 
 @Module({
   imports: [
@@ -37,16 +50,29 @@ import { PaymentsModule } from './modules/payments/payments.module';
         jwtConfig,
         googleConfig,
         opayConfig,
+        paystackConfig,
         gigConfig,
+        shippingConfig,
+        inventoryConfig,
         cloudinaryConfig,
+        storageConfig,
         emailConfig,
         redisConfig,
       ],
     }),
 
+    // Scheduled jobs
+    ScheduleModule.forRoot(),
+
+    // Domain events
+    EventEmitterModule.forRoot(),
+
     // Database
     PrismaModule,
 
+    // Cache (Redis, or in-memory when REDIS_URL is empty)
+    CacheModule,
+
     // Feature modules
     AuthModule,
     UsersModule,
@@ -55,6 +81,12 @@ import { PaymentsModule } from './modules/payments/payments.module';
     CartModule,
     OrdersModule,
     PaymentsModule,
+    ReviewsModule,
+    WishlistModule,
+    CouponsModule,
+    ShippingModule,
+    InventoryModule,
+    SearchModule,
   ],
   providers: [
     // Global exception filter
@@ -0,0 +1,13 @@
+// Cache store contract - Redis in production, memory when Redis is not configured
+
+export const CACHE_STORE = Symbol('CACHE_STORE');
+
+export interface CacheStore {
+    readonly name: string;
+
+    /** Read a cached value; null when missing or expired */
+    get(key: string): Promise<string | null>;
+
+    /** Store a value that expires after ttlSeconds */
+    set(key: string, value: string, ttlSeconds: number): Promise<void>;
+}
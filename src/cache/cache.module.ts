@@ -0,0 +1,25 @@
+// Cache Module
+
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from './cache.service';
+import { CACHE_STORE } from './cache-store.interface';
+import { MemoryCacheStore } from './memory-cache.store';
+import { RedisCacheStore } from './redis-cache.store';
+
+@Global()
+@Module({
+    providers: [
+        CacheService,
+        {
+            provide: CACHE_STORE,
+            inject: [ConfigService],
+            useFactory: (configService: ConfigService) => {
+                const url = configService.get<string>('redis.url');
+                return url ? new RedisCacheStore(url) : new MemoryCacheStore();
+            },
+        },
+    ],
+    exports: [CacheService],
+})
+export class CacheModule { }
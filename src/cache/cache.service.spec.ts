@@ -0,0 +1,47 @@
+import { CacheService } from './cache.service';
+import { MemoryCacheStore } from './memory-cache.store';
+import type { CacheStore } from './cache-store.interface';
+
+describe('CacheService', () => {
+  it('computes once and serves the cached value afterwards', async () => {
+    const cache = new CacheService(new MemoryCacheStore());
+    const compute = jest.fn().mockResolvedValue({ names: ['Ankara Dress'] });
+
+    await cache.remember('suggest:ank', 60, compute);
+    const second = await cache.remember('suggest:ank', 60, compute);
+
+    expect(second).toEqual({ names: ['Ankara Dress'] });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to memory when the store is unavailable', async () => {
+    const down: CacheStore = {
+      name: 'REDIS',
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => Promise.reject(new Error('connection refused')),
+    };
+    const cache = new CacheService(down);
+    const compute = jest.fn().mockResolvedValue(42);
+
+    expect(await cache.remember('count', 60, compute)).toBe(42);
+    expect(await cache.remember('count', 60, compute)).toBe(42);
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('MemoryCacheStore', () => {
+  it('expires entries and evicts the oldest when full', async () => {
+    jest.useFakeTimers();
+    const store = new MemoryCacheStore(2);
+
+    await store.set('a', '1', 10);
+    await store.set('b', '2', 10);
+    await store.set('c', '3', 10);
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('c')).toBe('3');
+
+    jest.advanceTimersByTime(11_000);
+    expect(await store.get('c')).toBeNull();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,55 @@
+// Cache Service - JSON caching with an in-memory fallback
+
+import { Inject, Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { CACHE_STORE } from './cache-store.interface';
+import type { CacheStore } from './cache-store.interface';
+import { MemoryCacheStore } from './memory-cache.store';
+import { RedisCacheStore } from './redis-cache.store';
+
+@Injectable()
+export class CacheService implements OnModuleDestroy {
+    private readonly logger = new Logger(CacheService.name);
+    private readonly fallback = new MemoryCacheStore();
+
+    constructor(@Inject(CACHE_STORE) private readonly store: CacheStore) { }
+
+    async onModuleDestroy() {
+        if (this.store instanceof RedisCacheStore) {
+            await this.store.disconnect();
+        }
+    }
+
+    /**
+     * Return the cached value for a key, or compute, cache and return it
+     */
+    async remember<T>(key: string, ttlSeconds: number, compute: () => Promise<T>): Promise<T> {
+        const cached = await this.read(key);
+        if (cached !== null) {
+            return JSON.parse(cached) as T;
+        }
+
+        const value = await compute();
+        await this.write(key, JSON.stringify(value), ttlSeconds);
+
+        return value;
+    }
+
+    // A failing store never fails the request - the memory cache takes over
+    private async read(key: string): Promise<string | null> {
+        try {
+            return await this.store.get(key);
+        } catch (error) {
+            this.logger.debug(`${this.store.name} cache read failed: ${(error as Error).message}`);
+            return this.fallback.get(key);
+        }
+    }
+
+    private async write(key: string, value: string, ttlSeconds: number): Promise<void> {
+        try {
+            await this.store.set(key, value, ttlSeconds);
+        } catch (error) {
+            this.logger.debug(`${this.store.name} cache write failed: ${(error as Error).message}`);
+            await this.fallback.set(key, value, ttlSeconds);
+        }
+    }
+}
@@ -0,0 +1,5 @@
+export * from './cache.service';
+export * from './cache.module';
+export * from './cache-store.interface';
+export * from './memory-cache.store';
+export * from './redis-cache.store';
@@ -0,0 +1,36 @@
+// Memory Cache Store - per-process cache used when Redis is absent or unreachable
+
+import { APP_CONSTANTS } from '../common/constants';
+import type { CacheStore } from './cache-store.interface';
+
+export class MemoryCacheStore implements CacheStore {
+    readonly name = 'MEMORY';
+    private readonly entries = new Map<string, { value: string; expiresAt: number }>();
+
+    constructor(private readonly maxEntries: number = APP_CONSTANTS.MEMORY_CACHE_MAX_ENTRIES) { }
+
+    get(key: string): Promise<string | null> {
+        const entry = this.entries.get(key);
+
+        if (!entry || entry.expiresAt <= Date.now()) {
+            this.entries.delete(key);
+            return Promise.resolve(null);
+        }
+
+        return Promise.resolve(entry.value);
+    }
+
+    set(key: string, value: string, ttlSeconds: number): Promise<void> {
+        // Maps keep insertion order, so the first key is the oldest entry
+        this.entries.delete(key);
+        if (this.entries.size >= this.maxEntries) {
+            const oldest = this.entries.keys().next();
+            if (!oldest.done) {
+                this.entries.delete(oldest.value);
+            }
+        }
+
+        this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+        return Promise.resolve();
+    }
+}
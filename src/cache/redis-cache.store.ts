@@ -0,0 +1,36 @@
+// Redis Cache Store - shared cache across app instances
+
+import { Logger } from '@nestjs/common';
+import Redis from 'ioredis';
+import type { CacheStore } from './cache-store.interface';
+
+export class RedisCacheStore implements CacheStore {
+    readonly name = 'REDIS';
+    private readonly logger = new Logger(RedisCacheStore.name);
+    private readonly client: Redis;
+
+    constructor(url: string) {
+        // Fail fast instead of queueing commands while Redis is down - callers fall back to memory
+        this.client = new Redis(url, {
+            lazyConnect: true,
+            enableOfflineQueue: false,
+            maxRetriesPerRequest: 1,
+        });
+        this.client.on('error', (error: Error) => this.logger.warn(`Redis error: ${error.message}`));
+        this.client.connect().catch((error: Error) =>
+            this.logger.warn(`Redis unavailable, using the memory cache: ${error.message}`),
+        );
+    }
+
+    async get(key: string): Promise<string | null> {
+        return this.client.get(key);
+    }
+
+    async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+        await this.client.set(key, value, 'EX', ttlSeconds);
+    }
+
+    async disconnect(): Promise<void> {
+        await this.client.quit().catch(() => this.client.disconnect());
+    }
+}
@@ -16,6 +16,28 @@ export const APP_CONSTANTS = {
 
     // Inventory
     DEFAULT_LOW_STOCK_THRESHOLD: 5,
+    BANK_TRANSFER_RESERVATION_HOURS: 24, // transfers take longer to confirm than card payments
+    RESERVATION_SWEEP_BATCH: 100,
+    MAX_BULK_STOCK_ROWS: 1000,
+    MAX_CSV_SIZE: 2 * 1024 * 1024, // 2MB
+
+    // Catalog import/export
+    MAX_IMPORT_PRODUCTS: 500,
+    MAX_IMPORT_SIZE: 5 * 1024 * 1024, // 5MB
+    MAX_PRODUCT_IMAGES: 10,
+    PRODUCT_EXPORT_BATCH: 100,
+
+    // Search
+    SEARCH_MAX_RESULTS: 500, // ranked matches considered per search
+    SEARCH_SUGGEST_LIMIT: 5,
+    SEARCH_SUGGEST_MAX_LIMIT: 10,
+    SEARCH_SUGGEST_TTL: 60, // seconds
+    MEMORY_CACHE_MAX_ENTRIES: 1000,
+
+    // Product listing facets
+    MAX_FILTER_VALUES: 20,
+    PRICE_FACET_BOUNDARIES: [10000, 25000, 50000, 100000], // ₦ bucket edges
+    SIZE_ORDER: ['XXS', 'XS', 'S', 'M', 'L', 'XL', 'XXL', 'XXXL'],
 
     // JWT
     ACCESS_TOKEN_EXPIRY: '15m',
@@ -33,9 +55,20 @@ export const APP_CONSTANTS = {
     // Order Number
     ORDER_PREFIX: 'VT',
 
+    // Payments
+    PAYMENT_SESSION_MINUTES: 30,
+    PAYMENT_SETTLEMENT_GRACE_MINUTES: 15, // reservations outlive the checkout session so late webhooks still find the stock
+    PAYMENT_RECONCILIATION_MINUTES: 45, // pending payments older than this are reconciled
+    PAYMENT_RECONCILIATION_BATCH: 50,
+    REFUND_RECONCILIATION_MINUTES: 30, // pending refunds older than this are checked with the provider
+    COD_MAX_ORDER_VALUE: 150000, // ₦150,000 - larger orders must be paid upfront
+
     // Reviews
     MIN_RATING: 1,
     MAX_RATING: 5,
+
+    // Coupons
+    MAX_COUPON_BATCH: 500,
 } as const;
 
 export * from './messages';
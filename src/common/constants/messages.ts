@@ -37,17 +37,59 @@ export const MESSAGES = {
         CREATED: 'Product has been created successfully.',
         UPDATED: 'Product details have been updated.',
         DELETED: 'Product has been removed from the catalog.',
+        DEACTIVATED: 'Product has order or stock history, so it has been deactivated instead of removed.',
         NOT_FOUND:
             'The product you are looking for does not exist or has been removed.',
         OUT_OF_STOCK: 'Sorry, this item is currently out of stock.',
-        INSUFFICIENT_STOCK: (available: number) =>
-            `Only ${available} item(s) available. Please reduce your quantity.`,
+        INSUFFICIENT_STOCK: (available: number, item?: string) =>
+            item
+                ? `Only ${available} of ${item} available. Please reduce your quantity.`
+                : `Only ${available} item(s) available. Please reduce your quantity.`,
         STOCK_UPDATED: 'Stock quantity has been updated.',
         IMAGE_UPLOADED: 'Product image has been uploaded.',
         IMAGE_DELETED: 'Product image has been removed.',
+        IMAGE_UPDATED: 'Product image has been updated.',
+        IMAGES_REORDERED: 'Product images have been reordered.',
+        PRIMARY_IMAGE_SET: 'Primary image has been updated.',
+        IMAGE_REQUIRED: 'Please upload an image file.',
+        INVALID_IMAGE_TYPE: 'Only JPEG, PNG and WebP images are allowed.',
+        TOO_MANY_IMAGES: (max: number) => `A product can have at most ${max} images.`,
+        IMAGE_ORDER_MISMATCH: 'The image order must list every image of the product exactly once.',
+        IMAGE_STORAGE_ERROR: 'Unable to store the image right now. Please try again.',
+        UNKNOWN_COLOR: (color: string) => `This product has no ${color} variant.`,
+        SWATCH_UPDATED: 'Color swatch has been updated.',
+        SWATCH_DELETED: 'Color swatch has been removed.',
         VARIANT_ADDED: 'Product variant has been added.',
         VARIANT_UPDATED: 'Product variant has been updated.',
         VARIANT_DELETED: 'Product variant has been removed.',
+        VARIANT_DEACTIVATED:
+            'Product variant has order or stock history, so it has been deactivated instead of removed.',
+        IMPORTED: (created: number, updated: number, failed: number) =>
+            `Import finished: ${created} created, ${updated} updated, ${failed} failed.`,
+        IMPORT_FILE_REQUIRED: 'Please upload a CSV or JSON file.',
+        IMPORT_EMPTY: 'The import file has no products.',
+        IMPORT_INVALID_JSON: 'The JSON file must contain an array of products.',
+        IMPORT_TOO_MANY: (max: number) => `An import can contain at most ${max} products.`,
+        UNKNOWN_CATEGORY: (slug: string) => `Category "${slug}" does not exist.`,
+        DUPLICATE_SKU: (sku: string) => `SKU ${sku} appears more than once.`,
+        SKU_TAKEN: (sku: string) => `SKU ${sku} belongs to another product.`,
+        VARIANT_CONFLICT: 'A variant with the same SKU or color and size already exists.',
+    },
+
+    // Inventory
+    INVENTORY: {
+        BULK_APPLIED: (count: number) => `Stock updated for ${count} variant(s).`,
+        BULK_DRY_RUN: (valid: number, invalid: number) =>
+            `Dry run: ${valid} row(s) valid, ${invalid} row(s) with errors. No stock was changed.`,
+        BULK_INVALID: 'Some rows could not be applied. No stock was changed.',
+        CSV_REQUIRED: 'Please upload a CSV file.',
+        CSV_EMPTY: 'The CSV file has no rows.',
+        CSV_TOO_MANY_ROWS: (max: number) => `A CSV import can contain at most ${max} rows.`,
+        UNKNOWN_SKU: 'Unknown SKU.',
+        DUPLICATE_SKU: 'SKU appears more than once.',
+        NEGATIVE_RESULT: (result: number) => `Stock would become ${result}.`,
+        BELOW_RESERVED: (result: number, reserved: number) =>
+            `Stock would become ${result}, below the ${reserved} unit(s) held for unpaid orders.`,
     },
 
     // Categories
@@ -74,6 +116,8 @@ export const MESSAGES = {
             `This coupon requires a minimum order of ${min}.`,
         COUPON_MAX_USES_REACHED: 'This coupon has reached its maximum usage limit.',
         EMPTY_CART: 'Your cart is empty. Please add items before checkout.',
+        ITEM_UNAVAILABLE: (item: string) =>
+            `${item} is no longer available. Please remove it from your cart.`,
     },
 
     // Orders
@@ -86,8 +130,13 @@ export const MESSAGES = {
             'This order cannot be cancelled as it has already been shipped.',
         NOT_FOUND: 'Order not found. Please check your order number.',
         STATUS_UPDATED: (status: string) => `Order status updated to ${status}.`,
+        STATUS_TRANSITION_NOT_ALLOWED: (from: string, to: string) =>
+            `An order cannot be moved from ${from} to ${to}.`,
+        STATUS_CHANGED: 'This order was updated by someone else. Please reload it and try again.',
         SHIPPED: 'Order has been shipped. Tracking information has been sent.',
         DELIVERED: 'Order has been marked as delivered.',
+        COD_LIMIT_EXCEEDED: (limit: string) =>
+            `Pay on delivery is only available for orders up to ${limit}.`,
     },
 
     // Payments
@@ -99,8 +148,34 @@ export const MESSAGES = {
         REFUND_INITIATED:
             'Refund has been initiated. It will reflect in your account within 5-7 business days.',
         REFUND_SUCCESS: 'Refund has been processed successfully.',
+        REFUND_PENDING: 'Refund is still being processed by the payment provider.',
+        REFUND_FAILED: 'The payment provider could not process this refund.',
+        REFUND_STATUS_UPDATED: 'Refund status has been updated.',
+        REFUND_NOT_ALLOWED: 'Only successful payments can be refunded.',
+        REFUND_EXCEEDS_BALANCE: (balance: string) =>
+            `Refund amount exceeds the refundable balance of ${balance}.`,
+        REFUND_RESTOCK_NOT_ALLOWED:
+            'The items of a cancelled order are already back in stock. Refund without restocking.',
+        REFUND_ITEM_INVALID: 'One or more items do not belong to this order.',
+        REFUND_QUANTITY_EXCEEDED: (item: string, quantity: number) =>
+            `Only ${quantity} unit(s) of ${item} can still be refunded.`,
         ALREADY_PAID: 'This order has already been paid.',
         NOT_FOUND: 'Payment record not found.',
+        PROVIDER_ERROR:
+            'We could not start your payment right now. Please try again shortly.',
+        INVALID_SIGNATURE: 'Invalid webhook signature.',
+        INVALID_WEBHOOK_PAYLOAD: 'Invalid webhook payload.',
+        WEBHOOK_UNHANDLED: 'Webhook event type is not handled.',
+        PROVIDER_UNSUPPORTED: (provider: string) =>
+            `Payment provider ${provider} is not supported.`,
+        WEBHOOK_DUPLICATE: 'Webhook event has already been processed.',
+        STATUS_CHANGE_IGNORED: (from: string, to: string) =>
+            `Payment status change from ${from} to ${to} was ignored.`,
+        OFFLINE_METHOD: 'This order is paid on delivery or by bank transfer.',
+        ONLINE_METHOD: 'Online payments are confirmed by the payment provider.',
+        MARKED_RECEIVED: 'Payment has been marked as received.',
+        ORDER_CLOSED: 'Payments cannot be recorded for cancelled or refunded orders.',
+        UNFULFILLED_REFUND_REASON: 'Payment received for an order that could not be fulfilled',
     },
 
     // Shipping
@@ -111,6 +186,15 @@ export const MESSAGES = {
         RATE_CALCULATED: 'Shipping rate calculated successfully.',
         ADDRESS_NOT_SERVICEABLE:
             'Sorry, we currently do not deliver to this location.',
+        METHOD_UNAVAILABLE: (method: string) =>
+            `${method} delivery is not available for this address.`,
+        PROVIDER_ERROR:
+            'We could not reach our delivery partner. Please try again shortly.',
+        NOT_FOUND: 'This order has not been shipped yet.',
+        ALREADY_BOOKED: 'A shipment has already been booked for this order.',
+        ORDER_NOT_READY: 'Only confirmed or processing orders can be shipped.',
+        ALREADY_DELIVERED: 'This shipment has already been delivered.',
+        STATUS_UPDATED: (status: string) => `Shipment status updated to ${status}.`,
     },
 
     // Wishlist
@@ -120,6 +204,8 @@ export const MESSAGES = {
         ALREADY_EXISTS: 'This item is already in your wishlist.',
         MOVED_TO_CART: 'Item has been moved to your cart.',
         NOT_FOUND: 'Item not found in your wishlist.',
+        VARIANT_REQUIRED:
+            'This item comes in several options. Please choose a color and size.',
     },
 
     // Reviews
@@ -129,6 +215,8 @@ export const MESSAGES = {
         DELETED: 'Your review has been removed.',
         APPROVED: 'Review has been approved.',
         REJECTED: 'Review has been rejected.',
+        BULK_APPROVED: (count: number) => `${count} review(s) approved.`,
+        BULK_REJECTED: (count: number) => `${count} review(s) rejected.`,
         ALREADY_REVIEWED: 'You have already reviewed this product.',
         PURCHASE_REQUIRED: 'You can only review products you have purchased.',
         NOT_FOUND: 'Review not found.',
@@ -142,6 +230,10 @@ export const MESSAGES = {
         NOT_FOUND: 'Coupon not found.',
         EXPIRED: 'This coupon has expired.',
         NOT_ACTIVE: 'This coupon is not currently active.',
+        CODE_EXISTS: 'A coupon with this code already exists.',
+        HAS_ORDERS:
+            'This coupon has already been used on orders. Deactivate it instead of deleting it.',
+        GENERATED: (count: number) => `${count} coupon code(s) generated successfully.`,
     },
 
     // CMS
@@ -167,6 +259,11 @@ export const MESSAGES = {
     },
 
     // General
+    // Search
+    SEARCH: {
+        REINDEXED: (count: number) => `Search index rebuilt for ${count} product(s).`,
+    },
+
     GENERAL: {
         NOT_FOUND: 'The requested resource was not found.',
         UNAUTHORIZED: 'Please log in to continue.',
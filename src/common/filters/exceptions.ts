@@ -11,6 +11,7 @@ export class BusinessException extends HttpException {
         message: string,
         code: string,
         statusCode: HttpStatus = HttpStatus.BAD_REQUEST,
+        details?: Record<string, string>,
     ) {
         super(
             {
@@ -18,6 +19,7 @@ export class BusinessException extends HttpException {
                 error: {
                     code,
                     message,
+                    ...(details && { details }),
                 },
             },
             statusCode,
@@ -108,15 +110,26 @@ export class OutOfStockException extends BusinessException {
 }
 
 export class InsufficientStockException extends BusinessException {
-    constructor(available: number) {
+    constructor(available: number, item?: string) {
         super(
-            MESSAGES.PRODUCT.INSUFFICIENT_STOCK(available),
+            MESSAGES.PRODUCT.INSUFFICIENT_STOCK(available, item),
             'INSUFFICIENT_STOCK',
             HttpStatus.BAD_REQUEST,
         );
     }
 }
 
+export class BulkStockValidationException extends BusinessException {
+    constructor(details: Record<string, string>) {
+        super(
+            MESSAGES.INVENTORY.BULK_INVALID,
+            'BULK_STOCK_INVALID',
+            HttpStatus.UNPROCESSABLE_ENTITY,
+            details,
+        );
+    }
+}
+
 // ============ CART EXCEPTIONS ============
 
 export class EmptyCartException extends BusinessException {
@@ -141,6 +154,20 @@ export class CouponMinNotMetException extends BusinessException {
     }
 }
 
+// ============ COUPON EXCEPTIONS ============
+
+export class CouponNotFoundException extends BusinessException {
+    constructor() {
+        super(MESSAGES.COUPON.NOT_FOUND, 'COUPON_NOT_FOUND', HttpStatus.NOT_FOUND);
+    }
+}
+
+export class CouponCodeExistsException extends BusinessException {
+    constructor() {
+        super(MESSAGES.COUPON.CODE_EXISTS, 'COUPON_CODE_EXISTS', HttpStatus.CONFLICT);
+    }
+}
+
 // ============ ORDER EXCEPTIONS ============
 
 export class OrderCancelNotAllowedException extends BusinessException {
@@ -167,6 +194,60 @@ export class PaymentAlreadyPaidException extends BusinessException {
     }
 }
 
+export class InvalidWebhookSignatureException extends BusinessException {
+    constructor() {
+        super(
+            MESSAGES.PAYMENT.INVALID_SIGNATURE,
+            'INVALID_WEBHOOK_SIGNATURE',
+            HttpStatus.UNAUTHORIZED,
+        );
+    }
+}
+
+export class PaymentProviderException extends BusinessException {
+    constructor(message: string = MESSAGES.PAYMENT.PROVIDER_ERROR) {
+        super(message, 'PAYMENT_PROVIDER_ERROR', HttpStatus.BAD_GATEWAY);
+    }
+}
+
+// ============ STORAGE EXCEPTIONS ============
+
+export class ImageStorageException extends BusinessException {
+    constructor(message: string = MESSAGES.PRODUCT.IMAGE_STORAGE_ERROR) {
+        super(message, 'IMAGE_STORAGE_ERROR', HttpStatus.BAD_GATEWAY);
+    }
+}
+
+// ============ SHIPPING EXCEPTIONS ============
+
+export class AddressNotServiceableException extends BusinessException {
+    constructor() {
+        super(
+            MESSAGES.SHIPPING.ADDRESS_NOT_SERVICEABLE,
+            'ADDRESS_NOT_SERVICEABLE',
+            HttpStatus.BAD_REQUEST,
+        );
+    }
+}
+
+export class ShipmentNotFoundException extends BusinessException {
+    constructor() {
+        super(MESSAGES.SHIPPING.NOT_FOUND, 'SHIPMENT_NOT_FOUND', HttpStatus.NOT_FOUND);
+    }
+}
+
+export class ShipmentAlreadyBookedException extends BusinessException {
+    constructor() {
+        super(MESSAGES.SHIPPING.ALREADY_BOOKED, 'SHIPMENT_ALREADY_BOOKED', HttpStatus.CONFLICT);
+    }
+}
+
+export class ShippingProviderException extends BusinessException {
+    constructor(message: string = MESSAGES.SHIPPING.PROVIDER_ERROR) {
+        super(message, 'SHIPPING_PROVIDER_ERROR', HttpStatus.BAD_GATEWAY);
+    }
+}
+
 // ============ REVIEW EXCEPTIONS ============
 
 export class AlreadyReviewedException extends BusinessException {
@@ -189,6 +270,34 @@ export class PurchaseRequiredException extends BusinessException {
     }
 }
 
+export class ReviewNotFoundException extends BusinessException {
+    constructor() {
+        super(MESSAGES.REVIEW.NOT_FOUND, 'REVIEW_NOT_FOUND', HttpStatus.NOT_FOUND);
+    }
+}
+
+// ============ WISHLIST EXCEPTIONS ============
+
+export class WishlistItemExistsException extends BusinessException {
+    constructor() {
+        super(
+            MESSAGES.WISHLIST.ALREADY_EXISTS,
+            'WISHLIST_ITEM_EXISTS',
+            HttpStatus.CONFLICT,
+        );
+    }
+}
+
+export class WishlistItemNotFoundException extends BusinessException {
+    constructor() {
+        super(
+            MESSAGES.WISHLIST.NOT_FOUND,
+            'WISHLIST_ITEM_NOT_FOUND',
+            HttpStatus.NOT_FOUND,
+        );
+    }
+}
+
 // ============ AUTHORIZATION EXCEPTIONS ============
 
 export class UnauthorizedException extends BusinessException {
@@ -0,0 +1,33 @@
+import { parseCsv, toCsvRow } from './csv.helper';
+
+describe('parseCsv', () => {
+  it('keys rows by the header and handles quotes, BOM and CRLF', () => {
+    const content = '\uFEFFsku,note\r\nVT-1,"Restock, batch ""A"""\r\n\r\nVT-2,\r\n';
+
+    expect(parseCsv(content)).toEqual([
+      { sku: 'VT-1', note: 'Restock, batch "A"' },
+      { sku: 'VT-2', note: '' },
+    ]);
+  });
+
+  it('returns no rows for a header-only file', () => {
+    expect(parseCsv('sku,delta\n')).toEqual([]);
+  });
+});
+
+describe('toCsvRow', () => {
+  it('round-trips through parseCsv', () => {
+    const values = ['Ankara "Wrap" Dress', 'Line one\nline two', 12.5, true, null];
+    const content = `${toCsvRow(['name', 'description', 'price', 'active', 'meta'])}\n${toCsvRow(values)}\n`;
+
+    expect(parseCsv(content)).toEqual([
+      {
+        name: 'Ankara "Wrap" Dress',
+        description: 'Line one\nline two',
+        price: '12.5',
+        active: 'true',
+        meta: '',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+// CSV helper functions
+
+/**
+ * Parse CSV text into rows keyed by the header row
+ * Supports quoted fields, escaped quotes ("") and CRLF line endings
+ */
+export function parseCsv(content: string): Array<Record<string, string>> {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    // Strip a UTF-8 byte order mark left by spreadsheet exports
+    const text = content.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const [header, ...rows] = records.filter((row) => row.some((cell) => cell.trim() !== ''));
+    if (!header) {
+        return [];
+    }
+
+    const columns = header.map((column) => column.trim());
+
+    return rows.map((row) =>
+        Object.fromEntries(columns.map((column, index) => [column, (row[index] ?? '').trim()])),
+    );
+}
+
+/**
+ * Format values as one CSV line, quoting fields that contain separators or quotes
+ */
+export function toCsvRow(values: Array<string | number | boolean | null | undefined>): string {
+    return values
+        .map((value) => {
+            const field = value === null || value === undefined ? '' : String(value);
+            return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+        })
+        .join(',');
+}
@@ -0,0 +1,52 @@
+// Facet helper functions for product listings
+
+import { APP_CONSTANTS } from '../constants';
+
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+export interface PriceRange {
+    min: number;
+    max: number | null; // null for the open-ended top range
+}
+
+/**
+ * Count how often each value occurs
+ */
+export function countValues(values: string[]): FacetCount[] {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+
+    return [...counts].map(([value, count]) => ({ value, count }));
+}
+
+/**
+ * Order sizes the way shoppers expect - letter sizes small to large, then numeric sizes, then the rest
+ */
+export function compareSizes(a: string, b: string): number {
+    const rank = (size: string): [number, number] => {
+        const letterIndex = (APP_CONSTANTS.SIZE_ORDER as readonly string[]).indexOf(size.toUpperCase());
+        if (letterIndex >= 0) return [0, letterIndex];
+
+        const numeric = Number(size);
+        return Number.isNaN(numeric) ? [2, 0] : [1, numeric];
+    };
+
+    const [groupA, valueA] = rank(a);
+    const [groupB, valueB] = rank(b);
+
+    return groupA - groupB || valueA - valueB || a.localeCompare(b);
+}
+
+/**
+ * Split prices into ranges at the given boundaries
+ */
+export function buildPriceRanges(boundaries: readonly number[]): PriceRange[] {
+    const edges = [0, ...boundaries];
+
+    return edges.map((min, index) => ({ min, max: edges[index + 1] ?? null }));
+}
@@ -0,0 +1,38 @@
+// Image helper functions
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+};
+
+/**
+ * Detect an image's type from its leading bytes
+ * The client-supplied MIME type is not trusted on its own
+ */
+export function detectImageType(buffer: Buffer): string | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        return 'image/jpeg';
+    }
+
+    if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+        return 'image/png';
+    }
+
+    if (
+        buffer.length >= 12 &&
+        buffer.toString('ascii', 0, 4) === 'RIFF' &&
+        buffer.toString('ascii', 8, 12) === 'WEBP'
+    ) {
+        return 'image/webp';
+    }
+
+    return null;
+}
+
+/**
+ * File extension for a supported image MIME type
+ */
+export function getImageExtension(mimetype: string): string {
+    return IMAGE_EXTENSIONS[mimetype] ?? 'bin';
+}
@@ -6,3 +6,11 @@ export * from './slug.helper';
 export * from './date.helper';
 export * from './order-number.helper';
 export * from './response.helper';
+export * from './rating.helper';
+export * from './signature.helper';
+export * from './payment-status.helper';
+export * from './order-status.helper';
+export * from './inventory.helper';
+export * from './csv.helper';
+export * from './image.helper';
+export * from './facet.helper';
@@ -0,0 +1,11 @@
+// Inventory helper functions
+
+/**
+ * Units that can still be sold - stock not held by unpaid orders
+ */
+export function getAvailableStock(variant: {
+    stockQuantity: number;
+    reservedQuantity: number;
+}): number {
+    return Math.max(0, variant.stockQuantity - variant.reservedQuantity);
+}
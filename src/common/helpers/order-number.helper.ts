@@ -1,7 +1,11 @@
 // Order number generation helper
 
+import { randomInt } from 'crypto';
 import { APP_CONSTANTS } from '../constants';
 
+// Coupon alphabet without look-alike characters (0/O, 1/I)
+const COUPON_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
 /**
  * Generate a unique order number
  * Format: VT-{TIMESTAMP_BASE36}-{RANDOM}
@@ -23,6 +27,16 @@ export function generatePaymentReference(): string {
     return `PAY-${timestamp}-${random}`;
 }
 
+/**
+ * Generate a unique reference for refunds
+ * Format: RFD-{TIMESTAMP}-{RANDOM}
+ */
+export function generateRefundReference(): string {
+    const timestamp = Date.now().toString(36).toUpperCase();
+    const random = Math.random().toString(36).substring(2, 8).toUpperCase();
+    return `RFD-${timestamp}-${random}`;
+}
+
 /**
  * Generate a unique SKU for product variants
  * Format: SKU-{CATEGORY_INITIAL}-{COLOR}-{SIZE}-{RANDOM}
@@ -46,3 +60,16 @@ export function generateSKU(
     return `SKU-${categoryInitial}-${random}`;
 }
 
+/**
+ * Generate a random coupon code
+ * Format: {PREFIX}-{RANDOM} or {RANDOM} when no prefix is given
+ * Example: SALE-K7M2Q9XD
+ */
+export function generateCouponCode(prefix: string = '', length: number = 8): string {
+    let random = '';
+    for (let i = 0; i < length; i++) {
+        random += COUPON_CODE_ALPHABET[randomInt(COUPON_CODE_ALPHABET.length)];
+    }
+
+    return prefix ? `${prefix.toUpperCase()}-${random}` : random;
+}
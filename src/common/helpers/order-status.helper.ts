@@ -0,0 +1,35 @@
+// Order status state machine
+
+export type OrderStatusValue =
+    | 'PENDING'
+    | 'CONFIRMED'
+    | 'PROCESSING'
+    | 'SHIPPED'
+    | 'DELIVERED'
+    | 'CANCELLED'
+    | 'REFUNDED';
+
+/**
+ * Order status changes an admin may make by hand
+ * Payments and markReceived own PENDING -> CONFIRMED because it commits the order's reservations,
+ * and refunds own REFUNDED. Closed orders never reopen: their stock has already gone back.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatusValue, OrderStatusValue[]> = {
+    PENDING: ['CANCELLED'],
+    CONFIRMED: ['PROCESSING', 'SHIPPED', 'CANCELLED'],
+    PROCESSING: ['SHIPPED', 'CANCELLED'],
+    SHIPPED: ['DELIVERED'],
+    DELIVERED: [],
+    CANCELLED: [],
+    REFUNDED: [],
+};
+
+/**
+ * Check whether an admin may move an order from one status to another
+ */
+export function canTransitionOrder(
+    from: OrderStatusValue,
+    to: OrderStatusValue,
+): boolean {
+    return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
@@ -0,0 +1,44 @@
+import { canTransitionPayment } from './payment-status.helper';
+import { computeHmac, isValidHmacSignature } from './signature.helper';
+
+describe('canTransitionPayment', () => {
+  it('settles pending payments', () => {
+    expect(canTransitionPayment('PENDING', 'SUCCESS')).toBe(true);
+    expect(canTransitionPayment('PENDING', 'FAILED')).toBe(true);
+  });
+
+  it('never moves a successful payment backwards', () => {
+    expect(canTransitionPayment('SUCCESS', 'FAILED')).toBe(false);
+    expect(canTransitionPayment('SUCCESS', 'PENDING')).toBe(false);
+    expect(canTransitionPayment('SUCCESS', 'SUCCESS')).toBe(false);
+  });
+
+  it('accepts a late success after a failure', () => {
+    expect(canTransitionPayment('FAILED', 'SUCCESS')).toBe(true);
+    expect(canTransitionPayment('FAILED', 'PENDING')).toBe(false);
+  });
+
+  it('treats refunded as final', () => {
+    expect(canTransitionPayment('SUCCESS', 'REFUNDED')).toBe(true);
+    expect(canTransitionPayment('PARTIALLY_REFUNDED', 'REFUNDED')).toBe(true);
+    expect(canTransitionPayment('REFUNDED', 'SUCCESS')).toBe(false);
+  });
+});
+
+describe('isValidHmacSignature', () => {
+  const body = Buffer.from('{"reference":"PAY-1","status":"SUCCESS"}');
+  const secret = 'OPAYPRV-test';
+
+  it('accepts the HMAC-SHA512 of the raw body', () => {
+    expect(isValidHmacSignature(body, computeHmac(body, secret), secret)).toBe(true);
+  });
+
+  it('rejects missing, tampered or foreign signatures', () => {
+    const tampered = Buffer.from('{"reference":"PAY-1","status":"FAILED"}');
+
+    expect(isValidHmacSignature(body, undefined, secret)).toBe(false);
+    expect(isValidHmacSignature(tampered, computeHmac(body, secret), secret)).toBe(false);
+    expect(isValidHmacSignature(body, computeHmac(body, 'other'), secret)).toBe(false);
+    expect(isValidHmacSignature(body, 'not-hex', secret)).toBe(false);
+  });
+});
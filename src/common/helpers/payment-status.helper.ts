@@ -0,0 +1,31 @@
+// Payment status state machine
+
+export type PaymentStatusValue =
+    | 'PENDING'
+    | 'SUCCESS'
+    | 'FAILED'
+    | 'REFUNDED'
+    | 'PARTIALLY_REFUNDED';
+
+/**
+ * Allowed payment status transitions
+ * A late SUCCESS may still follow FAILED (the customer was charged after an abandoned
+ * session), but a settled payment never moves back to PENDING or FAILED.
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatusValue, PaymentStatusValue[]> = {
+    PENDING: ['SUCCESS', 'FAILED'],
+    FAILED: ['SUCCESS'],
+    SUCCESS: ['PARTIALLY_REFUNDED', 'REFUNDED'],
+    PARTIALLY_REFUNDED: ['PARTIALLY_REFUNDED', 'REFUNDED'],
+    REFUNDED: [],
+};
+
+/**
+ * Check whether a payment may move from one status to another
+ */
+export function canTransitionPayment(
+    from: PaymentStatusValue,
+    to: PaymentStatusValue,
+): boolean {
+    return PAYMENT_STATUS_TRANSITIONS[from].includes(to);
+}
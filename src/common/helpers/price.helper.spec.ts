@@ -0,0 +1,60 @@
+import { calculateCouponDiscount, calculatePriceBreakdown } from './price.helper';
+
+describe('calculateCouponDiscount', () => {
+  it('gives no discount without a coupon', () => {
+    expect(calculateCouponDiscount(10000, null)).toBe(0);
+  });
+
+  it('takes a percentage of the subtotal', () => {
+    expect(calculateCouponDiscount(12345, { type: 'PERCENTAGE', value: 10 })).toBe(1234.5);
+  });
+
+  it('caps a fixed amount at the subtotal', () => {
+    expect(calculateCouponDiscount(10000, { type: 'FIXED_AMOUNT', value: '2500.00' })).toBe(2500);
+    expect(calculateCouponDiscount(1500, { type: 'FIXED_AMOUNT', value: 2500 })).toBe(1500);
+  });
+
+  it('leaves merchandise full price for free shipping', () => {
+    expect(calculateCouponDiscount(10000, { type: 'FREE_SHIPPING', value: 0 })).toBe(0);
+  });
+});
+
+describe('calculatePriceBreakdown', () => {
+  it('adds VAT on the subtotal and charges shipping', () => {
+    expect(calculatePriceBreakdown(10000, 2500, null)).toEqual({
+      subtotal: 10000,
+      discount: 0,
+      shippingCost: 2500,
+      shippingDiscount: 0,
+      vat: 750,
+      total: 13250,
+    });
+  });
+
+  it('charges VAT on the discounted subtotal', () => {
+    expect(calculatePriceBreakdown(10000, 2500, { type: 'PERCENTAGE', value: 20 })).toMatchObject({
+      discount: 2000,
+      vat: 600,
+      total: 11100,
+    });
+  });
+
+  it('never prices a fixed discount below zero', () => {
+    expect(calculatePriceBreakdown(1500, 2500, { type: 'FIXED_AMOUNT', value: 5000 })).toMatchObject({
+      discount: 1500,
+      vat: 0,
+      total: 2500,
+    });
+  });
+
+  it('waives shipping for free shipping coupons', () => {
+    expect(calculatePriceBreakdown(10000, 2500, { type: 'FREE_SHIPPING', value: 0 })).toEqual({
+      subtotal: 10000,
+      discount: 0,
+      shippingCost: 0,
+      shippingDiscount: 2500,
+      vat: 750,
+      total: 10750,
+    });
+  });
+});
@@ -28,6 +28,75 @@ export function calculateOrderTotal(
     };
 }
 
+/**
+ * Coupon fields that affect pricing
+ */
+export interface PricingCoupon {
+    type: string;
+    value: unknown;
+}
+
+/**
+ * Full price breakdown for a cart or order
+ */
+export interface PriceBreakdown {
+    subtotal: number;
+    discount: number;
+    shippingCost: number;
+    shippingDiscount: number;
+    vat: number;
+    total: number;
+}
+
+/**
+ * Calculate the merchandise discount of a coupon
+ * FIXED_AMOUNT is capped at the subtotal; FREE_SHIPPING discounts shipping instead
+ */
+export function calculateCouponDiscount(
+    subtotal: number,
+    coupon: PricingCoupon | null,
+): number {
+    if (!coupon) {
+        return 0;
+    }
+
+    const couponValue = Number(coupon.value);
+
+    if (coupon.type === 'PERCENTAGE') {
+        return Math.min(calculatePercentageDiscount(subtotal, couponValue), subtotal);
+    }
+
+    if (coupon.type === 'FIXED_AMOUNT') {
+        return roundPrice(Math.min(couponValue, subtotal));
+    }
+
+    return 0;
+}
+
+/**
+ * Price a cart or order: coupon discount, shipping, VAT and total
+ * Shared by the cart preview and checkout so both always agree
+ */
+export function calculatePriceBreakdown(
+    subtotal: number,
+    shippingCost: number,
+    coupon: PricingCoupon | null,
+): PriceBreakdown {
+    const discount = calculateCouponDiscount(subtotal, coupon);
+    const shippingDiscount = coupon?.type === 'FREE_SHIPPING' ? shippingCost : 0;
+    const chargedShipping = shippingCost - shippingDiscount;
+    const { vat, total } = calculateOrderTotal(subtotal, chargedShipping, discount);
+
+    return {
+        subtotal: roundPrice(subtotal),
+        discount,
+        shippingCost: chargedShipping,
+        shippingDiscount,
+        vat,
+        total,
+    };
+}
+
 /**
  * Format price as Nigerian Naira
  */
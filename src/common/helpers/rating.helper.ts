@@ -0,0 +1,35 @@
+// Rating aggregation helper functions
+
+import { RatingHistogram, RatingSummary } from '../types';
+
+/**
+ * Create an empty 1-5 star histogram
+ */
+export function emptyRatingHistogram(): RatingHistogram {
+    return { '1': 0, '2': 0, '3': 0, '4': 0, '5': 0 };
+}
+
+/**
+ * Build a rating summary from per-rating review counts
+ */
+export function buildRatingSummary(
+    counts: Array<{ rating: number; count: number }>,
+): RatingSummary {
+    const ratingHistogram = emptyRatingHistogram();
+    let reviewCount = 0;
+    let ratingTotal = 0;
+
+    for (const { rating, count } of counts) {
+        const key = String(rating) as keyof RatingHistogram;
+        if (!(key in ratingHistogram)) continue;
+
+        ratingHistogram[key] += count;
+        reviewCount += count;
+        ratingTotal += rating * count;
+    }
+
+    const averageRating =
+        reviewCount > 0 ? Math.round((ratingTotal / reviewCount) * 100) / 100 : 0;
+
+    return { averageRating, reviewCount, ratingHistogram };
+}
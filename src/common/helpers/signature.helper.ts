@@ -0,0 +1,33 @@
+// Webhook signature helper functions
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Compute a hex HMAC of a payload
+ */
+export function computeHmac(
+    payload: Buffer | string,
+    secret: string,
+    algorithm: 'sha256' | 'sha512' = 'sha512',
+): string {
+    return createHmac(algorithm, secret).update(payload).digest('hex');
+}
+
+/**
+ * Verify a hex HMAC signature in constant time
+ */
+export function isValidHmacSignature(
+    payload: Buffer | string,
+    signature: string | undefined,
+    secret: string,
+    algorithm: 'sha256' | 'sha512' = 'sha512',
+): boolean {
+    if (!signature || !secret) {
+        return false;
+    }
+
+    const expected = Buffer.from(computeHmac(payload, secret, algorithm), 'hex');
+    const received = Buffer.from(signature.trim().toLowerCase(), 'hex');
+
+    return expected.length === received.length && timingSafeEqual(expected, received);
+}
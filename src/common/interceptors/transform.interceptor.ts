@@ -5,6 +5,7 @@ import {
     NestInterceptor,
     ExecutionContext,
     CallHandler,
+    StreamableFile,
 } from '@nestjs/common';
 import { Observable } from 'rxjs';
 import { map } from 'rxjs/operators';
@@ -19,6 +20,11 @@ export class TransformInterceptor<T>
     ): Observable<ApiResponse<T>> {
         return next.handle().pipe(
             map((data) => {
+                // File downloads are streamed to the client untouched
+                if (data instanceof StreamableFile) {
+                    return data;
+                }
+
                 // If data is already in ApiResponse format, return as is
                 if (data && typeof data === 'object' && 'success' in data) {
                     return data;
@@ -56,3 +56,23 @@ export const slugSchema = z
     .min(1, 'Slug is required')
     .regex(/^[a-z0-9-]+$/, 'Invalid slug format');
 
+
+/**
+ * Multi-value query parameter - accepts ?colors=Red,Blue or ?colors=Red&colors=Blue
+ */
+export const multiValueSchema = z.preprocess(
+    (value) => {
+        const values: unknown[] | undefined =
+            typeof value === 'string' ? [value] : Array.isArray(value) ? value : undefined;
+        if (!values) {
+            return value;
+        }
+
+        return values.flatMap((item) =>
+            typeof item === 'string'
+                ? item.split(',').map((part) => part.trim()).filter(Boolean)
+                : [item],
+        );
+    },
+    z.array(z.string().max(100)).max(APP_CONSTANTS.MAX_FILTER_VALUES).optional(),
+);
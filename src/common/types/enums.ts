@@ -29,6 +29,27 @@ export enum OrderStatus {
   REFUNDED = 'REFUNDED',
 }
 
+export enum PaymentMethod {
+  ONLINE = 'ONLINE',
+  CASH_ON_DELIVERY = 'CASH_ON_DELIVERY',
+  BANK_TRANSFER = 'BANK_TRANSFER',
+}
+
+export enum ReservationStatus {
+  ACTIVE = 'ACTIVE',
+  COMMITTED = 'COMMITTED',
+  RELEASED = 'RELEASED',
+  EXPIRED = 'EXPIRED',
+}
+
+export enum StockMovementReason {
+  SALE = 'SALE',
+  CANCEL = 'CANCEL',
+  REFUND = 'REFUND',
+  ADJUSTMENT = 'ADJUSTMENT',
+  RESTOCK = 'RESTOCK',
+}
+
 export enum PaymentStatus {
   PENDING = 'PENDING',
   SUCCESS = 'SUCCESS',
@@ -39,6 +60,21 @@ export enum PaymentStatus {
 
 export enum PaymentProvider {
   OPAY = 'OPAY',
+  PAYSTACK = 'PAYSTACK',
+  MANUAL = 'MANUAL',
+}
+
+export enum RefundStatus {
+  PENDING = 'PENDING',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+}
+
+export enum WebhookEventStatus {
+  RECEIVED = 'RECEIVED',
+  PROCESSED = 'PROCESSED',
+  IGNORED = 'IGNORED',
+  FAILED = 'FAILED',
 }
 
 export enum ShippingStatus {
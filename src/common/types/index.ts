@@ -47,5 +47,13 @@ export interface TokenPair {
     refreshToken: string;
 }
 
+export type RatingHistogram = Record<'1' | '2' | '3' | '4' | '5', number>;
+
+export interface RatingSummary {
+    averageRating: number;
+    reviewCount: number;
+    ratingHistogram: RatingHistogram;
+}
+
 // Re-export enums for convenience
 export * from './enums';
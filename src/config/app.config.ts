@@ -7,6 +7,7 @@ export const appConfig = registerAs('app', () => ({
     port: parseInt(process.env.PORT || '3000', 10),
     apiPrefix: process.env.API_PREFIX || 'api/v1',
     corsOrigins: process.env.CORS_ORIGINS?.split(',') || ['http://localhost:3000'],
+    frontendUrl: process.env.FRONTEND_URL || 'http://localhost:5173',
 }));
 
 export const jwtConfig = registerAs('jwt', () => ({
@@ -27,17 +28,47 @@ export const opayConfig = registerAs('opay', () => ({
     publicKey: process.env.OPAY_PUBLIC_KEY || '',
     secretKey: process.env.OPAY_SECRET_KEY || '',
     baseUrl: process.env.OPAY_BASE_URL || 'https://sandboxapi.opaycheckout.com',
+    callbackUrl:
+        process.env.OPAY_CALLBACK_URL || 'http://localhost:3000/api/v1/webhooks/payments/opay',
+    timeoutMs: parseInt(process.env.OPAY_TIMEOUT_MS || '15000', 10),
+}));
+
+export const paystackConfig = registerAs('paystack', () => ({
+    secretKey: process.env.PAYSTACK_SECRET_KEY || '',
+    baseUrl: process.env.PAYSTACK_BASE_URL || 'https://api.paystack.co',
+    timeoutMs: parseInt(process.env.PAYSTACK_TIMEOUT_MS || '15000', 10),
 }));
 
 export const gigConfig = registerAs('gig', () => ({
     apiKey: process.env.GIG_API_KEY || '',
     baseUrl: process.env.GIG_BASE_URL || 'https://api.giglogistics.com',
+    timeoutMs: parseInt(process.env.GIG_TIMEOUT_MS || '15000', 10),
+}));
+
+export const shippingConfig = registerAs('shipping', () => ({
+    provider: process.env.SHIPPING_PROVIDER || 'stub',
+    originState: process.env.SHIPPING_ORIGIN_STATE || 'Lagos',
+    originAddress: process.env.SHIPPING_ORIGIN_ADDRESS || '',
+    senderName: process.env.SHIPPING_SENDER_NAME || 'Vogue Tribe',
+    senderPhone: process.env.SHIPPING_SENDER_PHONE || '',
+}));
+
+export const inventoryConfig = registerAs('inventory', () => ({
+    notifier: process.env.INVENTORY_NOTIFIER || 'log',
+    alertEmail: process.env.INVENTORY_ALERT_EMAIL || '',
 }));
 
 export const cloudinaryConfig = registerAs('cloudinary', () => ({
     cloudName: process.env.CLOUDINARY_CLOUD_NAME || '',
     apiKey: process.env.CLOUDINARY_API_KEY || '',
     apiSecret: process.env.CLOUDINARY_API_SECRET || '',
+    folder: process.env.CLOUDINARY_FOLDER || 'vogue-tribe',
+}));
+
+export const storageConfig = registerAs('storage', () => ({
+    driver: process.env.STORAGE_DRIVER || 'local',
+    localDir: process.env.STORAGE_LOCAL_DIR || 'uploads',
+    publicUrl: process.env.STORAGE_PUBLIC_URL || 'http://localhost:3000/uploads',
 }));
 
 export const emailConfig = registerAs('email', () => ({
@@ -46,5 +77,5 @@ export const emailConfig = registerAs('email', () => ({
 }));
 
 export const redisConfig = registerAs('redis', () => ({
-    url: process.env.REDIS_URL || 'redis://localhost:6379',
+    url: process.env.REDIS_URL || '', // empty uses the in-memory cache
 }));
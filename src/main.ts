@@ -1,14 +1,20 @@
 // Main Application Entry Point
 
 import { NestFactory } from '@nestjs/core';
+import type { NestExpressApplication } from '@nestjs/platform-express';
 import { ConfigService } from '@nestjs/config';
 import { Logger } from '@nestjs/common';
 import helmet from 'helmet';
+import { resolve } from 'path';
+import type { Response } from 'express';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    // Webhook signatures are computed over the exact request bytes
+    rawBody: true,
+  });
 
   // Get configuration
   const configService = app.get(ConfigService);
@@ -27,6 +33,16 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // Serve locally stored images in development (other origins may embed them)
+  if (configService.get<string>('storage.driver') === 'local') {
+    app.useStaticAssets(resolve(configService.get<string>('storage.localDir', 'uploads')), {
+      prefix: '/uploads',
+      setHeaders: (res: Response) => {
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+      },
+    });
+  }
+
   // Global prefix
   app.setGlobalPrefix(apiPrefix);
 
@@ -0,0 +1,12 @@
+// Optional JWT Auth Guard - attaches the user when a valid token is sent
+
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+    handleRequest<TUser>(_err: Error | null, user: TUser): TUser {
+        // Anonymous or invalid tokens fall through without a user
+        return user || (undefined as TUser);
+    }
+}
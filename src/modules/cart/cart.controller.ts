@@ -15,11 +15,13 @@ import {
     addCartItemSchema,
     updateCartItemSchema,
     applyCouponSchema,
+    cartQuoteSchema,
 } from './schemas';
 import type {
     AddCartItemDto,
     UpdateCartItemDto,
     ApplyCouponDto,
+    CartQuoteDto,
 } from './schemas';
 import { JwtAuthGuard } from '../auth/guards';
 import { CurrentUser } from '../../common/decorators';
@@ -92,6 +94,18 @@ export class CartController {
         return this.cartService.clearCart(user.id);
     }
 
+    /**
+     * Preview checkout totals and delivery options for an address
+     * POST /api/v1/cart/quote
+     */
+    @Post('quote')
+    async quote(
+        @CurrentUser() user: AuthUser,
+        @Body(new ZodValidationPipe(cartQuoteSchema)) dto: CartQuoteDto,
+    ) {
+        return this.cartService.quote(user.id, dto);
+    }
+
     /**
      * Apply coupon to cart
      * POST /api/v1/cart/coupon
@@ -3,8 +3,11 @@
 import { Module } from '@nestjs/common';
 import { CartController } from './cart.controller';
 import { CartService } from './cart.service';
+import { CouponsModule } from '../coupons/coupons.module';
+import { ShippingModule } from '../shipping/shipping.module';
 
 @Module({
+    imports: [CouponsModule, ShippingModule],
     controllers: [CartController],
     providers: [CartService],
     exports: [CartService],
@@ -0,0 +1,142 @@
+import { CartService } from './cart.service';
+import type { CouponsService } from '../coupons/coupons.service';
+import type { ShippingService } from '../shipping/shipping.service';
+import type { PrismaService } from '../../prisma';
+import { BadRequestException, CouponMinNotMetException, EmptyCartException } from '../../common/filters';
+import { MESSAGES } from '../../common/constants';
+
+interface FakeCartItem {
+  quantity: number;
+  variant: {
+    color: string;
+    size: string;
+    isActive: boolean;
+    priceModifier: number;
+    product: { name: string; basePrice: number; weightKg: number; isActive: boolean };
+  };
+}
+
+interface FakeCoupon {
+  code: string;
+  type: string;
+  value: number;
+}
+
+describe('CartService', () => {
+  let items: FakeCartItem[];
+  let coupon: FakeCoupon | null;
+  let couponsService: { assertRedeemable: jest.Mock };
+  let shippingService: { calculateWeight: jest.Mock; getRates: jest.Mock };
+  let service: CartService;
+
+  beforeEach(() => {
+    items = [
+      {
+        quantity: 2,
+        variant: {
+          color: 'Indigo',
+          size: 'M',
+          isActive: true,
+          priceModifier: 0,
+          product: { name: 'Adire Shirt', basePrice: 5000, weightKg: 0.5, isActive: true },
+        },
+      },
+    ];
+    coupon = null;
+    couponsService = { assertRedeemable: jest.fn().mockResolvedValue(undefined) };
+    shippingService = {
+      calculateWeight: jest.fn().mockReturnValue(1),
+      getRates: jest.fn().mockResolvedValue([
+        { method: 'STANDARD', description: 'Standard delivery', estimatedDays: 3, amount: 2500 },
+        { method: 'EXPRESS', description: 'Express delivery', estimatedDays: 1, amount: 4500 },
+      ]),
+    };
+
+    const prisma = {
+      cart: { findUnique: () => Promise.resolve({ id: 'cart-1', coupon, items }) },
+      address: { findFirst: () => Promise.resolve({ id: 'address-1', state: 'Lagos', city: 'Ikeja' }) },
+    };
+    service = new CartService(
+      prisma as unknown as PrismaService,
+      couponsService as unknown as CouponsService,
+      shippingService as unknown as ShippingService,
+    );
+  });
+
+  describe('quote', () => {
+    const quote = (shippingMethod: 'STANDARD' | 'EXPRESS' = 'STANDARD') =>
+      service.quote('user-1', { addressId: 'address-1', shippingMethod });
+
+    it('prices the chosen method and lists every delivery option', async () => {
+      const { data } = await quote('EXPRESS');
+
+      expect(shippingService.getRates).toHaveBeenCalledWith({
+        destinationState: 'Lagos',
+        destinationCity: 'Ikeja',
+        weightKg: 1,
+      });
+      expect(data).toMatchObject({
+        shippingMethod: 'EXPRESS',
+        estimatedDays: 1,
+        itemCount: 2,
+        subtotal: 10000,
+        shippingCost: 4500,
+        vat: 750,
+        total: 15250,
+        coupon: null,
+      });
+      expect(data.shippingOptions).toEqual([
+        expect.objectContaining({ method: 'STANDARD', shippingCost: 2500, total: 13250 }),
+        expect.objectContaining({ method: 'EXPRESS', shippingCost: 4500, total: 15250 }),
+      ]);
+    });
+
+    it('waives shipping on every option under a free shipping coupon', async () => {
+      coupon = { code: 'SHIPFREE', type: 'FREE_SHIPPING', value: 0 };
+
+      const { data } = await quote();
+
+      expect(couponsService.assertRedeemable).toHaveBeenCalledWith(coupon, 'user-1', 10000);
+      expect(data).toMatchObject({ shippingCost: 0, shippingDiscount: 2500, total: 10750 });
+      expect(data.shippingOptions.map((option) => option.shippingDiscount)).toEqual([2500, 4500]);
+      expect(data.coupon).toEqual(coupon);
+    });
+
+    it('refuses a coupon the cart no longer qualifies for', async () => {
+      coupon = { code: 'BIG20', type: 'PERCENTAGE', value: 20 };
+      couponsService.assertRedeemable.mockRejectedValue(new CouponMinNotMetException('₦20,000'));
+
+      await expect(quote()).rejects.toBeInstanceOf(CouponMinNotMetException);
+      expect(shippingService.getRates).not.toHaveBeenCalled();
+    });
+
+    it('refuses a method the courier does not offer for the address', async () => {
+      shippingService.getRates.mockResolvedValue([
+        { method: 'STANDARD', description: 'Standard delivery', estimatedDays: 5, amount: 3000 },
+      ]);
+
+      await expect(quote('EXPRESS')).rejects.toMatchObject({
+        response: { error: { message: MESSAGES.SHIPPING.METHOD_UNAVAILABLE('EXPRESS') } },
+      });
+    });
+
+    it('refuses an empty cart', async () => {
+      items = [];
+
+      await expect(quote()).rejects.toBeInstanceOf(EmptyCartException);
+    });
+
+    it.each([
+      ['variant', (item: FakeCartItem) => (item.variant.isActive = false)],
+      ['product', (item: FakeCartItem) => (item.variant.product.isActive = false)],
+    ])('refuses to price a cart holding a retired %s', async (_, retire) => {
+      retire(items[0]);
+
+      await expect(quote()).rejects.toBeInstanceOf(BadRequestException);
+      await expect(quote()).rejects.toMatchObject({
+        response: { error: { message: MESSAGES.CART.ITEM_UNAVAILABLE('Adire Shirt (Indigo / M)') } },
+      });
+      expect(shippingService.getRates).not.toHaveBeenCalled();
+    });
+  });
+});
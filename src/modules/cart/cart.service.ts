@@ -2,10 +2,13 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma';
+import { CouponsService } from '../coupons/coupons.service';
+import { ShippingService } from '../shipping/shipping.service';
 import type {
     AddCartItemDto,
     UpdateCartItemDto,
     ApplyCouponDto,
+    CartQuoteDto,
 } from './schemas';
 import type { ApiResponse } from '../../common/types';
 import { MESSAGES } from '../../common/constants';
@@ -13,8 +16,8 @@ import {
     NotFoundException,
     OutOfStockException,
     InsufficientStockException,
+    BadRequestException,
     InvalidCouponException,
-    CouponMinNotMetException,
     EmptyCartException,
 } from '../../common/filters';
 import {
@@ -22,7 +25,10 @@ import {
     updatedResponse,
     deletedResponse,
     formatNaira,
+    calculatePriceBreakdown,
+    getAvailableStock,
 } from '../../common/helpers';
+import type { PriceBreakdown } from '../../common/helpers';
 
 // Cart response types
 export interface CartItemResponse {
@@ -34,6 +40,7 @@ export interface CartItemResponse {
         color: string;
         size: string;
         stockQuantity: number;
+        reservedQuantity: number;
         priceModifier: unknown;
         product: {
             id: string;
@@ -51,6 +58,9 @@ export interface CartResponse {
     itemCount: number;
     subtotal: number;
     discount: number;
+    shippingCost: number;
+    shippingDiscount: number;
+    vat: number;
     total: number;
     coupon: {
         code: string;
@@ -59,11 +69,38 @@ export interface CartResponse {
     } | null;
 }
 
+export interface ShippingOptionQuote {
+    method: string;
+    description: string;
+    estimatedDays: number;
+    shippingCost: number;
+    shippingDiscount: number;
+    vat: number;
+    total: number;
+}
+
+export interface CartQuoteResponse extends PriceBreakdown {
+    addressId: string;
+    shippingMethod: string;
+    estimatedDays: number;
+    itemCount: number;
+    shippingOptions: ShippingOptionQuote[];
+    coupon: {
+        code: string;
+        type: string;
+        value: unknown;
+    } | null;
+}
+
 @Injectable()
 export class CartService {
     private readonly logger = new Logger(CartService.name);
 
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly couponsService: CouponsService,
+        private readonly shippingService: ShippingService,
+    ) { }
 
     /**
      * Get or create cart for user
@@ -86,31 +123,30 @@ export class CartService {
     }
 
     /**
-     * Calculate cart totals
+     * Calculate cart subtotal from current prices
      */
-    private calculateTotals(
-        items: CartItemResponse[],
-        coupon: { type: string; value: unknown; minOrderAmount: unknown | null } | null,
-    ): { subtotal: number; discount: number; total: number } {
-        const subtotal = items.reduce((sum, item) => {
+    private calculateSubtotal(
+        items: Array<{
+            quantity: number;
+            variant: { priceModifier: unknown; product: { basePrice: unknown } };
+        }>,
+    ): number {
+        return items.reduce((sum, item) => {
             const basePrice = Number(item.variant.product.basePrice);
             const priceModifier = Number(item.variant.priceModifier);
             return sum + (basePrice + priceModifier) * item.quantity;
         }, 0);
+    }
 
-        let discount = 0;
-        if (coupon) {
-            const couponValue = Number(coupon.value);
-            if (coupon.type === 'PERCENTAGE') {
-                discount = (subtotal * couponValue) / 100;
-            } else if (coupon.type === 'FIXED_AMOUNT') {
-                discount = couponValue;
-            }
-        }
-
-        const total = Math.max(0, subtotal - discount);
-
-        return { subtotal, discount, total };
+    /**
+     * Calculate cart totals with the same pricing used at checkout
+     * Delivery is priced per address by quote(), so the cart total leaves shipping out
+     */
+    private calculateTotals(
+        items: CartItemResponse[],
+        coupon: { type: string; value: unknown } | null,
+    ): PriceBreakdown {
+        return calculatePriceBreakdown(this.calculateSubtotal(items), 0, coupon);
     }
 
     /**
@@ -152,12 +188,15 @@ export class CartService {
                 itemCount: 0,
                 subtotal: 0,
                 discount: 0,
+                shippingCost: 0,
+                shippingDiscount: 0,
+                vat: 0,
                 total: 0,
                 coupon: null,
             });
         }
 
-        const { subtotal, discount, total } = this.calculateTotals(
+        const totals = this.calculateTotals(
             cart.items as unknown as CartItemResponse[],
             cart.coupon,
         );
@@ -166,9 +205,7 @@ export class CartService {
             id: cart.id,
             items: cart.items,
             itemCount: cart.items.reduce((sum, item) => sum + item.quantity, 0),
-            subtotal,
-            discount,
-            total,
+            ...totals,
             coupon: cart.coupon
                 ? { code: cart.coupon.code, type: cart.coupon.type, value: cart.coupon.value }
                 : null,
@@ -196,12 +233,14 @@ export class CartService {
             throw new NotFoundException('Product variant');
         }
 
-        if (variant.stockQuantity <= 0) {
+        const available = getAvailableStock(variant);
+
+        if (available <= 0) {
             throw new OutOfStockException();
         }
 
-        if (variant.stockQuantity < dto.quantity) {
-            throw new InsufficientStockException(variant.stockQuantity);
+        if (available < dto.quantity) {
+            throw new InsufficientStockException(available);
         }
 
         const cartId = await this.getOrCreateCart(userId);
@@ -215,8 +254,8 @@ export class CartService {
 
         if (existingItem) {
             const newQuantity = existingItem.quantity + dto.quantity;
-            if (newQuantity > variant.stockQuantity) {
-                throw new InsufficientStockException(variant.stockQuantity);
+            if (newQuantity > available) {
+                throw new InsufficientStockException(available);
             }
 
             await this.prisma.cartItem.update({
@@ -267,8 +306,9 @@ export class CartService {
             throw new NotFoundException('Cart item');
         }
 
-        if (dto.quantity > item.variant.stockQuantity) {
-            throw new InsufficientStockException(item.variant.stockQuantity);
+        const available = getAvailableStock(item.variant);
+        if (dto.quantity > available) {
+            throw new InsufficientStockException(available);
         }
 
         await this.prisma.cartItem.update({
@@ -346,6 +386,98 @@ export class CartService {
         return deletedResponse(MESSAGES.CART.CART_CLEARED);
     }
 
+    /**
+     * Quote checkout totals for an address - the same pricing checkout will charge
+     */
+    async quote(userId: string, dto: CartQuoteDto): Promise<ApiResponse<CartQuoteResponse>> {
+        const cart = await this.prisma.cart.findUnique({
+            where: { userId },
+            include: {
+                items: {
+                    include: {
+                        variant: {
+                            include: {
+                                product: {
+                                    select: { name: true, basePrice: true, weightKg: true, isActive: true },
+                                },
+                            },
+                        },
+                    },
+                },
+                coupon: true,
+            },
+        });
+
+        if (!cart || cart.items.length === 0) {
+            throw new EmptyCartException();
+        }
+
+        const address = await this.prisma.address.findFirst({
+            where: { id: dto.addressId, userId },
+        });
+
+        if (!address) {
+            throw new NotFoundException('Shipping address');
+        }
+
+        // Checkout refuses retired items, so the quote does too
+        const unavailable = cart.items.find((item) => !item.variant.isActive || !item.variant.product.isActive);
+        if (unavailable) {
+            throw new BadRequestException(
+                MESSAGES.CART.ITEM_UNAVAILABLE(
+                    `${unavailable.variant.product.name} (${unavailable.variant.color} / ${unavailable.variant.size})`,
+                ),
+            );
+        }
+
+        const subtotal = this.calculateSubtotal(cart.items);
+
+        if (cart.coupon) {
+            await this.couponsService.assertRedeemable(cart.coupon, userId, subtotal);
+        }
+
+        const rates = await this.shippingService.getRates({
+            destinationState: address.state,
+            destinationCity: address.city,
+            weightKg: this.shippingService.calculateWeight(
+                cart.items.map((item) => ({
+                    quantity: item.quantity,
+                    weightKg: item.variant.product.weightKg,
+                })),
+            ),
+        });
+
+        const shippingOptions = rates.map((rate) => {
+            const breakdown = calculatePriceBreakdown(subtotal, rate.amount, cart.coupon);
+            return {
+                method: rate.method,
+                description: rate.description,
+                estimatedDays: rate.estimatedDays,
+                shippingCost: breakdown.shippingCost,
+                shippingDiscount: breakdown.shippingDiscount,
+                vat: breakdown.vat,
+                total: breakdown.total,
+            };
+        });
+
+        const selected = rates.find((rate) => rate.method === dto.shippingMethod);
+        if (!selected) {
+            throw new BadRequestException(MESSAGES.SHIPPING.METHOD_UNAVAILABLE(dto.shippingMethod));
+        }
+
+        return successResponse({
+            addressId: address.id,
+            shippingMethod: selected.method,
+            estimatedDays: selected.estimatedDays,
+            itemCount: cart.items.reduce((sum, item) => sum + item.quantity, 0),
+            ...calculatePriceBreakdown(subtotal, selected.amount, cart.coupon),
+            shippingOptions,
+            coupon: cart.coupon
+                ? { code: cart.coupon.code, type: cart.coupon.type, value: cart.coupon.value }
+                : null,
+        });
+    }
+
     /**
      * Apply coupon to cart
      */
@@ -381,28 +513,11 @@ export class CartService {
             throw new InvalidCouponException();
         }
 
-        // Validate coupon
-        const now = new Date();
-        if (!coupon.isActive) {
-            throw new InvalidCouponException(MESSAGES.COUPON.NOT_ACTIVE);
-        }
-        if (coupon.startsAt > now || coupon.expiresAt < now) {
-            throw new InvalidCouponException(MESSAGES.COUPON.EXPIRED);
-        }
-        if (coupon.maxUses && coupon.usedCount >= coupon.maxUses) {
-            throw new InvalidCouponException(MESSAGES.CART.COUPON_MAX_USES_REACHED);
-        }
-
-        // Calculate subtotal to check minimum
-        const subtotal = cart.items.reduce((sum, item) => {
-            const basePrice = Number(item.variant.product.basePrice);
-            const priceModifier = Number(item.variant.priceModifier);
-            return sum + (basePrice + priceModifier) * item.quantity;
-        }, 0);
-
-        if (coupon.minOrderAmount && subtotal < Number(coupon.minOrderAmount)) {
-            throw new CouponMinNotMetException(formatNaira(Number(coupon.minOrderAmount)));
-        }
+        await this.couponsService.assertRedeemable(
+            coupon,
+            userId,
+            this.calculateSubtotal(cart.items),
+        );
 
         // Apply coupon to cart
         await this.prisma.cart.update({
@@ -413,7 +528,9 @@ export class CartService {
         this.logger.log(`Coupon ${dto.code} applied to cart for user ${userId}`);
 
         const result = await this.getCart(userId);
-        const discountText = formatNaira(result.data?.discount || 0);
+        const discountText = formatNaira(
+            (result.data?.discount || 0) + (result.data?.shippingDiscount || 0),
+        );
         return {
             ...result,
             message: MESSAGES.CART.COUPON_APPLIED(discountText),
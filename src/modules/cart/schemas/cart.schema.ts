@@ -1,6 +1,7 @@
 // Cart Zod Schemas
 
 import { z } from 'zod';
+import { shippingMethodSchema } from '../../shipping/schemas';
 
 /**
  * Add item to cart schema
@@ -29,3 +30,13 @@ export const applyCouponSchema = z.object({
 });
 
 export type ApplyCouponDto = z.infer<typeof applyCouponSchema>;
+
+/**
+ * Checkout quote schema
+ */
+export const cartQuoteSchema = z.object({
+    addressId: z.string().uuid('Please select a shipping address'),
+    shippingMethod: shippingMethodSchema.default('STANDARD'),
+});
+
+export type CartQuoteDto = z.infer<typeof cartQuoteSchema>;
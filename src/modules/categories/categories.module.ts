@@ -4,8 +4,10 @@ import { Module } from '@nestjs/common';
 import { CategoriesController } from './categories.controller';
 import { AdminCategoriesController } from './admin-categories.controller';
 import { CategoriesService } from './categories.service';
+import { SearchModule } from '../search/search.module';
 
 @Module({
+    imports: [SearchModule],
     controllers: [CategoriesController, AdminCategoriesController],
     providers: [CategoriesService],
     exports: [CategoriesService],
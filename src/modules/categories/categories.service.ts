@@ -2,6 +2,7 @@
 
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../prisma';
+import { ProductSearchService } from '../search/product-search.service';
 import type {
     CreateCategoryDto,
     UpdateCategoryDto,
@@ -34,7 +35,10 @@ export interface CategoryResponse {
 export class CategoriesService {
     private readonly logger = new Logger(CategoriesService.name);
 
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly productSearchService: ProductSearchService,
+    ) { }
 
     /**
      * Create a new category
@@ -181,6 +185,11 @@ export class CategoriesService {
             data: updateData,
         });
 
+        // Category names are part of the product search document
+        if (category.name !== existing.name) {
+            await this.productSearchService.reindexCategory(id);
+        }
+
         this.logger.log(`Category updated: ${category.name}`);
 
         return updatedResponse(category, 'Category updated successfully');
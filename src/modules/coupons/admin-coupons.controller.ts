@@ -0,0 +1,114 @@
+// Admin Coupons Controller
+
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Param,
+    Query,
+    Body,
+    UseGuards,
+} from '@nestjs/common';
+import { CouponsService } from './coupons.service';
+import {
+    createCouponSchema,
+    updateCouponSchema,
+    generateCouponsSchema,
+    listCouponsQuerySchema,
+    couponUsageQuerySchema,
+} from './schemas';
+import type {
+    CreateCouponDto,
+    UpdateCouponDto,
+    GenerateCouponsDto,
+    ListCouponsQueryDto,
+    CouponUsageQueryDto,
+} from './schemas';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles } from '../../common/decorators';
+import { ZodValidationPipe } from '../../common/pipes';
+import { uuidSchema } from '../../common/schemas';
+
+@Controller('admin/coupons')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN', 'SUPER_ADMIN')
+export class AdminCouponsController {
+    constructor(private readonly couponsService: CouponsService) { }
+
+    /**
+     * List coupons
+     * GET /api/v1/admin/coupons
+     */
+    @Get()
+    async findAll(
+        @Query(new ZodValidationPipe(listCouponsQuerySchema)) query: ListCouponsQueryDto,
+    ) {
+        return this.couponsService.findAll(query);
+    }
+
+    /**
+     * Create coupon
+     * POST /api/v1/admin/coupons
+     */
+    @Post()
+    async create(
+        @Body(new ZodValidationPipe(createCouponSchema)) dto: CreateCouponDto,
+    ) {
+        return this.couponsService.create(dto);
+    }
+
+    /**
+     * Generate a batch of unique coupon codes
+     * POST /api/v1/admin/coupons/generate
+     */
+    @Post('generate')
+    async generate(
+        @Body(new ZodValidationPipe(generateCouponsSchema)) dto: GenerateCouponsDto,
+    ) {
+        return this.couponsService.generate(dto);
+    }
+
+    /**
+     * Get coupon by ID
+     * GET /api/v1/admin/coupons/:id
+     */
+    @Get(':id')
+    async findById(@Param('id', new ZodValidationPipe(uuidSchema)) id: string) {
+        return this.couponsService.findById(id);
+    }
+
+    /**
+     * Get coupon usage report
+     * GET /api/v1/admin/coupons/:id/usage
+     */
+    @Get(':id/usage')
+    async getUsage(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Query(new ZodValidationPipe(couponUsageQuerySchema)) query: CouponUsageQueryDto,
+    ) {
+        return this.couponsService.getUsage(id, query);
+    }
+
+    /**
+     * Update coupon
+     * PUT /api/v1/admin/coupons/:id
+     */
+    @Put(':id')
+    async update(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Body(new ZodValidationPipe(updateCouponSchema)) dto: UpdateCouponDto,
+    ) {
+        return this.couponsService.update(id, dto);
+    }
+
+    /**
+     * Delete coupon
+     * DELETE /api/v1/admin/coupons/:id
+     */
+    @Delete(':id')
+    async delete(@Param('id', new ZodValidationPipe(uuidSchema)) id: string) {
+        return this.couponsService.delete(id);
+    }
+}
@@ -0,0 +1,12 @@
+// Coupons Module
+
+import { Module } from '@nestjs/common';
+import { AdminCouponsController } from './admin-coupons.controller';
+import { CouponsService } from './coupons.service';
+
+@Module({
+    controllers: [AdminCouponsController],
+    providers: [CouponsService],
+    exports: [CouponsService],
+})
+export class CouponsModule { }
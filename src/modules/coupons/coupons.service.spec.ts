@@ -0,0 +1,140 @@
+import { CouponsService } from './coupons.service';
+import type { PrismaService } from '../../prisma';
+import { BadRequestException } from '../../common/filters';
+import { generateCouponCode } from '../../common/helpers';
+
+jest.mock('../../common/helpers', () => ({
+  ...jest.requireActual<object>('../../common/helpers'),
+  generateCouponCode: jest.fn(),
+}));
+
+describe('CouponsService', () => {
+  const coupon = {
+    id: 'coupon-1',
+    code: 'RAINY10',
+    type: 'PERCENTAGE',
+    value: 10,
+    startsAt: new Date('2026-11-01T00:00:00Z'),
+    expiresAt: new Date('2026-12-01T00:00:00Z'),
+    maxUses: 100,
+    maxUsesPerUser: 1,
+  };
+  let existingCodes: Set<string>;
+  let prisma: {
+    coupon: {
+      findUnique: jest.Mock;
+      findMany: jest.Mock;
+      update: jest.Mock;
+      createMany: jest.Mock;
+    };
+  };
+  let service: CouponsService;
+
+  beforeEach(() => {
+    existingCodes = new Set();
+    prisma = {
+      coupon: {
+        findUnique: jest.fn().mockResolvedValue(coupon),
+        findMany: jest.fn(({ where }: { where: { code: { in: string[] } } }) =>
+          Promise.resolve(where.code.in.filter((code) => existingCodes.has(code)).map((code) => ({ code }))),
+        ),
+        update: jest.fn(({ data }: { data: object }) => Promise.resolve({ ...coupon, ...data })),
+        createMany: jest.fn(({ data }: { data: unknown[] }) => Promise.resolve({ count: data.length })),
+      },
+    };
+    service = new CouponsService(prisma as unknown as PrismaService);
+  });
+
+  describe('update', () => {
+    it.each([
+      ['an expiry before the existing start', {}, { expiresAt: new Date('2026-10-01T00:00:00Z') }],
+      ['a percentage above 100', {}, { value: 150 }],
+      [
+        'switching a large fixed amount to a percentage',
+        { type: 'FIXED_AMOUNT', value: 2500 },
+        { type: 'PERCENTAGE' as const },
+      ],
+      ['fewer total uses than the per-user limit', { maxUsesPerUser: 3 }, { maxUses: 1 }],
+    ])('rejects %s', async (_, stored, dto) => {
+      prisma.coupon.findUnique.mockResolvedValue({ ...coupon, ...stored });
+
+      await expect(service.update('coupon-1', dto)).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.coupon.update).not.toHaveBeenCalled();
+    });
+
+    it('reports the broken rule', async () => {
+      await expect(
+        service.update('coupon-1', {
+          expiresAt: new Date('2026-10-01T00:00:00Z'),
+        }),
+      ).rejects.toMatchObject({
+        response: {
+          error: { message: 'Expiry date must be after the start date' },
+        },
+      });
+    });
+
+    it('saves a change that still fits the rest of the coupon', async () => {
+      const { data } = await service.update('coupon-1', {
+        expiresAt: new Date('2027-01-01T00:00:00Z'),
+      });
+
+      expect(prisma.coupon.update).toHaveBeenCalledWith({
+        where: { id: 'coupon-1' },
+        data: { expiresAt: new Date('2027-01-01T00:00:00Z') },
+      });
+      expect(data.code).toBe('RAINY10');
+    });
+  });
+
+  describe('generate', () => {
+    const generate = (count: number) =>
+      service.generate({
+        prefix: 'EID',
+        count,
+        codeLength: 8,
+        type: 'FIXED_AMOUNT',
+        value: 1000,
+        isActive: true,
+        startsAt: coupon.startsAt,
+        expiresAt: coupon.expiresAt,
+      });
+
+    const generateInOrder = (...codes: string[]) => {
+      codes.forEach((code) => jest.mocked(generateCouponCode).mockReturnValueOnce(code));
+    };
+
+    beforeEach(() => {
+      jest.mocked(generateCouponCode).mockReset();
+    });
+
+    it('replaces codes that collide with existing coupons until the batch is full', async () => {
+      existingCodes.add('EID-BBBB').add('EID-DDDD');
+      generateInOrder('EID-AAAA', 'EID-BBBB', 'EID-CCCC', 'EID-DDDD', 'EID-EEEE');
+
+      const { data } = await generate(3);
+
+      expect(data).toEqual({
+        count: 3,
+        codes: ['EID-AAAA', 'EID-CCCC', 'EID-EEEE'],
+      });
+      expect(prisma.coupon.findMany).toHaveBeenCalledTimes(3);
+      expect(prisma.coupon.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ code: 'EID-AAAA', value: 1000 }),
+          expect.objectContaining({ code: 'EID-CCCC', value: 1000 }),
+          expect.objectContaining({ code: 'EID-EEEE', value: 1000 }),
+        ],
+      });
+    });
+
+    it('skips repeats within the batch and its replacements', async () => {
+      existingCodes.add('EID-BBBB');
+      generateInOrder('EID-AAAA', 'EID-AAAA', 'EID-BBBB', 'EID-AAAA', 'EID-CCCC');
+
+      const { data } = await generate(2);
+
+      expect(data.codes).toEqual(['EID-AAAA', 'EID-CCCC']);
+    });
+  });
+});
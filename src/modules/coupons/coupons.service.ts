@@ -0,0 +1,401 @@
+// Coupons Service
+
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma';
+import { updateCouponSchema } from './schemas';
+import type {
+    CreateCouponDto,
+    UpdateCouponDto,
+    GenerateCouponsDto,
+    ListCouponsQueryDto,
+    CouponUsageQueryDto,
+} from './schemas';
+import type { ApiResponse, PaginatedResult } from '../../common/types';
+import { MESSAGES } from '../../common/constants';
+import {
+    BadRequestException,
+    CouponNotFoundException,
+    CouponCodeExistsException,
+    InvalidCouponException,
+    CouponMinNotMetException,
+} from '../../common/filters';
+import {
+    successResponse,
+    createdResponse,
+    updatedResponse,
+    deletedResponse,
+    createPaginatedResult,
+    calculatePagination,
+    generateCouponCode,
+    formatNaira,
+} from '../../common/helpers';
+
+// Coupon response types
+export interface CouponResponse {
+    id: string;
+    code: string;
+    type: string;
+    value: unknown;
+    minOrderAmount: unknown;
+    maxUses: number | null;
+    maxUsesPerUser: number | null;
+    usedCount: number;
+    isActive: boolean;
+    startsAt: Date;
+    expiresAt: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface RedeemableCoupon {
+    id: string;
+    isActive: boolean;
+    startsAt: Date;
+    expiresAt: Date;
+    maxUses: number | null;
+    maxUsesPerUser: number | null;
+    usedCount: number;
+    minOrderAmount: unknown;
+}
+
+export interface GeneratedCouponsResult {
+    count: number;
+    codes: string[];
+}
+
+export interface CouponUsageOrder {
+    id: string;
+    orderNumber: string;
+    status: string;
+    subtotal: unknown;
+    discount: unknown;
+    total: unknown;
+    createdAt: Date;
+    user: {
+        id: string;
+        email: string;
+        firstName: string;
+        lastName: string;
+    };
+}
+
+export interface CouponUsageReport {
+    coupon: CouponResponse;
+    summary: {
+        orderCount: number;
+        uniqueCustomers: number;
+        totalDiscount: unknown;
+        totalRevenue: unknown;
+    };
+    orders: PaginatedResult<CouponUsageOrder>;
+}
+
+@Injectable()
+export class CouponsService {
+    private readonly logger = new Logger(CouponsService.name);
+
+    constructor(private readonly prisma: PrismaService) { }
+
+    /**
+     * Ensure a coupon can be redeemed by a user for a given subtotal
+     * Used by both the cart and checkout so the rules never drift apart
+     */
+    async assertRedeemable(
+        coupon: RedeemableCoupon,
+        userId: string,
+        subtotal: number,
+    ): Promise<void> {
+        const now = new Date();
+        if (!coupon.isActive) {
+            throw new InvalidCouponException(MESSAGES.COUPON.NOT_ACTIVE);
+        }
+        if (coupon.startsAt > now || coupon.expiresAt < now) {
+            throw new InvalidCouponException(MESSAGES.COUPON.EXPIRED);
+        }
+        if (coupon.maxUses && coupon.usedCount >= coupon.maxUses) {
+            throw new InvalidCouponException(MESSAGES.CART.COUPON_MAX_USES_REACHED);
+        }
+
+        if (coupon.maxUsesPerUser) {
+            const userRedemptions = await this.prisma.order.count({
+                where: {
+                    userId,
+                    couponId: coupon.id,
+                    status: { not: 'CANCELLED' },
+                },
+            });
+
+            if (userRedemptions >= coupon.maxUsesPerUser) {
+                throw new InvalidCouponException(MESSAGES.CART.COUPON_ALREADY_USED);
+            }
+        }
+
+        if (coupon.minOrderAmount && subtotal < Number(coupon.minOrderAmount)) {
+            throw new CouponMinNotMetException(formatNaira(Number(coupon.minOrderAmount)));
+        }
+    }
+
+    /**
+     * List coupons (admin)
+     */
+    async findAll(
+        query: ListCouponsQueryDto,
+    ): Promise<ApiResponse<PaginatedResult<CouponResponse>>> {
+        const { page, limit, search, type, isActive } = query;
+        const { skip, take } = calculatePagination(page, limit);
+
+        const where = {
+            ...(search && { code: { contains: search, mode: 'insensitive' as const } }),
+            ...(type && { type }),
+            ...(isActive !== undefined && { isActive }),
+        };
+
+        const [coupons, total] = await Promise.all([
+            this.prisma.coupon.findMany({
+                where,
+                skip,
+                take,
+                orderBy: { createdAt: 'desc' },
+            }),
+            this.prisma.coupon.count({ where }),
+        ]);
+
+        const result = createPaginatedResult(coupons, total, page, limit);
+        return successResponse(result);
+    }
+
+    /**
+     * Get coupon by ID (admin)
+     */
+    async findById(id: string): Promise<ApiResponse<CouponResponse>> {
+        const coupon = await this.prisma.coupon.findUnique({
+            where: { id },
+        });
+
+        if (!coupon) {
+            throw new CouponNotFoundException();
+        }
+
+        return successResponse(coupon);
+    }
+
+    /**
+     * Create coupon (admin)
+     */
+    async create(dto: CreateCouponDto): Promise<ApiResponse<CouponResponse>> {
+        const existing = await this.prisma.coupon.findUnique({
+            where: { code: dto.code },
+        });
+
+        if (existing) {
+            throw new CouponCodeExistsException();
+        }
+
+        const coupon = await this.prisma.coupon.create({
+            data: dto,
+        });
+
+        this.logger.log(`Coupon created: ${coupon.code}`);
+
+        return createdResponse(coupon, MESSAGES.COUPON.CREATED);
+    }
+
+    /**
+     * Update coupon (admin)
+     */
+    async update(id: string, dto: UpdateCouponDto): Promise<ApiResponse<CouponResponse>> {
+        const coupon = await this.prisma.coupon.findUnique({
+            where: { id },
+        });
+
+        if (!coupon) {
+            throw new CouponNotFoundException();
+        }
+
+        if (dto.code && dto.code !== coupon.code) {
+            const existing = await this.prisma.coupon.findUnique({
+                where: { code: dto.code },
+            });
+
+            if (existing) {
+                throw new CouponCodeExistsException();
+            }
+        }
+
+        // Re-check the cross-field rules against the merged coupon
+        const merged = updateCouponSchema.safeParse({
+            type: dto.type ?? coupon.type,
+            value: dto.value ?? Number(coupon.value),
+            startsAt: dto.startsAt ?? coupon.startsAt,
+            expiresAt: dto.expiresAt ?? coupon.expiresAt,
+            maxUses: dto.maxUses !== undefined ? dto.maxUses : coupon.maxUses,
+            maxUsesPerUser:
+                dto.maxUsesPerUser !== undefined ? dto.maxUsesPerUser : coupon.maxUsesPerUser,
+        });
+
+        if (!merged.success) {
+            throw new BadRequestException(merged.error.issues[0].message);
+        }
+
+        const updated = await this.prisma.coupon.update({
+            where: { id },
+            data: dto,
+        });
+
+        this.logger.log(`Coupon updated: ${updated.code}`);
+
+        return updatedResponse(updated, MESSAGES.COUPON.UPDATED);
+    }
+
+    /**
+     * Delete coupon (admin) - only coupons that were never redeemed
+     */
+    async delete(id: string): Promise<ApiResponse<null>> {
+        const coupon = await this.prisma.coupon.findUnique({
+            where: { id },
+            include: { _count: { select: { orders: true } } },
+        });
+
+        if (!coupon) {
+            throw new CouponNotFoundException();
+        }
+
+        if (coupon._count.orders > 0) {
+            throw new BadRequestException(MESSAGES.COUPON.HAS_ORDERS);
+        }
+
+        await this.prisma.$transaction([
+            this.prisma.cart.updateMany({
+                where: { couponId: id },
+                data: { couponId: null },
+            }),
+            this.prisma.coupon.delete({
+                where: { id },
+            }),
+        ]);
+
+        this.logger.log(`Coupon deleted: ${coupon.code}`);
+
+        return deletedResponse(MESSAGES.COUPON.DELETED);
+    }
+
+    /**
+     * Generate a batch of unique coupon codes sharing the same rules (admin)
+     */
+    async generate(dto: GenerateCouponsDto): Promise<ApiResponse<GeneratedCouponsResult>> {
+        const { prefix, count, codeLength, ...fields } = dto;
+
+        const codes = new Set<string>();
+        while (codes.size < count) {
+            codes.add(generateCouponCode(prefix, codeLength));
+        }
+
+        // Drop any code that collides with an existing coupon and top up
+        let existing = await this.findExistingCodes([...codes]);
+        while (existing.length > 0) {
+            existing.forEach((code) => codes.delete(code));
+
+            const replacements: string[] = [];
+            while (codes.size + replacements.length < count) {
+                const code = generateCouponCode(prefix, codeLength);
+                if (!codes.has(code) && !replacements.includes(code)) {
+                    replacements.push(code);
+                }
+            }
+
+            existing = await this.findExistingCodes(replacements);
+            replacements.forEach((code) => codes.add(code));
+        }
+
+        const generated = [...codes];
+
+        await this.prisma.coupon.createMany({
+            data: generated.map((code) => ({ ...fields, code })),
+        });
+
+        this.logger.log(`${generated.length} coupon code(s) generated with prefix "${prefix}"`);
+
+        return createdResponse(
+            { count: generated.length, codes: generated },
+            MESSAGES.COUPON.GENERATED(generated.length),
+        );
+    }
+
+    /**
+     * Usage report for a coupon: totals and the orders that redeemed it (admin)
+     */
+    async getUsage(
+        id: string,
+        query: CouponUsageQueryDto,
+    ): Promise<ApiResponse<CouponUsageReport>> {
+        const { page, limit } = query;
+        const { skip, take } = calculatePagination(page, limit);
+
+        const coupon = await this.prisma.coupon.findUnique({
+            where: { id },
+        });
+
+        if (!coupon) {
+            throw new CouponNotFoundException();
+        }
+
+        const where = { couponId: id };
+
+        const [orders, total, totals, customers] = await Promise.all([
+            this.prisma.order.findMany({
+                where,
+                skip,
+                take,
+                select: {
+                    id: true,
+                    orderNumber: true,
+                    status: true,
+                    subtotal: true,
+                    discount: true,
+                    total: true,
+                    createdAt: true,
+                    user: {
+                        select: { id: true, email: true, firstName: true, lastName: true },
+                    },
+                },
+                orderBy: { createdAt: 'desc' },
+            }),
+            this.prisma.order.count({ where }),
+            this.prisma.order.aggregate({
+                where: { ...where, status: { notIn: ['CANCELLED', 'REFUNDED'] } },
+                _sum: { discount: true, total: true },
+            }),
+            this.prisma.order.groupBy({
+                by: ['userId'],
+                where,
+            }),
+        ]);
+
+        return successResponse({
+            coupon,
+            summary: {
+                orderCount: total,
+                uniqueCustomers: customers.length,
+                totalDiscount: totals._sum.discount ?? 0,
+                totalRevenue: totals._sum.total ?? 0,
+            },
+            orders: createPaginatedResult(orders, total, page, limit),
+        });
+    }
+
+    /**
+     * Find which of the given codes are already taken
+     */
+    private async findExistingCodes(codes: string[]): Promise<string[]> {
+        if (codes.length === 0) {
+            return [];
+        }
+
+        const coupons = await this.prisma.coupon.findMany({
+            where: { code: { in: codes } },
+            select: { code: true },
+        });
+
+        return coupons.map((coupon) => coupon.code);
+    }
+}
@@ -0,0 +1,4 @@
+export * from './coupons.module';
+export * from './coupons.service';
+export * from './admin-coupons.controller';
+export * from './schemas';
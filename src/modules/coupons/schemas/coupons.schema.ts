@@ -0,0 +1,159 @@
+// Coupons Zod Schemas
+
+import { z } from 'zod';
+import { APP_CONSTANTS } from '../../../common/constants';
+
+export const couponTypeSchema = z.enum(['PERCENTAGE', 'FIXED_AMOUNT', 'FREE_SHIPPING']);
+
+const couponCodeSchema = z
+    .string()
+    .trim()
+    .toUpperCase()
+    .min(3, 'Coupon code must be at least 3 characters')
+    .max(32, 'Coupon code cannot exceed 32 characters')
+    .regex(/^[A-Z0-9-]+$/, 'Coupon code can only contain letters, numbers and hyphens');
+
+/**
+ * Coupon fields shared by create, update and bulk generation (no defaults)
+ */
+const couponFieldsSchema = z.object({
+    type: couponTypeSchema,
+    value: z
+        .number()
+        .min(0, 'Value cannot be negative')
+        .multipleOf(0.01, 'Value must have at most 2 decimal places'),
+    minOrderAmount: z
+        .number()
+        .positive('Minimum order amount must be positive')
+        .multipleOf(0.01)
+        .optional()
+        .nullable(),
+    maxUses: z.number().int().min(1, 'Max uses must be at least 1').optional().nullable(),
+    maxUsesPerUser: z
+        .number()
+        .int()
+        .min(1, 'Max uses per user must be at least 1')
+        .optional()
+        .nullable(),
+    isActive: z.boolean(),
+    startsAt: z.coerce.date({ message: 'Please provide a valid start date' }),
+    expiresAt: z.coerce.date({ message: 'Please provide a valid expiry date' }),
+});
+
+type CouponRuleFields = Partial<z.infer<typeof couponFieldsSchema>>;
+
+/**
+ * Cross-field coupon rules: value ranges per type, date window and usage limits
+ */
+export function validateCouponRules(data: CouponRuleFields, ctx: z.RefinementCtx): void {
+    if (data.type === 'PERCENTAGE' && data.value !== undefined) {
+        if (data.value <= 0 || data.value > 100) {
+            ctx.addIssue({
+                code: 'custom',
+                path: ['value'],
+                message: 'Percentage discount must be between 0 and 100',
+            });
+        }
+    }
+
+    if (data.type === 'FIXED_AMOUNT' && data.value !== undefined && data.value <= 0) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['value'],
+            message: 'Fixed discount amount must be positive',
+        });
+    }
+
+    if (data.startsAt && data.expiresAt && data.startsAt >= data.expiresAt) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['expiresAt'],
+            message: 'Expiry date must be after the start date',
+        });
+    }
+
+    if (data.maxUses && data.maxUsesPerUser && data.maxUsesPerUser > data.maxUses) {
+        ctx.addIssue({
+            code: 'custom',
+            path: ['maxUsesPerUser'],
+            message: 'Max uses per user cannot exceed max uses',
+        });
+    }
+}
+
+/**
+ * Create coupon schema - matching Prisma Coupon model
+ */
+export const createCouponSchema = couponFieldsSchema
+    .extend({
+        code: couponCodeSchema,
+        value: couponFieldsSchema.shape.value.default(0),
+        isActive: z.boolean().default(true),
+    })
+    .superRefine(validateCouponRules);
+
+export type CreateCouponDto = z.infer<typeof createCouponSchema>;
+
+/**
+ * Update coupon schema
+ */
+export const updateCouponSchema = couponFieldsSchema
+    .extend({ code: couponCodeSchema })
+    .partial()
+    .superRefine(validateCouponRules);
+
+export type UpdateCouponDto = z.infer<typeof updateCouponSchema>;
+
+/**
+ * Bulk generate coupons schema
+ */
+export const generateCouponsSchema = couponFieldsSchema
+    .extend({
+        prefix: z
+            .string()
+            .trim()
+            .toUpperCase()
+            .max(12, 'Prefix cannot exceed 12 characters')
+            .regex(/^[A-Z0-9]*$/, 'Prefix can only contain letters and numbers')
+            .default(''),
+        count: z
+            .number()
+            .int()
+            .min(1, 'Generate at least 1 code')
+            .max(
+                APP_CONSTANTS.MAX_COUPON_BATCH,
+                `You can generate at most ${APP_CONSTANTS.MAX_COUPON_BATCH} codes at a time`,
+            ),
+        codeLength: z.number().int().min(6).max(16).default(8),
+        value: couponFieldsSchema.shape.value.default(0),
+        isActive: z.boolean().default(true),
+    })
+    .superRefine(validateCouponRules);
+
+export type GenerateCouponsDto = z.infer<typeof generateCouponsSchema>;
+
+/**
+ * List coupons query schema
+ */
+export const listCouponsQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    search: z.string().optional(),
+    type: couponTypeSchema.optional(),
+    isActive: z
+        .enum(['true', 'false'])
+        .transform((value) => value === 'true')
+        .optional(),
+});
+
+export type ListCouponsQueryDto = z.infer<typeof listCouponsQuerySchema>;
+
+/**
+ * Coupon usage report query schema
+ */
+export const couponUsageQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type CouponUsageQueryDto = z.infer<typeof couponUsageQuerySchema>;
@@ -0,0 +1,101 @@
+// Admin Inventory Controller
+
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Query,
+    HttpCode,
+    HttpStatus,
+    UploadedFile,
+    UseGuards,
+    UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { InventoryService } from './inventory.service';
+import {
+    listStockMovementsQuerySchema,
+    stockReportQuerySchema,
+    bulkStockAdjustmentSchema,
+    bulkStockCsvQuerySchema,
+} from './schemas';
+import type {
+    ListStockMovementsQueryDto,
+    StockReportQueryDto,
+    BulkStockAdjustmentDto,
+    BulkStockCsvQueryDto,
+} from './schemas';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles, CurrentUser } from '../../common/decorators';
+import type { RequestUser } from '../../common/types';
+import { ZodValidationPipe } from '../../common/pipes';
+import { APP_CONSTANTS } from '../../common/constants';
+
+@Controller('admin/inventory')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN', 'SUPER_ADMIN')
+export class AdminInventoryController {
+    constructor(private readonly inventoryService: InventoryService) { }
+
+    /**
+     * Variants at or below their low-stock threshold
+     * GET /api/v1/admin/inventory/low-stock
+     */
+    @Get('low-stock')
+    async findLowStock(
+        @Query(new ZodValidationPipe(stockReportQuerySchema)) query: StockReportQueryDto,
+    ) {
+        return this.inventoryService.findLowStock(query);
+    }
+
+    /**
+     * Variants with no available stock
+     * GET /api/v1/admin/inventory/out-of-stock
+     */
+    @Get('out-of-stock')
+    async findOutOfStock(
+        @Query(new ZodValidationPipe(stockReportQuerySchema)) query: StockReportQueryDto,
+    ) {
+        return this.inventoryService.findOutOfStock(query);
+    }
+
+    /**
+     * Stock movement history
+     * GET /api/v1/admin/inventory/movements
+     */
+    @Get('movements')
+    async findMovements(
+        @Query(new ZodValidationPipe(listStockMovementsQuerySchema)) query: ListStockMovementsQueryDto,
+    ) {
+        return this.inventoryService.findMovements(query);
+    }
+
+    /**
+     * Adjust stock for many SKUs in one transaction (supports dry run)
+     * POST /api/v1/admin/inventory/bulk
+     */
+    @Post('bulk')
+    @HttpCode(HttpStatus.OK)
+    async bulkAdjust(
+        @CurrentUser() user: RequestUser,
+        @Body(new ZodValidationPipe(bulkStockAdjustmentSchema)) dto: BulkStockAdjustmentDto,
+    ) {
+        return this.inventoryService.bulkAdjust(dto, user.id);
+    }
+
+    /**
+     * Adjust stock from a CSV upload (multipart field "file")
+     * POST /api/v1/admin/inventory/bulk/csv?dryRun=true
+     */
+    @Post('bulk/csv')
+    @HttpCode(HttpStatus.OK)
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: APP_CONSTANTS.MAX_CSV_SIZE } }))
+    async bulkAdjustCsv(
+        @CurrentUser() user: RequestUser,
+        @UploadedFile() file: Express.Multer.File | undefined,
+        @Query(new ZodValidationPipe(bulkStockCsvQuerySchema)) query: BulkStockCsvQueryDto,
+    ) {
+        return this.inventoryService.bulkAdjustCsv(file?.buffer, query, user.id);
+    }
+}
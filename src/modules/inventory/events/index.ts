@@ -0,0 +1 @@
+export * from './low-stock.event';
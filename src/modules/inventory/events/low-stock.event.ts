@@ -0,0 +1,16 @@
+// Low stock event - emitted when a checkout takes a variant to or below its threshold
+
+export const INVENTORY_EVENTS = {
+    LOW_STOCK: 'inventory.low-stock',
+} as const;
+
+export interface LowStockEvent {
+    variantId: string;
+    sku: string;
+    productName: string;
+    color: string;
+    size: string;
+    availableQuantity: number;
+    lowStockThreshold: number;
+    orderId: string;
+}
@@ -0,0 +1,8 @@
+export * from './inventory.module';
+export * from './inventory.service';
+export * from './reservation-sweeper.service';
+export * from './low-stock.listener';
+export * from './admin-inventory.controller';
+export * from './schemas';
+export * from './events';
+export * from './providers';
@@ -0,0 +1,28 @@
+// Inventory Module
+
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminInventoryController } from './admin-inventory.controller';
+import { InventoryService } from './inventory.service';
+import { ReservationSweeperService } from './reservation-sweeper.service';
+import { LowStockListener } from './low-stock.listener';
+import { STOCK_NOTIFIER, EmailStockNotifier, LogStockNotifier } from './providers';
+
+@Module({
+    controllers: [AdminInventoryController],
+    providers: [
+        InventoryService,
+        ReservationSweeperService,
+        LowStockListener,
+        {
+            provide: STOCK_NOTIFIER,
+            inject: [ConfigService],
+            useFactory: (configService: ConfigService) =>
+                configService.get<string>('inventory.notifier') === 'email'
+                    ? new EmailStockNotifier(configService)
+                    : new LogStockNotifier(),
+        },
+    ],
+    exports: [InventoryService],
+})
+export class InventoryModule { }
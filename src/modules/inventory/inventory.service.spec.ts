@@ -0,0 +1,307 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { InventoryService } from './inventory.service';
+import type { PrismaService, PrismaTransactionClient } from '../../prisma';
+import { BulkStockValidationException, InsufficientStockException } from '../../common/filters';
+import { MESSAGES } from '../../common/constants';
+
+interface FakeVariant {
+  id: string;
+  sku: string;
+  color: string;
+  size: string;
+  stockQuantity: number;
+  reservedQuantity: number;
+  lowStockThreshold: number;
+  product: { name: string };
+}
+
+/**
+ * In-memory stand-in for the variant table that records the SQL it is sent
+ * It mimics the guarded UPDATE's outcome only; Postgres row locking is not exercised here,
+ * so the tests assert the guard is part of the statement itself
+ */
+function createFakeTx(variant: FakeVariant, statements: string[]) {
+  return {
+    $queryRaw: (sql: TemplateStringsArray, ...values: unknown[]) => {
+      statements.push(sql.join('?').replace(/\s+/g, ' ').trim());
+
+      const [quantity, variantId] = values as [number, string];
+      const available = variant.stockQuantity - variant.reservedQuantity;
+      if (variantId !== variant.id || available < quantity) {
+        return Promise.resolve([]);
+      }
+
+      if (sql.join('?').includes('SET reserved_quantity')) {
+        variant.reservedQuantity += quantity;
+      } else {
+        variant.stockQuantity -= quantity;
+      }
+      return Promise.resolve([
+        {
+          available: variant.stockQuantity - variant.reservedQuantity,
+          threshold: variant.lowStockThreshold,
+        },
+      ]);
+    },
+    productVariant: {
+      findUniqueOrThrow: () => Promise.resolve({ ...variant }),
+    },
+    inventoryReservation: {
+      createMany: () => Promise.resolve({ count: 1 }),
+    },
+    stockMovement: {
+      createMany: () => Promise.resolve({ count: 1 }),
+    },
+  } as unknown as PrismaTransactionClient;
+}
+
+describe('InventoryService', () => {
+  let service: InventoryService;
+  let variant: FakeVariant;
+  let tx: PrismaTransactionClient;
+  let statements: string[];
+
+  beforeEach(() => {
+    service = new InventoryService({} as PrismaService, new EventEmitter2());
+    variant = {
+      id: 'variant-1',
+      sku: 'VT-ADIRE-M',
+      color: 'Indigo',
+      size: 'M',
+      stockQuantity: 5,
+      reservedQuantity: 0,
+      lowStockThreshold: 2,
+      product: { name: 'Adire Shirt' },
+    };
+    statements = [];
+    tx = createFakeTx(variant, statements);
+  });
+
+  it('checks availability in the same statement that reserves', async () => {
+    await service.reserve(tx, 'order-1', [{ variantId: variant.id, quantity: 2 }], new Date());
+
+    expect(statements).toEqual([
+      'UPDATE product_variants SET reserved_quantity = reserved_quantity + ? ' +
+        'WHERE id = ? AND stock_quantity - reserved_quantity >= ? ' +
+        'RETURNING stock_quantity - reserved_quantity AS available, low_stock_threshold AS threshold',
+    ]);
+    expect(variant.reservedQuantity).toBe(2);
+  });
+
+  it('stops reserving once the stock is held', async () => {
+    const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+
+    for (let index = 0; index < 5; index++) {
+      await service.reserve(tx, `order-${index}`, [{ variantId: variant.id, quantity: 1 }], expiresAt);
+    }
+
+    await expect(
+      service.reserve(tx, 'order-5', [{ variantId: variant.id, quantity: 1 }], expiresAt),
+    ).rejects.toBeInstanceOf(InsufficientStockException);
+    expect(variant.reservedQuantity).toBe(5);
+    expect(variant.stockQuantity).toBe(5);
+  });
+
+  it('reports a low-stock crossing only for the order that crossed the threshold', async () => {
+    const expiresAt = new Date();
+
+    const first = await service.reserve(tx, 'order-1', [{ variantId: variant.id, quantity: 2 }], expiresAt);
+    const crossing = await service.reserve(tx, 'order-2', [{ variantId: variant.id, quantity: 2 }], expiresAt);
+    const after = await service.reserve(tx, 'order-3', [{ variantId: variant.id, quantity: 1 }], expiresAt);
+
+    expect(first).toEqual([]);
+    expect(crossing).toEqual([{ variantId: variant.id, availableQuantity: 1, lowStockThreshold: 2 }]);
+    expect(after).toEqual([]);
+  });
+
+  it('names the variant that ran out', async () => {
+    variant.stockQuantity = 1;
+
+    const error = await service
+      .reserve(tx, 'order-1', [{ variantId: variant.id, quantity: 2 }], new Date())
+      .catch((caught: InsufficientStockException) => caught);
+
+    expect(error).toBeInstanceOf(InsufficientStockException);
+    const { error: body } = (error as InsufficientStockException).getResponse() as {
+      error: { code: string; message: string };
+    };
+    expect(body.code).toBe('INSUFFICIENT_STOCK');
+    expect(body.message).toContain('Only 1 of Adire Shirt (Indigo / M) available');
+  });
+
+  it('does not sell stock held by reservations', async () => {
+    variant.reservedQuantity = 4;
+
+    await service.sell(tx, 'order-1', [{ variantId: variant.id, quantity: 1 }]);
+    expect(variant.stockQuantity).toBe(4);
+    expect(statements[0]).toContain('AND stock_quantity - reserved_quantity >= ?');
+
+    await expect(
+      service.sell(tx, 'order-2', [{ variantId: variant.id, quantity: 1 }]),
+    ).rejects.toBeInstanceOf(InsufficientStockException);
+    expect(variant.stockQuantity).toBe(4);
+  });
+
+  describe('expireOrder', () => {
+    let order: { status: string; couponId: string | null };
+    let prisma: {
+      $transaction: (callback: (tx: unknown) => Promise<unknown>) => Promise<unknown>;
+      order: { updateMany: jest.Mock; findUniqueOrThrow: jest.Mock };
+      inventoryReservation: { findMany: jest.Mock; updateMany: jest.Mock };
+      productVariant: { update: jest.Mock };
+      coupon: { update: jest.Mock };
+    };
+
+    beforeEach(() => {
+      order = { status: 'PENDING', couponId: 'coupon-1' };
+      prisma = {
+        $transaction: (callback) => callback(prisma),
+        order: {
+          updateMany: jest.fn(({ where, data }: { where: { status: string }; data: { status: string } }) => {
+            if (order.status !== where.status) return Promise.resolve({ count: 0 });
+            order.status = data.status;
+            return Promise.resolve({ count: 1 });
+          }),
+          findUniqueOrThrow: jest.fn(() => Promise.resolve({ orderNumber: 'VT-1', ...order })),
+        },
+        inventoryReservation: {
+          findMany: jest.fn().mockResolvedValue([{ variantId: variant.id, quantity: 2 }]),
+          updateMany: jest.fn(),
+        },
+        productVariant: { update: jest.fn() },
+        coupon: { update: jest.fn() },
+      };
+      service = new InventoryService(prisma as unknown as PrismaService, new EventEmitter2());
+    });
+
+    it('releases the stock of an unpaid order as expired, not released', async () => {
+      await expect(service.expireOrder('order-1')).resolves.toBe(true);
+
+      expect(order.status).toBe('CANCELLED');
+      expect(prisma.productVariant.update).toHaveBeenCalledWith({
+        where: { id: variant.id },
+        data: { reservedQuantity: { decrement: 2 } },
+      });
+      // Marked EXPIRED so a payment arriving late can still reclaim the units
+      expect(prisma.inventoryReservation.updateMany).toHaveBeenCalledWith({
+        where: { orderId: 'order-1', status: 'ACTIVE' },
+        data: { status: 'EXPIRED' },
+      });
+      expect(prisma.coupon.update).toHaveBeenCalledWith({
+        where: { id: 'coupon-1' },
+        data: { usedCount: { decrement: 1 } },
+      });
+    });
+
+    it('leaves an order alone once its payment confirmed it', async () => {
+      order.status = 'CONFIRMED';
+
+      await expect(service.expireOrder('order-1')).resolves.toBe(false);
+
+      expect(order.status).toBe('CONFIRMED');
+      expect(prisma.productVariant.update).not.toHaveBeenCalled();
+      expect(prisma.coupon.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bulkAdjust', () => {
+    let stock: Array<{ id: string; sku: string; stockQuantity: number; reservedQuantity: number }>;
+    let prisma: {
+      $transaction: (callback: (tx: unknown) => Promise<unknown>) => Promise<unknown>;
+      $queryRaw: jest.Mock;
+      productVariant: { findMany: jest.Mock; update: jest.Mock };
+      stockMovement: { createMany: jest.Mock };
+    };
+
+    const adjust = (items: Array<{ sku: string; stockQuantity?: number; delta?: number }>, dryRun = false) =>
+      service.bulkAdjust({ items, dryRun }, 'admin-1');
+
+    beforeEach(() => {
+      stock = [
+        { id: 'variant-1', sku: 'VT-ADIRE-M', stockQuantity: 5, reservedQuantity: 2 },
+        { id: 'variant-2', sku: 'VT-ADIRE-L', stockQuantity: 3, reservedQuantity: 0 },
+        { id: 'variant-3', sku: 'VT-ADIRE-XL', stockQuantity: 4, reservedQuantity: 0 },
+      ];
+      prisma = {
+        $transaction: (callback) => callback(prisma),
+        $queryRaw: jest.fn().mockResolvedValue([]),
+        productVariant: {
+          findMany: jest.fn(({ where }: { where: { sku: { in: string[] } } }) =>
+            Promise.resolve(stock.filter((row) => where.sku.in.includes(row.sku)).map((row) => ({ ...row }))),
+          ),
+          update: jest.fn(),
+        },
+        stockMovement: { createMany: jest.fn() },
+      };
+      service = new InventoryService(prisma as unknown as PrismaService, new EventEmitter2());
+    });
+
+    it('sets and shifts stock under row locks and records the movements', async () => {
+      const { data } = await adjust([
+        { sku: 'VT-ADIRE-M', stockQuantity: 8 },
+        { sku: 'VT-ADIRE-L', delta: -1 },
+        { sku: 'VT-ADIRE-XL', stockQuantity: 4 },
+      ]);
+
+      expect(data.applied).toBe(true);
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+      expect(prisma.productVariant.update.mock.calls).toEqual([
+        [{ where: { id: 'variant-1' }, data: { stockQuantity: { increment: 3 } } }],
+        [{ where: { id: 'variant-2' }, data: { stockQuantity: { increment: -1 } } }],
+      ]);
+      expect(prisma.stockMovement.createMany).toHaveBeenCalledWith({
+        data: [
+          { variantId: 'variant-1', delta: 3, reason: 'ADJUSTMENT', actorId: 'admin-1', note: 'Bulk adjustment' },
+          { variantId: 'variant-2', delta: -1, reason: 'ADJUSTMENT', actorId: 'admin-1', note: 'Bulk adjustment' },
+        ],
+      });
+    });
+
+    it('applies none of the rows when any of them is invalid', async () => {
+      const error = await adjust([
+        { sku: 'VT-ADIRE-L', delta: 2 },
+        { sku: 'VT-MISSING', stockQuantity: 1 },
+        { sku: 'VT-ADIRE-L', delta: 1 },
+        { sku: 'VT-ADIRE-XL', delta: -5 },
+        { sku: 'VT-ADIRE-M', stockQuantity: 1 },
+      ]).catch((caught: BulkStockValidationException) => caught);
+
+      expect(error).toBeInstanceOf(BulkStockValidationException);
+      expect((error as BulkStockValidationException).getResponse()).toMatchObject({
+        error: {
+          message: MESSAGES.INVENTORY.BULK_INVALID,
+          details: {
+            'row 2': `VT-MISSING: ${MESSAGES.INVENTORY.UNKNOWN_SKU}`,
+            'row 3': `VT-ADIRE-L: ${MESSAGES.INVENTORY.DUPLICATE_SKU}`,
+            'row 4': `VT-ADIRE-XL: ${MESSAGES.INVENTORY.NEGATIVE_RESULT(-1)}`,
+            'row 5': `VT-ADIRE-M: ${MESSAGES.INVENTORY.BELOW_RESERVED(1, 2)}`,
+          },
+        },
+      });
+      expect(prisma.productVariant.update).not.toHaveBeenCalled();
+      expect(prisma.stockMovement.createMany).not.toHaveBeenCalled();
+    });
+
+    it('reports the outcome of a dry run without locking or writing', async () => {
+      const { data, message } = await adjust(
+        [
+          { sku: 'VT-ADIRE-M', delta: 1 },
+          { sku: 'VT-MISSING', delta: 1 },
+        ],
+        true,
+      );
+
+      expect(data).toMatchObject({
+        dryRun: true,
+        applied: false,
+        total: 2,
+        changes: [{ row: 1, sku: 'VT-ADIRE-M', variantId: 'variant-1', before: 5, after: 6, delta: 1 }],
+        errors: [{ row: 2, sku: 'VT-MISSING', message: MESSAGES.INVENTORY.UNKNOWN_SKU }],
+      });
+      expect(message).toBe(MESSAGES.INVENTORY.BULK_DRY_RUN(1, 1));
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+      expect(prisma.productVariant.update).not.toHaveBeenCalled();
+      expect(prisma.stockMovement.createMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,909 @@
+// Inventory Service - stock reservations for unpaid orders
+
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma';
+import type { PrismaTransactionClient } from '../../prisma';
+import { INVENTORY_EVENTS } from './events';
+import type { LowStockEvent } from './events';
+import { bulkStockItemSchema } from './schemas';
+import type {
+    ListStockMovementsQueryDto,
+    StockReportQueryDto,
+    BulkStockItemDto,
+    BulkStockAdjustmentDto,
+    BulkStockCsvQueryDto,
+} from './schemas';
+import type { ApiResponse, PaginatedResult } from '../../common/types';
+import { APP_CONSTANTS, MESSAGES } from '../../common/constants';
+import {
+    BadRequestException,
+    BulkStockValidationException,
+    InsufficientStockException,
+    NotFoundException,
+} from '../../common/filters';
+import {
+    successResponse,
+    updatedResponse,
+    createPaginatedResult,
+    calculatePagination,
+    getAvailableStock,
+    parseCsv,
+} from '../../common/helpers';
+
+export interface ReservationItem {
+    variantId: string;
+    quantity: number;
+}
+
+// A variant whose available stock an order took to or below its low-stock threshold
+export interface LowStockCrossing {
+    variantId: string;
+    availableQuantity: number;
+    lowStockThreshold: number;
+}
+
+// Stock level returned by a conditional stock UPDATE
+interface StockLevelRow {
+    available: number;
+    threshold: number;
+}
+
+export type StockMovementReason = 'SALE' | 'CANCEL' | 'REFUND' | 'ADJUSTMENT' | 'RESTOCK';
+
+export interface StockMovementInput {
+    variantId: string;
+    delta: number;
+    reason: StockMovementReason;
+    actorId?: string | null;
+    orderId?: string | null;
+    note?: string | null;
+}
+
+// Stock movement response types
+export interface StockMovementResponse {
+    id: string;
+    variantId: string;
+    delta: number;
+    reason: string;
+    actorId: string | null;
+    orderId: string | null;
+    note: string | null;
+    createdAt: Date;
+}
+
+export interface StockReportItem {
+    id: string;
+    sku: string;
+    color: string;
+    size: string;
+    stockQuantity: number;
+    reservedQuantity: number;
+    availableQuantity: number;
+    lowStockThreshold: number;
+    product: {
+        id: string;
+        name: string;
+        slug: string;
+        category: { id: string; name: string; slug: string };
+    };
+}
+
+export interface BulkStockChange {
+    row: number;
+    sku: string;
+    variantId: string;
+    before: number;
+    after: number;
+    delta: number;
+}
+
+export interface BulkStockError {
+    row: number;
+    sku: string;
+    message: string;
+}
+
+export interface BulkStockResult {
+    dryRun: boolean;
+    applied: boolean;
+    total: number;
+    changes: BulkStockChange[];
+    errors: BulkStockError[];
+}
+
+// A bulk row that passed (item) or failed (error) schema validation
+type BulkStockRow =
+    | { row: number; sku: string; item: BulkStockItemDto; error?: undefined }
+    | { row: number; sku: string; item?: undefined; error: string };
+
+export interface StockAdjustmentResponse {
+    id: string;
+    productId: string;
+    sku: string;
+    color: string;
+    size: string;
+    priceModifier: unknown;
+    stockQuantity: number;
+    reservedQuantity: number;
+    lowStockThreshold: number;
+    isActive: boolean;
+}
+
+@Injectable()
+export class InventoryService {
+    private readonly logger = new Logger(InventoryService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly eventEmitter: EventEmitter2,
+    ) { }
+
+    /**
+     * Hold stock for a pending order until it is paid or the reservation expires
+     * Throws InsufficientStockException, rolling back the transaction, if any item ran out
+     * Returns the variants this took to or below their low-stock threshold
+     */
+    async reserve(
+        tx: PrismaTransactionClient,
+        orderId: string,
+        items: ReservationItem[],
+        expiresAt: Date,
+    ): Promise<LowStockCrossing[]> {
+        const crossings: LowStockCrossing[] = [];
+
+        for (const item of items) {
+            // The availability check and the update are one statement, so concurrent checkouts cannot oversell
+            const [level] = await tx.$queryRaw<StockLevelRow[]>`
+                UPDATE product_variants
+                SET reserved_quantity = reserved_quantity + ${item.quantity}
+                WHERE id = ${item.variantId}
+                  AND stock_quantity - reserved_quantity >= ${item.quantity}
+                RETURNING stock_quantity - reserved_quantity AS available, low_stock_threshold AS threshold
+            `;
+
+            if (!level) {
+                await this.throwInsufficientStock(tx, item.variantId);
+            }
+            crossings.push(...this.crossedThreshold(item, level));
+        }
+
+        await tx.inventoryReservation.createMany({
+            data: items.map((item) => ({
+                orderId,
+                variantId: item.variantId,
+                quantity: item.quantity,
+                expiresAt,
+            })),
+        });
+
+        return crossings;
+    }
+
+    /**
+     * Take stock for an order that is confirmed without payment (pay on delivery)
+     * Throws InsufficientStockException, rolling back the transaction, if any item ran out
+     * Returns the variants this took to or below their low-stock threshold
+     */
+    async sell(
+        tx: PrismaTransactionClient,
+        orderId: string,
+        items: ReservationItem[],
+        actorId?: string,
+    ): Promise<LowStockCrossing[]> {
+        const crossings: LowStockCrossing[] = [];
+
+        for (const item of items) {
+            const [level] = await tx.$queryRaw<StockLevelRow[]>`
+                UPDATE product_variants
+                SET stock_quantity = stock_quantity - ${item.quantity}
+                WHERE id = ${item.variantId}
+                  AND stock_quantity - reserved_quantity >= ${item.quantity}
+                RETURNING stock_quantity - reserved_quantity AS available, low_stock_threshold AS threshold
+            `;
+
+            if (!level) {
+                await this.throwInsufficientStock(tx, item.variantId);
+            }
+            crossings.push(...this.crossedThreshold(item, level));
+        }
+
+        await this.recordMovements(
+            tx,
+            items.map((item) => ({
+                variantId: item.variantId,
+                delta: -item.quantity,
+                reason: 'SALE' as const,
+                actorId,
+                orderId,
+            })),
+        );
+
+        return crossings;
+    }
+
+    /**
+     * The crossing an item's UPDATE caused, judged from the stock it left behind
+     * Each statement sees its own before and after, so only the order that crossed alerts
+     */
+    private crossedThreshold(item: ReservationItem, level: StockLevelRow): LowStockCrossing[] {
+        const available = Number(level.available);
+        const threshold = Number(level.threshold);
+
+        if (available > threshold || available + item.quantity <= threshold) {
+            return [];
+        }
+
+        return [{ variantId: item.variantId, availableQuantity: available, lowStockThreshold: threshold }];
+    }
+
+    /**
+     * Put units back into stock - cancelled orders and refunded items
+     */
+    async restock(
+        tx: PrismaTransactionClient,
+        items: ReservationItem[],
+        movement: { reason: 'CANCEL' | 'REFUND'; orderId: string; actorId?: string; note?: string },
+    ): Promise<void> {
+        for (const item of items) {
+            await tx.productVariant.update({
+                where: { id: item.variantId },
+                data: { stockQuantity: { increment: item.quantity } },
+            });
+        }
+
+        await this.recordMovements(
+            tx,
+            items.map((item) => ({ variantId: item.variantId, delta: item.quantity, ...movement })),
+        );
+    }
+
+    /**
+     * Set a variant's stock to a counted quantity (admin)
+     * The difference from the current stock is recorded as an adjustment
+     */
+    async adjustStock(
+        variantId: string,
+        stockQuantity: number,
+        actorId: string,
+        options: { reason?: 'ADJUSTMENT' | 'RESTOCK'; note?: string } = {},
+    ): Promise<StockAdjustmentResponse> {
+        return this.prisma.$transaction(async (tx) => {
+            // Lock the row so a checkout cannot change the stock between the read and the write
+            await this.lockVariants(tx, [variantId]);
+
+            const variant = await tx.productVariant.findUnique({
+                where: { id: variantId },
+            });
+
+            if (!variant) {
+                throw new NotFoundException('Variant');
+            }
+
+            // Units held for unpaid orders must still be there when those orders are paid
+            if (stockQuantity < variant.reservedQuantity) {
+                throw new BadRequestException(
+                    MESSAGES.INVENTORY.BELOW_RESERVED(stockQuantity, variant.reservedQuantity),
+                );
+            }
+
+            const updated = await tx.productVariant.update({
+                where: { id: variantId },
+                data: { stockQuantity },
+            });
+
+            const delta = stockQuantity - variant.stockQuantity;
+            if (delta !== 0) {
+                await this.recordMovements(tx, [
+                    {
+                        variantId,
+                        delta,
+                        reason: options.reason ?? 'ADJUSTMENT',
+                        actorId,
+                        note: options.note,
+                    },
+                ]);
+            }
+
+            this.logger.log(`Stock for ${variant.sku} set to ${stockQuantity} (${delta >= 0 ? '+' : ''}${delta})`);
+
+            return updated;
+        });
+    }
+
+    /**
+     * Take row locks on variants for the rest of the transaction
+     * Locks are taken in ID order so concurrent callers cannot deadlock
+     */
+    async lockVariants(tx: PrismaTransactionClient, variantIds: string[]): Promise<void> {
+        if (variantIds.length === 0) {
+            return;
+        }
+
+        await tx.$queryRaw`
+            SELECT id FROM product_variants
+            WHERE id IN (${Prisma.join(variantIds)})
+            ORDER BY id
+            FOR UPDATE
+        `;
+    }
+
+    /**
+     * Append entries to the stock movement ledger
+     */
+    async recordMovements(
+        tx: PrismaTransactionClient,
+        movements: StockMovementInput[],
+    ): Promise<void> {
+        const entries = movements.filter((movement) => movement.delta !== 0);
+        if (entries.length === 0) {
+            return;
+        }
+
+        await tx.stockMovement.createMany({ data: entries });
+    }
+
+    /**
+     * Emit a low-stock event for each variant an order took to or below its threshold
+     * Call after the checkout transaction commits so rolled-back orders never alert
+     * Failures are logged, never thrown, since the order is already placed
+     */
+    async emitLowStock(orderId: string, crossings: LowStockCrossing[]): Promise<void> {
+        if (crossings.length === 0) {
+            return;
+        }
+
+        try {
+            const variants = await this.prisma.productVariant.findMany({
+                where: { id: { in: crossings.map((crossing) => crossing.variantId) } },
+                include: { product: { select: { name: true } } },
+            });
+
+            for (const crossing of crossings) {
+                const variant = variants.find((item) => item.id === crossing.variantId);
+                if (!variant) {
+                    continue;
+                }
+
+                const event: LowStockEvent = {
+                    variantId: variant.id,
+                    sku: variant.sku,
+                    productName: variant.product.name,
+                    color: variant.color,
+                    size: variant.size,
+                    availableQuantity: crossing.availableQuantity,
+                    lowStockThreshold: crossing.lowStockThreshold,
+                    orderId,
+                };
+
+                this.eventEmitter.emit(INVENTORY_EVENTS.LOW_STOCK, event);
+            }
+        } catch (error) {
+            this.logger.error(
+                `Could not send low-stock alerts for order ${orderId}: ${(error as Error).message}`,
+            );
+        }
+    }
+
+    /**
+     * Report which variant ran out, with what is left of it
+     */
+    private async throwInsufficientStock(
+        tx: PrismaTransactionClient,
+        variantId: string,
+    ): Promise<never> {
+        const variant = await tx.productVariant.findUniqueOrThrow({
+            where: { id: variantId },
+            include: { product: { select: { name: true } } },
+        });
+
+        this.logger.warn(`Stock ran out for ${variant.sku} during checkout`);
+
+        throw new InsufficientStockException(
+            getAvailableStock(variant),
+            `${variant.product.name} (${variant.color} / ${variant.size})`,
+        );
+    }
+
+    /**
+     * Turn an order's reservations into sold stock once it is paid
+     * Returns the number of reservations committed
+     */
+    async commit(
+        tx: PrismaTransactionClient,
+        orderId: string,
+        actorId?: string,
+    ): Promise<number> {
+        const reservations = await tx.inventoryReservation.findMany({
+            where: { orderId, status: 'ACTIVE' },
+        });
+
+        for (const reservation of reservations) {
+            await tx.productVariant.update({
+                where: { id: reservation.variantId },
+                data: {
+                    stockQuantity: { decrement: reservation.quantity },
+                    reservedQuantity: { decrement: reservation.quantity },
+                },
+            });
+        }
+
+        await tx.inventoryReservation.updateMany({
+            where: { orderId, status: 'ACTIVE' },
+            data: { status: 'COMMITTED' },
+        });
+
+        await this.recordMovements(
+            tx,
+            reservations.map((reservation) => ({
+                variantId: reservation.variantId,
+                delta: -reservation.quantity,
+                reason: 'SALE' as const,
+                actorId,
+                orderId,
+            })),
+        );
+
+        return reservations.length;
+    }
+
+    /**
+     * Return an order's reserved stock to the available pool
+     * Expired reservations are marked apart so a late payment can reclaim them
+     * Returns the number of reservations released
+     */
+    async release(
+        tx: PrismaTransactionClient,
+        orderId: string,
+        status: 'RELEASED' | 'EXPIRED' = 'RELEASED',
+    ): Promise<number> {
+        const reservations = await tx.inventoryReservation.findMany({
+            where: { orderId, status: 'ACTIVE' },
+        });
+
+        for (const reservation of reservations) {
+            await tx.productVariant.update({
+                where: { id: reservation.variantId },
+                data: { reservedQuantity: { decrement: reservation.quantity } },
+            });
+        }
+
+        await tx.inventoryReservation.updateMany({
+            where: { orderId, status: 'ACTIVE' },
+            data: { status },
+        });
+
+        return reservations.length;
+    }
+
+    /**
+     * Sell an expired order's stock again when its payment arrives after the sweep
+     * Returns false, changing nothing, if any of it has been sold in the meantime
+     */
+    async reclaim(tx: PrismaTransactionClient, orderId: string): Promise<boolean> {
+        const reservations = await tx.inventoryReservation.findMany({
+            where: { orderId, status: 'EXPIRED' },
+        });
+
+        if (reservations.length === 0) {
+            return false;
+        }
+
+        // Lock the variants so the availability check still holds when the sale is written
+        const variants = await tx.$queryRaw<Array<{ id: string; available: number }>>`
+            SELECT id, stock_quantity - reserved_quantity AS available
+            FROM product_variants
+            WHERE id IN (${Prisma.join(reservations.map((reservation) => reservation.variantId))})
+            FOR UPDATE
+        `;
+        const available = new Map(variants.map((variant) => [variant.id, Number(variant.available)]));
+
+        const items = this.sumQuantities(reservations);
+        if (items.some((item) => (available.get(item.variantId) ?? 0) < item.quantity)) {
+            return false;
+        }
+
+        await this.sell(tx, orderId, items);
+
+        await tx.inventoryReservation.updateMany({
+            where: { orderId, status: 'EXPIRED' },
+            data: { status: 'COMMITTED' },
+        });
+
+        return true;
+    }
+
+    /**
+     * Total quantity per variant
+     */
+    private sumQuantities(items: ReservationItem[]): ReservationItem[] {
+        const totals = new Map<string, number>();
+        for (const item of items) {
+            totals.set(item.variantId, (totals.get(item.variantId) ?? 0) + item.quantity);
+        }
+
+        return [...totals].map(([variantId, quantity]) => ({ variantId, quantity }));
+    }
+
+    /**
+     * Keep an order's reservations alive at least until the given time
+     * Used when a payment session outlasts the reservation window
+     */
+    async extend(orderId: string, expiresAt: Date): Promise<void> {
+        await this.prisma.inventoryReservation.updateMany({
+            where: { orderId, status: 'ACTIVE', expiresAt: { lt: expiresAt } },
+            data: { expiresAt },
+        });
+    }
+
+    /**
+     * Find pending orders whose reservations have expired
+     */
+    async findExpiredOrders(limit: number): Promise<Array<{ id: string; orderNumber: string }>> {
+        return this.prisma.order.findMany({
+            where: {
+                status: 'PENDING',
+                reservations: { some: { status: 'ACTIVE', expiresAt: { lt: new Date() } } },
+            },
+            select: { id: true, orderNumber: true },
+            orderBy: { createdAt: 'asc' },
+            take: limit,
+        });
+    }
+
+    /**
+     * Cancel an unpaid order whose reservation window has passed
+     * Returns false when the order was paid or cancelled in the meantime
+     */
+    async expireOrder(orderId: string): Promise<boolean> {
+        return this.prisma.$transaction(async (tx) => {
+            // Guard on status so a payment landing mid-sweep wins
+            const { count } = await tx.order.updateMany({
+                where: { id: orderId, status: 'PENDING' },
+                data: { status: 'CANCELLED' },
+            });
+
+            if (count === 0) {
+                return false;
+            }
+
+            await this.release(tx, orderId, 'EXPIRED');
+
+            const order = await tx.order.findUniqueOrThrow({
+                where: { id: orderId },
+                select: { orderNumber: true, couponId: true },
+            });
+
+            // Release the coupon redemption
+            if (order.couponId) {
+                await tx.coupon.update({
+                    where: { id: order.couponId },
+                    data: { usedCount: { decrement: 1 } },
+                });
+            }
+
+            this.logger.log(`Order ${order.orderNumber} expired without payment`);
+
+            return true;
+        });
+    }
+
+    // ============ ADMIN OPERATIONS ============
+
+    /**
+     * List stock movements (admin)
+     */
+    async findMovements(
+        query: ListStockMovementsQueryDto,
+    ): Promise<ApiResponse<PaginatedResult<StockMovementResponse>>> {
+        const { page, limit, variantId, productId, orderId, reason, fromDate, toDate } = query;
+        const { skip, take } = calculatePagination(page, limit);
+
+        const where: Record<string, unknown> = {};
+        if (variantId) where.variantId = variantId;
+        if (productId) where.variant = { productId };
+        if (orderId) where.orderId = orderId;
+        if (reason) where.reason = reason;
+        if (fromDate) where.createdAt = { ...((where.createdAt as object) || {}), gte: fromDate };
+        if (toDate) where.createdAt = { ...((where.createdAt as object) || {}), lte: toDate };
+
+        const [movements, total] = await Promise.all([
+            this.prisma.stockMovement.findMany({
+                where,
+                skip,
+                take,
+                include: {
+                    variant: {
+                        select: {
+                            sku: true,
+                            color: true,
+                            size: true,
+                            product: { select: { id: true, name: true } },
+                        },
+                    },
+                },
+                orderBy: { createdAt: 'desc' },
+            }),
+            this.prisma.stockMovement.count({ where }),
+        ]);
+
+        const result = createPaginatedResult(movements, total, page, limit);
+        return successResponse(result);
+    }
+
+    /**
+     * Variants at or below their low-stock threshold that can still be sold (admin)
+     */
+    async findLowStock(
+        query: StockReportQueryDto,
+    ): Promise<ApiResponse<PaginatedResult<StockReportItem>>> {
+        return this.findStockReport(query, false);
+    }
+
+    /**
+     * Variants with nothing left to sell (admin)
+     */
+    async findOutOfStock(
+        query: StockReportQueryDto,
+    ): Promise<ApiResponse<PaginatedResult<StockReportItem>>> {
+        return this.findStockReport(query, true);
+    }
+
+    /**
+     * Active variants by available stock - out of stock, or low but not out
+     * Available stock is a difference of two columns, so the filter is raw SQL
+     */
+    private async findStockReport(
+        query: StockReportQueryDto,
+        outOfStock: boolean,
+    ): Promise<ApiResponse<PaginatedResult<StockReportItem>>> {
+        const { page, limit, categoryId } = query;
+        const { skip, take } = calculatePagination(page, limit);
+        const categoryFilter = categoryId ?? null;
+
+        const [rows, [{ count }]] = await Promise.all([
+            this.prisma.$queryRaw<Array<{ id: string }>>`
+                SELECT v.id
+                FROM product_variants v
+                JOIN products p ON p.id = v.product_id
+                WHERE v.is_active
+                  AND (${categoryFilter}::text IS NULL OR p.category_id = ${categoryFilter})
+                  AND CASE WHEN ${outOfStock}
+                      THEN v.stock_quantity - v.reserved_quantity <= 0
+                      ELSE v.stock_quantity - v.reserved_quantity > 0
+                          AND v.stock_quantity - v.reserved_quantity <= v.low_stock_threshold
+                  END
+                ORDER BY v.stock_quantity - v.reserved_quantity ASC, v.sku ASC
+                LIMIT ${take} OFFSET ${skip}
+            `,
+            this.prisma.$queryRaw<Array<{ count: bigint }>>`
+                SELECT COUNT(*) AS count
+                FROM product_variants v
+                JOIN products p ON p.id = v.product_id
+                WHERE v.is_active
+                  AND (${categoryFilter}::text IS NULL OR p.category_id = ${categoryFilter})
+                  AND CASE WHEN ${outOfStock}
+                      THEN v.stock_quantity - v.reserved_quantity <= 0
+                      ELSE v.stock_quantity - v.reserved_quantity > 0
+                          AND v.stock_quantity - v.reserved_quantity <= v.low_stock_threshold
+                  END
+            `,
+        ]);
+
+        const variants = await this.prisma.productVariant.findMany({
+            where: { id: { in: rows.map((row) => row.id) } },
+            select: {
+                id: true,
+                sku: true,
+                color: true,
+                size: true,
+                stockQuantity: true,
+                reservedQuantity: true,
+                lowStockThreshold: true,
+                product: {
+                    select: {
+                        id: true,
+                        name: true,
+                        slug: true,
+                        category: { select: { id: true, name: true, slug: true } },
+                    },
+                },
+            },
+        });
+
+        // Keep the SQL ordering - most urgent first
+        const byId = new Map(variants.map((variant) => [variant.id, variant]));
+        const items = rows.flatMap((row) => {
+            const variant = byId.get(row.id);
+            return variant ? [{ ...variant, availableQuantity: getAvailableStock(variant) }] : [];
+        });
+
+        const result = createPaginatedResult(items, Number(count), page, limit);
+        return successResponse(result);
+    }
+
+    /**
+     * Adjust stock for many SKUs at once (admin)
+     */
+    async bulkAdjust(
+        dto: BulkStockAdjustmentDto,
+        actorId: string,
+    ): Promise<ApiResponse<BulkStockResult>> {
+        const rows: BulkStockRow[] = dto.items.map((item, index) => ({
+            row: index + 1,
+            sku: item.sku,
+            item,
+        }));
+
+        return this.runBulkAdjustment(rows, actorId, dto.dryRun, dto.note ?? 'Bulk adjustment');
+    }
+
+    /**
+     * Adjust stock from an uploaded CSV with sku and stockQuantity or delta columns (admin)
+     */
+    async bulkAdjustCsv(
+        content: Buffer | undefined,
+        query: BulkStockCsvQueryDto,
+        actorId: string,
+    ): Promise<ApiResponse<BulkStockResult>> {
+        if (!content) {
+            throw new BadRequestException(MESSAGES.INVENTORY.CSV_REQUIRED);
+        }
+
+        const records = parseCsv(content.toString('utf8'));
+
+        if (records.length === 0) {
+            throw new BadRequestException(MESSAGES.INVENTORY.CSV_EMPTY);
+        }
+
+        if (records.length > APP_CONSTANTS.MAX_BULK_STOCK_ROWS) {
+            throw new BadRequestException(
+                MESSAGES.INVENTORY.CSV_TOO_MANY_ROWS(APP_CONSTANTS.MAX_BULK_STOCK_ROWS),
+            );
+        }
+
+        const rows = records.map((record, index): BulkStockRow => {
+            // The header is line 1, so data starts on line 2
+            const row = index + 2;
+            const parsed = bulkStockItemSchema.safeParse({
+                sku: record.sku ?? '',
+                stockQuantity: this.parseCsvNumber(record.stockQuantity),
+                delta: this.parseCsvNumber(record.delta),
+            });
+
+            return parsed.success
+                ? { row, sku: parsed.data.sku, item: parsed.data }
+                : { row, sku: record.sku ?? '', error: parsed.error.issues[0].message };
+        });
+
+        return this.runBulkAdjustment(rows, actorId, query.dryRun, query.note ?? 'CSV import');
+    }
+
+    /**
+     * Empty cells mean the column does not apply to the row
+     */
+    private parseCsvNumber(value: string | undefined): number | undefined {
+        return value === undefined || value === '' ? undefined : Number(value);
+    }
+
+    /**
+     * Validate every row against current stock, then apply all of them or none
+     * A dry run reports the outcome without writing
+     */
+    private async runBulkAdjustment(
+        rows: BulkStockRow[],
+        actorId: string,
+        dryRun: boolean,
+        note: string,
+    ): Promise<ApiResponse<BulkStockResult>> {
+        const result = await this.prisma.$transaction(async (tx): Promise<BulkStockResult> => {
+            const skus = rows.map((row) => row.sku);
+
+            // Lock the rows being written so checkouts in between cannot be lost from the counts
+            if (!dryRun) {
+                const locked = await tx.productVariant.findMany({
+                    where: { sku: { in: skus } },
+                    select: { id: true },
+                });
+                await this.lockVariants(tx, locked.map((variant) => variant.id));
+            }
+
+            const variants = await tx.productVariant.findMany({
+                where: { sku: { in: skus } },
+                select: { id: true, sku: true, stockQuantity: true, reservedQuantity: true },
+            });
+            const bySku = new Map(variants.map((variant) => [variant.sku, variant]));
+
+            const changes: BulkStockChange[] = [];
+            const errors: BulkStockError[] = [];
+            const seen = new Set<string>();
+
+            for (const { row, sku, item, error } of rows) {
+                if (!item) {
+                    errors.push({ row, sku, message: error });
+                    continue;
+                }
+
+                if (seen.has(sku)) {
+                    errors.push({ row, sku, message: MESSAGES.INVENTORY.DUPLICATE_SKU });
+                    continue;
+                }
+                seen.add(sku);
+
+                const variant = bySku.get(sku);
+                if (!variant) {
+                    errors.push({ row, sku, message: MESSAGES.INVENTORY.UNKNOWN_SKU });
+                    continue;
+                }
+
+                const after = item.stockQuantity ?? variant.stockQuantity + (item.delta ?? 0);
+                if (after < 0) {
+                    errors.push({ row, sku, message: MESSAGES.INVENTORY.NEGATIVE_RESULT(after) });
+                    continue;
+                }
+
+                if (after < variant.reservedQuantity) {
+                    errors.push({
+                        row,
+                        sku,
+                        message: MESSAGES.INVENTORY.BELOW_RESERVED(after, variant.reservedQuantity),
+                    });
+                    continue;
+                }
+
+                changes.push({
+                    row,
+                    sku,
+                    variantId: variant.id,
+                    before: variant.stockQuantity,
+                    after,
+                    delta: after - variant.stockQuantity,
+                });
+            }
+
+            if (dryRun || errors.length > 0) {
+                return { dryRun, applied: false, total: rows.length, changes, errors };
+            }
+
+            for (const change of changes.filter((change) => change.delta !== 0)) {
+                await tx.productVariant.update({
+                    where: { id: change.variantId },
+                    data: { stockQuantity: { increment: change.delta } },
+                });
+            }
+
+            await this.recordMovements(
+                tx,
+                changes.map((change) => ({
+                    variantId: change.variantId,
+                    delta: change.delta,
+                    reason: 'ADJUSTMENT' as const,
+                    actorId,
+                    note,
+                })),
+            );
+
+            return { dryRun, applied: true, total: rows.length, changes, errors };
+        });
+
+        if (dryRun) {
+            return successResponse(
+                result,
+                MESSAGES.INVENTORY.BULK_DRY_RUN(result.changes.length, result.errors.length),
+            );
+        }
+
+        if (!result.applied) {
+            throw new BulkStockValidationException(
+                Object.fromEntries(
+                    result.errors.map((error) => [`row ${error.row}`, `${error.sku}: ${error.message}`]),
+                ),
+            );
+        }
+
+        this.logger.log(`Bulk stock adjustment of ${result.changes.length} variant(s) by ${actorId}`);
+
+        return updatedResponse(result, MESSAGES.INVENTORY.BULK_APPLIED(result.changes.length));
+    }
+}
@@ -0,0 +1,20 @@
+// Low Stock Listener - forwards low-stock events to the configured notifier
+
+import { Inject, Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { INVENTORY_EVENTS } from './events';
+import type { LowStockEvent } from './events';
+import { STOCK_NOTIFIER } from './providers';
+import type { StockNotifier } from './providers';
+
+@Injectable()
+export class LowStockListener {
+    constructor(
+        @Inject(STOCK_NOTIFIER) private readonly notifier: StockNotifier,
+    ) { }
+
+    @OnEvent(INVENTORY_EVENTS.LOW_STOCK, { async: true })
+    async handleLowStock(event: LowStockEvent): Promise<void> {
+        await this.notifier.notifyLowStock(event);
+    }
+}
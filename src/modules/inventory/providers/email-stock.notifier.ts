@@ -0,0 +1,63 @@
+// Email Stock Notifier - emails low-stock alerts to the merch team via Resend
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { LowStockEvent } from '../events';
+import type { StockNotifier } from './stock-notifier.interface';
+
+const RESEND_EMAILS_URL = 'https://api.resend.com/emails';
+
+@Injectable()
+export class EmailStockNotifier implements StockNotifier {
+    readonly name = 'EMAIL';
+    private readonly logger = new Logger(EmailStockNotifier.name);
+    private readonly apiKey: string;
+    private readonly from: string;
+    private readonly to: string;
+
+    constructor(private readonly configService: ConfigService) {
+        this.apiKey = this.configService.get<string>('email.resendApiKey') || '';
+        this.from = this.configService.get<string>('email.from') || 'noreply@voguetribe.com';
+        this.to = this.configService.get<string>('inventory.alertEmail') || '';
+    }
+
+    /**
+     * Send the alert; failures are logged, never thrown, so checkout is unaffected
+     */
+    async notifyLowStock(event: LowStockEvent): Promise<void> {
+        if (!this.apiKey || !this.to) {
+            this.logger.warn(`Low-stock email for ${event.sku} skipped: email is not configured`);
+            return;
+        }
+
+        const item = `${event.productName} (${event.color} / ${event.size})`;
+
+        try {
+            const response = await fetch(RESEND_EMAILS_URL, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${this.apiKey}`,
+                },
+                body: JSON.stringify({
+                    from: this.from,
+                    to: [this.to],
+                    subject: `Low stock: ${item}`,
+                    text: [
+                        `${item} is running low.`,
+                        `SKU: ${event.sku}`,
+                        `Available: ${event.availableQuantity}`,
+                        `Threshold: ${event.lowStockThreshold}`,
+                    ].join('\n'),
+                }),
+                signal: AbortSignal.timeout(10000),
+            });
+
+            if (!response.ok) {
+                this.logger.error(`Low-stock email for ${event.sku} rejected: HTTP ${response.status}`);
+            }
+        } catch (error) {
+            this.logger.error(`Low-stock email for ${event.sku} failed: ${(error as Error).message}`);
+        }
+    }
+}
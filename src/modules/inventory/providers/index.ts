@@ -0,0 +1,3 @@
+export * from './stock-notifier.interface';
+export * from './log-stock.notifier';
+export * from './email-stock.notifier';
@@ -0,0 +1,18 @@
+// Log Stock Notifier - writes low-stock alerts to the application log for local dev
+
+import { Injectable, Logger } from '@nestjs/common';
+import type { LowStockEvent } from '../events';
+import type { StockNotifier } from './stock-notifier.interface';
+
+@Injectable()
+export class LogStockNotifier implements StockNotifier {
+    readonly name = 'LOG';
+    private readonly logger = new Logger(LogStockNotifier.name);
+
+    notifyLowStock(event: LowStockEvent): Promise<void> {
+        this.logger.warn(
+            `Low stock: ${event.productName} (${event.color} / ${event.size}, ${event.sku}) has ${event.availableQuantity} left - threshold ${event.lowStockThreshold}`,
+        );
+        return Promise.resolve();
+    }
+}
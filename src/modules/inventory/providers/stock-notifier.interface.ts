@@ -0,0 +1,12 @@
+// Stock notifier contract - how the merch team hears about low stock
+
+import type { LowStockEvent } from '../events';
+
+export const STOCK_NOTIFIER = Symbol('STOCK_NOTIFIER');
+
+export interface StockNotifier {
+    readonly name: string;
+
+    /** Alert that a variant has reached its low-stock threshold */
+    notifyLowStock(event: LowStockEvent): Promise<void>;
+}
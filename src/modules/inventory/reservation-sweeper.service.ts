@@ -0,0 +1,70 @@
+// Reservation Sweeper Service - cancels unpaid orders once their stock reservation expires
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InventoryService } from './inventory.service';
+import { APP_CONSTANTS } from '../../common/constants';
+
+export interface SweepResult {
+    checked: number;
+    expired: number;
+    errors: number;
+}
+
+@Injectable()
+export class ReservationSweeperService {
+    private readonly logger = new Logger(ReservationSweeperService.name);
+    private running = false;
+
+    constructor(private readonly inventoryService: InventoryService) { }
+
+    /**
+     * Sweep expired reservations every minute
+     */
+    @Cron(CronExpression.EVERY_MINUTE, { name: 'inventory-reservation-sweep' })
+    async handleCron(): Promise<void> {
+        // Skip a tick rather than overlap with a slow previous run
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        try {
+            await this.sweepExpiredReservations();
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Cancel pending orders whose reservations expired and release their stock
+     */
+    async sweepExpiredReservations(): Promise<SweepResult> {
+        const orders = await this.inventoryService.findExpiredOrders(
+            APP_CONSTANTS.RESERVATION_SWEEP_BATCH,
+        );
+
+        const result: SweepResult = { checked: orders.length, expired: 0, errors: 0 };
+
+        for (const order of orders) {
+            try {
+                if (await this.inventoryService.expireOrder(order.id)) {
+                    result.expired++;
+                }
+            } catch (error) {
+                result.errors++;
+                this.logger.warn(
+                    `Could not expire order ${order.orderNumber}: ${(error as Error).message}`,
+                );
+            }
+        }
+
+        if (result.checked > 0) {
+            this.logger.log(
+                `Swept ${result.checked} order(s): ${result.expired} expired, ${result.errors} error(s)`,
+            );
+        }
+
+        return result;
+    }
+}
@@ -0,0 +1,80 @@
+// Inventory Zod Schemas
+
+import { z } from 'zod';
+import { APP_CONSTANTS } from '../../../common/constants';
+
+export const stockMovementReasonSchema = z.enum([
+    'SALE',
+    'CANCEL',
+    'REFUND',
+    'ADJUSTMENT',
+    'RESTOCK',
+]);
+
+/**
+ * List stock movements query schema (admin)
+ */
+export const listStockMovementsQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    variantId: z.string().uuid().optional(),
+    productId: z.string().uuid().optional(),
+    orderId: z.string().uuid().optional(),
+    reason: stockMovementReasonSchema.optional(),
+    fromDate: z.coerce.date().optional(),
+    toDate: z.coerce.date().optional(),
+});
+
+export type ListStockMovementsQueryDto = z.infer<typeof listStockMovementsQuerySchema>;
+
+/**
+ * Low-stock and out-of-stock report query schema (admin)
+ */
+export const stockReportQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    categoryId: z.string().uuid().optional(),
+});
+
+export type StockReportQueryDto = z.infer<typeof stockReportQuerySchema>;
+
+/**
+ * Bulk stock row - set a counted quantity, or apply a delta
+ */
+export const bulkStockItemSchema = z
+    .object({
+        sku: z.string().trim().min(1, 'SKU is required').max(50),
+        stockQuantity: z.number().int().min(0, 'Stock cannot be negative').optional(),
+        delta: z.number().int().optional(),
+    })
+    .refine((item) => (item.stockQuantity === undefined) !== (item.delta === undefined), {
+        message: 'Provide either stockQuantity or delta',
+        path: ['stockQuantity'],
+    });
+
+export type BulkStockItemDto = z.infer<typeof bulkStockItemSchema>;
+
+/**
+ * Bulk stock adjustment schema (admin)
+ */
+export const bulkStockAdjustmentSchema = z.object({
+    items: z.array(bulkStockItemSchema).min(1).max(APP_CONSTANTS.MAX_BULK_STOCK_ROWS),
+    dryRun: z.boolean().default(false),
+    note: z.string().max(500).trim().optional(),
+});
+
+export type BulkStockAdjustmentDto = z.infer<typeof bulkStockAdjustmentSchema>;
+
+/**
+ * Bulk stock CSV upload query schema (admin)
+ * The CSV has a sku column and a stockQuantity or delta column
+ */
+export const bulkStockCsvQuerySchema = z.object({
+    dryRun: z
+        .enum(['true', 'false'])
+        .default('false')
+        .transform((value) => value === 'true'),
+    note: z.string().max(500).trim().optional(),
+});
+
+export type BulkStockCsvQueryDto = z.infer<typeof bulkStockCsvQuerySchema>;
@@ -13,7 +13,8 @@ import { OrdersService } from './orders.service';
 import { updateOrderStatusSchema, listOrdersQuerySchema } from './schemas';
 import type { UpdateOrderStatusDto, ListOrdersQueryDto } from './schemas';
 import { JwtAuthGuard, RolesGuard } from '../auth/guards';
-import { Roles } from '../../common/decorators';
+import { Roles, CurrentUser } from '../../common/decorators';
+import type { RequestUser } from '../../common/types';
 import { ZodValidationPipe } from '../../common/pipes';
 import { uuidSchema } from '../../common/schemas';
 
@@ -51,9 +52,10 @@ export class AdminOrdersController {
      */
     @Put(':id/status')
     async updateStatus(
+        @CurrentUser() user: RequestUser,
         @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
         @Body(new ZodValidationPipe(updateOrderStatusSchema)) dto: UpdateOrderStatusDto,
     ) {
-        return this.ordersService.updateStatus(id, dto);
+        return this.ordersService.updateStatus(id, dto, user.id);
     }
 }
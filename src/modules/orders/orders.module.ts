@@ -4,8 +4,12 @@ import { Module } from '@nestjs/common';
 import { OrdersController } from './orders.controller';
 import { AdminOrdersController } from './admin-orders.controller';
 import { OrdersService } from './orders.service';
+import { CouponsModule } from '../coupons/coupons.module';
+import { ShippingModule } from '../shipping/shipping.module';
+import { InventoryModule } from '../inventory/inventory.module';
 
 @Module({
+    imports: [CouponsModule, ShippingModule, InventoryModule],
     controllers: [OrdersController, AdminOrdersController],
     providers: [OrdersService],
     exports: [OrdersService],
@@ -0,0 +1,258 @@
+import { OrdersService } from './orders.service';
+import type { CouponsService } from '../coupons/coupons.service';
+import type { ShippingService } from '../shipping/shipping.service';
+import type { InventoryService } from '../inventory/inventory.service';
+import type { PrismaService } from '../../prisma';
+import { BadRequestException } from '../../common/filters';
+import { MESSAGES } from '../../common/constants';
+
+interface FakeCartItem {
+  quantity: number;
+  variant: {
+    id: string;
+    color: string;
+    size: string;
+    isActive: boolean;
+    stockQuantity: number;
+    reservedQuantity: number;
+    priceModifier: number;
+    product: { name: string; basePrice: number; weightKg: number; isActive: boolean };
+  };
+}
+
+interface FakeCoupon {
+  id: string;
+  type: string;
+  value: number;
+  maxUses: number | null;
+  usedCount: number;
+}
+
+interface FakeOrder {
+  id: string;
+  orderNumber: string;
+  status: string;
+  couponId: string | null;
+  items: Array<{ variantId: string; quantity: number }>;
+}
+
+/**
+ * In-memory stand-in for one order
+ * Guarded updates only apply when the order still has the expected status
+ */
+function createFakePrisma(order: FakeOrder, cartItems: FakeCartItem[] = [], coupon: FakeCoupon | null = null) {
+  const matches = (where: { status?: string | { in: string[] } }) =>
+    typeof where.status === 'string' ? order.status === where.status : where.status!.in.includes(order.status);
+
+  const prisma = {
+    $transaction: (callback: (tx: unknown) => Promise<unknown>) => callback(prisma),
+    cart: {
+      findUnique: () =>
+        Promise.resolve({ id: 'cart-1', couponId: coupon?.id ?? null, coupon: coupon && { ...coupon }, items: cartItems }),
+      update: jest.fn(),
+    },
+    cartItem: { deleteMany: jest.fn() },
+    address: {
+      findFirst: () => Promise.resolve({ id: 'address-1', state: 'Lagos', city: 'Ikeja' }),
+    },
+    order: {
+      create: jest.fn(({ data }: { data: object }) => Promise.resolve({ ...data, id: 'order-2', items: [] })),
+      findUnique: () => Promise.resolve({ ...order }),
+      findUniqueOrThrow: () => Promise.resolve({ ...order }),
+      updateMany: ({ where, data }: { where: { status: string | { in: string[] } }; data: { status: string } }) => {
+        if (!matches(where)) return Promise.resolve({ count: 0 });
+        order.status = data.status;
+        return Promise.resolve({ count: 1 });
+      },
+    },
+    coupon: {
+      update: jest.fn(),
+      updateMany: ({ where }: { where: { usedCount?: { lt: number } } }) => {
+        if (!coupon || (where.usedCount && coupon.usedCount >= where.usedCount.lt)) {
+          return Promise.resolve({ count: 0 });
+        }
+        coupon.usedCount++;
+        return Promise.resolve({ count: 1 });
+      },
+    },
+  };
+
+  return prisma;
+}
+
+describe('OrdersService', () => {
+  let order: FakeOrder;
+  let inventoryService: { commit: jest.Mock; release: jest.Mock; restock: jest.Mock };
+  let service: OrdersService;
+
+  beforeEach(() => {
+    order = {
+      id: 'order-1',
+      orderNumber: 'VT-1',
+      status: 'PENDING',
+      couponId: null,
+      items: [{ variantId: 'variant-1', quantity: 2 }],
+    };
+    inventoryService = { commit: jest.fn(), release: jest.fn().mockResolvedValue(1), restock: jest.fn() };
+    service = new OrdersService(
+      createFakePrisma(order) as unknown as PrismaService,
+      {} as CouponsService,
+      {} as ShippingService,
+      inventoryService as unknown as InventoryService,
+    );
+  });
+
+  describe('updateStatus', () => {
+    it.each(['CONFIRMED', 'PROCESSING', 'SHIPPED', 'DELIVERED'] as const)(
+      'leaves confirming a pending order to payments (%s)',
+      async (status) => {
+        await expect(service.updateStatus('order-1', { status }, 'admin-1')).rejects.toBeInstanceOf(
+          BadRequestException,
+        );
+
+        expect(order.status).toBe('PENDING');
+        expect(inventoryService.commit).not.toHaveBeenCalled();
+      },
+    );
+
+    it.each(['CANCELLED', 'REFUNDED', 'DELIVERED'])('never reopens a %s order', async (status) => {
+      order.status = status;
+
+      await expect(
+        service.updateStatus('order-1', { status: 'CONFIRMED' }, 'admin-1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(order.status).toBe(status);
+    });
+
+    it('moves a paid order along fulfilment', async () => {
+      order.status = 'CONFIRMED';
+
+      await service.updateStatus('order-1', { status: 'PROCESSING' }, 'admin-1');
+      await service.updateStatus('order-1', { status: 'SHIPPED' }, 'admin-1');
+      await service.updateStatus('order-1', { status: 'DELIVERED' }, 'admin-1');
+
+      expect(order.status).toBe('DELIVERED');
+    });
+
+    it('releases the reservations of a pending order it cancels', async () => {
+      const { data } = await service.updateStatus('order-1', { status: 'CANCELLED' }, 'admin-1');
+
+      expect(data.status).toBe('CANCELLED');
+      expect(inventoryService.release).toHaveBeenCalledWith(expect.anything(), 'order-1');
+      expect(inventoryService.restock).not.toHaveBeenCalled();
+    });
+
+    it('does not apply a change when the order moved since it was read', async () => {
+      order.status = 'CONFIRMED';
+      const prisma = createFakePrisma(order);
+      // Another writer ships the order between the read and the update
+      prisma.order.findUnique = () => {
+        const snapshot = { ...order };
+        order.status = 'SHIPPED';
+        return Promise.resolve(snapshot);
+      };
+      service = new OrdersService(
+        prisma as unknown as PrismaService,
+        {} as CouponsService,
+        {} as ShippingService,
+        inventoryService as unknown as InventoryService,
+      );
+
+      await expect(
+        service.updateStatus('order-1', { status: 'PROCESSING' }, 'admin-1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(order.status).toBe('SHIPPED');
+    });
+
+    it('refuses to cancel a shipped order', async () => {
+      order.status = 'SHIPPED';
+
+      await expect(
+        service.updateStatus('order-1', { status: 'CANCELLED' }, 'admin-1'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(order.status).toBe('SHIPPED');
+    });
+  });
+
+  describe('checkout', () => {
+    let cartItems: FakeCartItem[];
+    let prisma: ReturnType<typeof createFakePrisma>;
+
+    const checkout = () =>
+      service.checkout('user-1', {
+        addressId: 'address-1',
+        shippingMethod: 'STANDARD',
+        paymentMethod: 'ONLINE',
+      });
+
+    beforeEach(() => {
+      cartItems = [
+        {
+          quantity: 1,
+          variant: {
+            id: 'variant-1',
+            color: 'Indigo',
+            size: 'M',
+            isActive: true,
+            stockQuantity: 5,
+            reservedQuantity: 0,
+            priceModifier: 0,
+            product: { name: 'Adire Shirt', basePrice: 5000, weightKg: 0.5, isActive: true },
+          },
+        },
+      ];
+      prisma = createFakePrisma(order, cartItems);
+      Object.assign(inventoryService, { reserve: jest.fn().mockResolvedValue([]), emitLowStock: jest.fn() });
+      service = new OrdersService(
+        prisma as unknown as PrismaService,
+        {} as CouponsService,
+        {
+          calculateWeight: () => 0.5,
+          quote: () => Promise.resolve({ method: 'STANDARD', amount: 2500 }),
+        } as unknown as ShippingService,
+        inventoryService as unknown as InventoryService,
+      );
+    });
+
+    it('places an order for active items', async () => {
+      await checkout();
+
+      expect(prisma.order.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('claims the last use of a coupon for only one of two concurrent checkouts', async () => {
+      const coupon = { id: 'coupon-1', type: 'PERCENTAGE', value: 10, maxUses: 5, usedCount: 4 };
+      prisma = createFakePrisma(order, cartItems, coupon);
+      service = new OrdersService(
+        prisma as unknown as PrismaService,
+        // Both checkouts read the coupon before either claimed it
+        { assertRedeemable: jest.fn() } as unknown as CouponsService,
+        {
+          calculateWeight: () => 0.5,
+          quote: () => Promise.resolve({ method: 'STANDARD', amount: 2500 }),
+        } as unknown as ShippingService,
+        inventoryService as unknown as InventoryService,
+      );
+
+      const results = await Promise.allSettled([checkout(), checkout()]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+        reason: { response: { error: { message: MESSAGES.CART.COUPON_MAX_USES_REACHED } } },
+      });
+      expect(coupon.usedCount).toBe(5);
+    });
+
+    it.each([
+      ['variant', (item: FakeCartItem) => (item.variant.isActive = false)],
+      ['product', (item: FakeCartItem) => (item.variant.product.isActive = false)],
+    ])('refuses a cart holding a retired %s', async (_, retire) => {
+      retire(cartItems[0]);
+
+      await expect(checkout()).rejects.toMatchObject({
+        response: { error: { message: MESSAGES.CART.ITEM_UNAVAILABLE('Adire Shirt (Indigo / M)') } },
+      });
+      expect(prisma.order.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,20 +1,28 @@
 // Orders Service
 
 import { Injectable, Logger } from '@nestjs/common';
+import type { OrderStatus } from '@prisma/client';
 import { PrismaService } from '../../prisma';
+import type { PrismaTransactionClient } from '../../prisma';
+import { CouponsService } from '../coupons/coupons.service';
+import { ShippingService } from '../shipping/shipping.service';
+import { InventoryService } from '../inventory/inventory.service';
+import type { LowStockCrossing } from '../inventory/inventory.service';
 import type {
     CreateOrderDto,
     UpdateOrderStatusDto,
     ListOrdersQueryDto,
 } from './schemas';
 import type { ApiResponse, PaginatedResult } from '../../common/types';
-import { MESSAGES } from '../../common/constants';
+import { APP_CONSTANTS, MESSAGES } from '../../common/constants';
 import {
+    BadRequestException,
     NotFoundException,
     EmptyCartException,
     OrderNotFoundException,
     OrderCancelNotAllowedException,
     InsufficientStockException,
+    InvalidCouponException,
 } from '../../common/filters';
 import {
     successResponse,
@@ -23,7 +31,10 @@ import {
     createPaginatedResult,
     calculatePagination,
     generateOrderNumber,
-    calculateOrderTotal,
+    calculatePriceBreakdown,
+    canTransitionOrder,
+    formatNaira,
+    getAvailableStock,
 } from '../../common/helpers';
 
 // Order response types
@@ -48,6 +59,8 @@ export interface OrderResponse {
     total: unknown;
     shippingAddress: unknown;
     notes: string | null;
+    shippingMethod: string;
+    paymentMethod: string;
     createdAt: Date;
     updatedAt: Date;
     items?: OrderItemResponse[];
@@ -57,7 +70,12 @@ export interface OrderResponse {
 export class OrdersService {
     private readonly logger = new Logger(OrdersService.name);
 
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly couponsService: CouponsService,
+        private readonly shippingService: ShippingService,
+        private readonly inventoryService: InventoryService,
+    ) { }
 
     /**
      * Create order from cart (checkout)
@@ -74,7 +92,9 @@ export class OrdersService {
                     include: {
                         variant: {
                             include: {
-                                product: { select: { name: true, basePrice: true } },
+                                product: {
+                                    select: { name: true, basePrice: true, weightKg: true, isActive: true },
+                                },
                             },
                         },
                     },
@@ -109,8 +129,17 @@ export class OrdersService {
         }> = [];
 
         for (const item of cart.items) {
-            if (item.variant.stockQuantity < item.quantity) {
-                throw new InsufficientStockException(item.variant.stockQuantity);
+            const label = `${item.variant.product.name} (${item.variant.color} / ${item.variant.size})`;
+
+            // Retired products and variants stay in carts but can no longer be bought
+            if (!item.variant.isActive || !item.variant.product.isActive) {
+                throw new BadRequestException(MESSAGES.CART.ITEM_UNAVAILABLE(label));
+            }
+
+            // Fail fast here; the reservation inside the transaction is the real guard
+            const available = getAvailableStock(item.variant);
+            if (available < item.quantity) {
+                throw new InsufficientStockException(available, label);
             }
 
             const unitPrice = Number(item.variant.product.basePrice) + Number(item.variant.priceModifier);
@@ -128,32 +157,50 @@ export class OrdersService {
             });
         }
 
-        // Calculate discount from coupon
-        let discount = 0;
+        // Re-validate the coupon - it may have expired or been used up since it was applied
         if (cart.coupon) {
-            const couponValue = Number(cart.coupon.value);
-            if (cart.coupon.type === 'PERCENTAGE') {
-                discount = (subtotal * couponValue) / 100;
-            } else if (cart.coupon.type === 'FIXED_AMOUNT') {
-                discount = couponValue;
-            }
+            await this.couponsService.assertRedeemable(cart.coupon, userId, subtotal);
         }
 
-        // Calculate shipping (flat rate for now - can be integrated with GIG later)
-        const shippingCost = 2500; // ₦2,500 flat rate
-
-        // Calculate VAT and total
-        const { vat, total, discountedSubtotal } = calculateOrderTotal(subtotal, shippingCost, discount);
+        // Quote delivery to the shipping address by parcel weight
+        const shippingRate = await this.shippingService.quote(
+            {
+                destinationState: address.state,
+                destinationCity: address.city,
+                weightKg: this.shippingService.calculateWeight(
+                    cart.items.map((item) => ({
+                        quantity: item.quantity,
+                        weightKg: item.variant.product.weightKg,
+                    })),
+                ),
+            },
+            dto.shippingMethod,
+        );
+
+        // Calculate discount, shipping, VAT and total (same pricing as the cart preview)
+        const { discount, shippingCost, vat, total } = calculatePriceBreakdown(
+            subtotal,
+            shippingRate.amount,
+            cart.coupon,
+        );
+
+        // Cash is collected at the door, so cap the value a courier carries
+        if (dto.paymentMethod === 'CASH_ON_DELIVERY' && total > APP_CONSTANTS.COD_MAX_ORDER_VALUE) {
+            throw new BadRequestException(
+                MESSAGES.ORDER.COD_LIMIT_EXCEEDED(formatNaira(APP_CONSTANTS.COD_MAX_ORDER_VALUE)),
+            );
+        }
 
         // Create order in transaction
-        const order = await this.prisma.$transaction(async (tx) => {
+        const { order, lowStock } = await this.prisma.$transaction(async (tx) => {
             // Create order
             const newOrder = await tx.order.create({
                 data: {
                     orderNumber: generateOrderNumber(),
                     userId,
-                    status: 'PENDING',
-                    subtotal: discountedSubtotal,
+                    // Pay-on-delivery orders are fulfilled without a payment up front
+                    status: dto.paymentMethod === 'CASH_ON_DELIVERY' ? 'CONFIRMED' : 'PENDING',
+                    subtotal,
                     discount,
                     shippingCost,
                     vat,
@@ -169,6 +216,8 @@ export class OrdersService {
                         country: address.country,
                     },
                     notes: dto.notes,
+                    shippingMethod: dto.shippingMethod,
+                    paymentMethod: dto.paymentMethod,
                     couponId: cart.couponId,
                     items: {
                         create: orderItems,
@@ -179,22 +228,34 @@ export class OrdersService {
                 },
             });
 
-            // Decrement stock for each variant
-            for (const item of orderItems) {
-                await tx.productVariant.update({
-                    where: { id: item.variantId },
-                    data: {
-                        stockQuantity: { decrement: item.quantity },
-                    },
-                });
+            // Variants this order took to or below their threshold, alerted once it commits
+            let lowStock: LowStockCrossing[];
+            if (dto.paymentMethod === 'CASH_ON_DELIVERY') {
+                // Confirmed straight away, so the stock is sold now
+                lowStock = await this.inventoryService.sell(tx, newOrder.id, orderItems, userId);
+            } else {
+                // Hold the stock until the order is paid or the reservation expires
+                lowStock = await this.inventoryService.reserve(
+                    tx,
+                    newOrder.id,
+                    orderItems,
+                    this.getReservationExpiry(dto.paymentMethod),
+                );
             }
 
-            // Increment coupon usage if applicable
-            if (cart.couponId) {
-                await tx.coupon.update({
-                    where: { id: cart.couponId },
+            // Claim a coupon use; the limit is re-checked in the update so concurrent checkouts cannot overrun it
+            if (cart.coupon) {
+                const { count } = await tx.coupon.updateMany({
+                    where: {
+                        id: cart.coupon.id,
+                        ...(cart.coupon.maxUses && { usedCount: { lt: cart.coupon.maxUses } }),
+                    },
                     data: { usedCount: { increment: 1 } },
                 });
+
+                if (count === 0) {
+                    throw new InvalidCouponException(MESSAGES.CART.COUPON_MAX_USES_REACHED);
+                }
             }
 
             // Clear cart
@@ -206,14 +267,69 @@ export class OrdersService {
                 data: { couponId: null },
             });
 
-            return newOrder;
+            return { order: newOrder, lowStock };
         });
 
         this.logger.log(`Order created: ${order.orderNumber} for user ${userId}`);
 
+        await this.inventoryService.emitLowStock(order.id, lowStock);
+
         return createdResponse(order, MESSAGES.ORDER.CREATED);
     }
 
+    /**
+     * When an unpaid order's reservation lapses
+     */
+    private getReservationExpiry(paymentMethod: CreateOrderDto['paymentMethod']): Date {
+        const minutes =
+            paymentMethod === 'BANK_TRANSFER'
+                ? APP_CONSTANTS.BANK_TRANSFER_RESERVATION_HOURS * 60
+                : APP_CONSTANTS.CART_RESERVATION_MINUTES;
+
+        return new Date(Date.now() + minutes * 60 * 1000);
+    }
+
+    /**
+     * Cancel an order if it is still in one of the given statuses, giving back its stock and coupon
+     * The status guard makes a cancel racing the sweeper or another cancel a no-op, never a double restock
+     * Returns false when the order had already moved on
+     */
+    private async cancelWithinStatuses(
+        tx: PrismaTransactionClient,
+        order: { id: string; couponId: string | null; items: Array<{ variantId: string; quantity: number }> },
+        statuses: OrderStatus[],
+        actorId: string,
+    ): Promise<boolean> {
+        const { count } = await tx.order.updateMany({
+            where: { id: order.id, status: { in: statuses } },
+            data: { status: 'CANCELLED' },
+        });
+
+        if (count === 0) {
+            return false;
+        }
+
+        // Unpaid orders still hold reservations; paid and pay-on-delivery orders were sold
+        const released = await this.inventoryService.release(tx, order.id);
+        if (released === 0) {
+            await this.inventoryService.restock(tx, order.items, {
+                reason: 'CANCEL',
+                orderId: order.id,
+                actorId,
+            });
+        }
+
+        // Release the coupon redemption
+        if (order.couponId) {
+            await tx.coupon.update({
+                where: { id: order.couponId },
+                data: { usedCount: { decrement: 1 } },
+            });
+        }
+
+        return true;
+    }
+
     /**
      * Get user's orders
      */
@@ -280,26 +396,20 @@ export class OrdersService {
         }
 
         // Only pending or confirmed orders can be cancelled
-        if (!['PENDING', 'CONFIRMED'].includes(order.status)) {
-            throw new OrderCancelNotAllowedException();
-        }
-
-        // Cancel and restore stock
         const cancelled = await this.prisma.$transaction(async (tx) => {
-            // Restore stock
-            for (const item of order.items) {
-                await tx.productVariant.update({
-                    where: { id: item.variantId },
-                    data: {
-                        stockQuantity: { increment: item.quantity },
-                    },
-                });
+            const applied = await this.cancelWithinStatuses(
+                tx,
+                order,
+                ['PENDING', 'CONFIRMED'],
+                userId,
+            );
+
+            if (!applied) {
+                throw new OrderCancelNotAllowedException();
             }
 
-            // Update order status
-            return tx.order.update({
+            return tx.order.findUniqueOrThrow({
                 where: { id: orderId },
-                data: { status: 'CANCELLED' },
                 include: { items: true },
             });
         });
@@ -369,19 +479,57 @@ export class OrdersService {
     async updateStatus(
         orderId: string,
         dto: UpdateOrderStatusDto,
+        adminId: string,
     ): Promise<ApiResponse<OrderResponse>> {
         const order = await this.prisma.order.findUnique({
             where: { id: orderId },
+            include: { items: true },
         });
 
         if (!order) {
             throw new OrderNotFoundException();
         }
 
-        const updated = await this.prisma.order.update({
-            where: { id: orderId },
-            data: { status: dto.status },
-            include: { items: true },
+        if (!canTransitionOrder(order.status, dto.status)) {
+            throw new BadRequestException(
+                MESSAGES.ORDER.STATUS_TRANSITION_NOT_ALLOWED(order.status, dto.status),
+            );
+        }
+
+        const updated = await this.prisma.$transaction(async (tx) => {
+            // A cancelled order gives back its stock and coupon, as a customer cancel does
+            if (dto.status === 'CANCELLED') {
+                const applied = await this.cancelWithinStatuses(
+                    tx,
+                    order,
+                    ['PENDING', 'CONFIRMED', 'PROCESSING'],
+                    adminId,
+                );
+
+                if (!applied) {
+                    throw new OrderCancelNotAllowedException();
+                }
+
+                return tx.order.findUniqueOrThrow({
+                    where: { id: orderId },
+                    include: { items: true },
+                });
+            }
+
+            // Only applies if nothing else moved the order since it was read
+            const { count } = await tx.order.updateMany({
+                where: { id: orderId, status: order.status },
+                data: { status: dto.status },
+            });
+
+            if (count === 0) {
+                throw new BadRequestException(MESSAGES.ORDER.STATUS_CHANGED);
+            }
+
+            return tx.order.findUniqueOrThrow({
+                where: { id: orderId },
+                include: { items: true },
+            });
         });
 
         this.logger.log(`Order ${order.orderNumber} status updated to ${dto.status}`);
@@ -1,12 +1,15 @@
 // Orders Zod Schemas
 
 import { z } from 'zod';
+import { shippingMethodSchema } from '../../shipping/schemas';
 
 /**
  * Create order (checkout) schema
  */
 export const createOrderSchema = z.object({
     addressId: z.string().uuid('Please select a shipping address'),
+    shippingMethod: shippingMethodSchema.default('STANDARD'),
+    paymentMethod: z.enum(['ONLINE', 'CASH_ON_DELIVERY', 'BANK_TRANSFER']).default('ONLINE'),
     notes: z.string().max(500).optional(),
 });
 
@@ -3,16 +3,28 @@
 import {
     Controller,
     Get,
+    Post,
     Put,
     Param,
     Query,
+    Body,
     UseGuards,
 } from '@nestjs/common';
 import { PaymentsService } from './payments.service';
-import { listPaymentsQuerySchema } from './schemas';
-import type { ListPaymentsQueryDto } from './schemas';
+import { RefundsService } from './refunds.service';
+import {
+    listPaymentsQuerySchema,
+    refundPaymentSchema,
+    markPaymentReceivedSchema,
+} from './schemas';
+import type {
+    ListPaymentsQueryDto,
+    RefundPaymentDto,
+    MarkPaymentReceivedDto,
+} from './schemas';
 import { JwtAuthGuard, RolesGuard } from '../auth/guards';
-import { Roles } from '../../common/decorators';
+import { Roles, CurrentUser } from '../../common/decorators';
+import type { RequestUser } from '../../common/types';
 import { ZodValidationPipe } from '../../common/pipes';
 import { uuidSchema } from '../../common/schemas';
 
@@ -20,7 +32,10 @@ import { uuidSchema } from '../../common/schemas';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Roles('ADMIN', 'SUPER_ADMIN')
 export class AdminPaymentsController {
-    constructor(private readonly paymentsService: PaymentsService) { }
+    constructor(
+        private readonly paymentsService: PaymentsService,
+        private readonly refundsService: RefundsService,
+    ) { }
 
     /**
      * List all payments
@@ -33,6 +48,30 @@ export class AdminPaymentsController {
         return this.paymentsService.findAll(query);
     }
 
+    /**
+     * Mark a cash-on-delivery or bank transfer payment as received
+     * POST /api/v1/admin/payments/orders/:orderId/received
+     */
+    @Post('orders/:orderId/received')
+    async markReceived(
+        @CurrentUser() user: RequestUser,
+        @Param('orderId', new ZodValidationPipe(uuidSchema)) orderId: string,
+        @Body(new ZodValidationPipe(markPaymentReceivedSchema)) dto: MarkPaymentReceivedDto,
+    ) {
+        return this.paymentsService.markReceived(orderId, user.id, dto);
+    }
+
+    /**
+     * Check a pending refund with the payment provider
+     * POST /api/v1/admin/payments/refunds/:refundId/verify
+     */
+    @Post('refunds/:refundId/verify')
+    async verifyRefund(
+        @Param('refundId', new ZodValidationPipe(uuidSchema)) refundId: string,
+    ) {
+        return this.refundsService.verifyRefund(refundId);
+    }
+
     /**
      * Get payment by ID
      * GET /api/v1/admin/payments/:id
@@ -45,13 +84,15 @@ export class AdminPaymentsController {
     }
 
     /**
-     * Initiate refund
+     * Refund a payment in full or in part
      * PUT /api/v1/admin/payments/:id/refund
      */
     @Put(':id/refund')
-    async initiateRefund(
+    async refund(
+        @CurrentUser() user: RequestUser,
         @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Body(new ZodValidationPipe(refundPaymentSchema)) dto: RefundPaymentDto,
     ) {
-        return this.paymentsService.initiateRefund(id);
+        return this.refundsService.refund(id, user.id, dto);
     }
 }
@@ -1,6 +1,9 @@
 export * from './payments.module';
 export * from './payments.service';
+export * from './payments-reconciliation.service';
+export * from './refunds.service';
 export * from './payments.controller';
 export * from './payments-webhook.controller';
 export * from './admin-payments.controller';
+export * from './providers';
 export * from './schemas';
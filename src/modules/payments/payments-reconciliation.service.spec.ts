@@ -0,0 +1,97 @@
+import { PaymentsReconciliationService } from './payments-reconciliation.service';
+import type { PaymentsService } from './payments.service';
+import type { RefundsService } from './refunds.service';
+import type { PrismaService } from '../../prisma';
+
+describe('PaymentsReconciliationService', () => {
+  const now = new Date('2026-10-19T12:00:00Z');
+  let prisma: { payment: { findMany: jest.Mock } };
+  let paymentsService: { syncWithProvider: jest.Mock; applyPaymentStatus: jest.Mock };
+  let service: PaymentsReconciliationService;
+
+  const payment = (id: string) => ({ id, reference: `PAY-${id}`, provider: 'OPAY', amount: 12500, status: 'PENDING' });
+
+  // What the provider reports for each payment, as syncWithProvider returns it
+  const providerReports = (reports: Record<string, { applied: boolean; status: string } | Error>) => {
+    paymentsService.syncWithProvider.mockImplementation(({ id }: { id: string }) => {
+      const report = reports[id];
+      if (report instanceof Error) return Promise.reject(report);
+      return Promise.resolve({ applied: report.applied, payment: { id, status: report.status }, providerStatus: '' });
+    });
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    prisma = { payment: { findMany: jest.fn().mockResolvedValue([payment('1')]) } };
+    paymentsService = {
+      syncWithProvider: jest.fn(),
+      applyPaymentStatus: jest.fn().mockResolvedValue({ applied: true }),
+    };
+    service = new PaymentsReconciliationService(
+      prisma as unknown as PrismaService,
+      paymentsService as unknown as PaymentsService,
+      {} as RefundsService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('reconcileStalePayments', () => {
+    it('only picks up payments pending past the reconciliation window', async () => {
+      providerReports({ '1': { applied: false, status: 'PENDING' } });
+
+      await service.reconcileStalePayments();
+
+      expect(prisma.payment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: 'PENDING', createdAt: { lt: new Date('2026-10-19T11:15:00Z') } },
+        }),
+      );
+    });
+
+    it('fails a payment the provider still reports as pending', async () => {
+      providerReports({ '1': { applied: false, status: 'PENDING' } });
+
+      await expect(service.reconcileStalePayments()).resolves.toEqual({
+        checked: 1,
+        settled: 0,
+        expired: 1,
+        errors: 0,
+      });
+      expect(paymentsService.applyPaymentStatus).toHaveBeenCalledWith('1', 'FAILED', {
+        source: 'reconciliation',
+        reason: 'Checkout session expired without payment',
+      });
+    });
+
+    it('applies what the provider settled instead of failing it', async () => {
+      providerReports({ '1': { applied: true, status: 'SUCCESS' } });
+
+      await expect(service.reconcileStalePayments()).resolves.toMatchObject({ settled: 1, expired: 0 });
+      expect(paymentsService.applyPaymentStatus).not.toHaveBeenCalled();
+    });
+
+    it('leaves a payment a webhook settled in the meantime', async () => {
+      providerReports({ '1': { applied: false, status: 'SUCCESS' } });
+
+      await expect(service.reconcileStalePayments()).resolves.toMatchObject({ settled: 0, expired: 0 });
+      expect(paymentsService.applyPaymentStatus).not.toHaveBeenCalled();
+    });
+
+    it('carries on past a payment the provider could not be asked about', async () => {
+      prisma.payment.findMany.mockResolvedValue([payment('1'), payment('2')]);
+      providerReports({ '1': new Error('OPay request timed out'), '2': { applied: false, status: 'PENDING' } });
+
+      await expect(service.reconcileStalePayments()).resolves.toEqual({
+        checked: 2,
+        settled: 0,
+        expired: 1,
+        errors: 1,
+      });
+      expect(paymentsService.applyPaymentStatus).toHaveBeenCalledTimes(1);
+      expect(paymentsService.applyPaymentStatus).toHaveBeenCalledWith('2', 'FAILED', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,154 @@
+// Payments Reconciliation Service - settles payments whose webhook never arrived
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../../prisma';
+import { PaymentsService } from './payments.service';
+import { RefundsService } from './refunds.service';
+import { APP_CONSTANTS } from '../../common/constants';
+
+export interface ReconciliationResult {
+    checked: number;
+    settled: number;
+    expired: number;
+    errors: number;
+}
+
+export interface RefundReconciliationResult {
+    checked: number;
+    succeeded: number;
+    failed: number;
+    errors: number;
+}
+
+@Injectable()
+export class PaymentsReconciliationService {
+    private readonly logger = new Logger(PaymentsReconciliationService.name);
+    private running = false;
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly paymentsService: PaymentsService,
+        private readonly refundsService: RefundsService,
+    ) { }
+
+    /**
+     * Sweep stale pending payments and refunds every 10 minutes
+     */
+    @Cron(CronExpression.EVERY_10_MINUTES, { name: 'payments-reconciliation' })
+    async handleCron(): Promise<void> {
+        // Skip a tick rather than overlap with a slow previous run
+        if (this.running) {
+            return;
+        }
+
+        this.running = true;
+        try {
+            await this.reconcileStalePayments();
+            await this.reconcilePendingRefunds();
+        } finally {
+            this.running = false;
+        }
+    }
+
+    /**
+     * Ask the provider about pending payments older than the reconciliation window
+     * Payments the provider settled are applied; ones still open after their session expired are failed
+     */
+    async reconcileStalePayments(): Promise<ReconciliationResult> {
+        const cutoff = new Date(
+            Date.now() - APP_CONSTANTS.PAYMENT_RECONCILIATION_MINUTES * 60 * 1000,
+        );
+
+        const stalePayments = await this.prisma.payment.findMany({
+            where: { status: 'PENDING', createdAt: { lt: cutoff } },
+            orderBy: { createdAt: 'asc' },
+            take: APP_CONSTANTS.PAYMENT_RECONCILIATION_BATCH,
+        });
+
+        const result: ReconciliationResult = {
+            checked: stalePayments.length,
+            settled: 0,
+            expired: 0,
+            errors: 0,
+        };
+
+        for (const payment of stalePayments) {
+            try {
+                const { applied, payment: synced } = await this.paymentsService.syncWithProvider(payment);
+
+                if (applied) {
+                    result.settled++;
+                    continue;
+                }
+
+                if (synced.status === 'PENDING') {
+                    await this.paymentsService.applyPaymentStatus(payment.id, 'FAILED', {
+                        source: 'reconciliation',
+                        reason: 'Checkout session expired without payment',
+                    });
+                    result.expired++;
+                }
+            } catch (error) {
+                result.errors++;
+                this.logger.warn(
+                    `Could not reconcile payment ${payment.reference}: ${(error as Error).message}`,
+                );
+            }
+        }
+
+        if (result.checked > 0) {
+            this.logger.log(
+                `Reconciled ${result.checked} payment(s): ${result.settled} settled, ${result.expired} expired, ${result.errors} error(s)`,
+            );
+        }
+
+        return result;
+    }
+
+    /**
+     * Ask the provider about refunds still pending after the reconciliation window
+     * Refunds the provider paid out or rejected are settled; the rest are checked again next run
+     */
+    async reconcilePendingRefunds(): Promise<RefundReconciliationResult> {
+        const cutoff = new Date(
+            Date.now() - APP_CONSTANTS.REFUND_RECONCILIATION_MINUTES * 60 * 1000,
+        );
+
+        const pendingRefunds = await this.prisma.refund.findMany({
+            where: { status: 'PENDING', createdAt: { lt: cutoff } },
+            include: { payment: { select: { provider: true } } },
+            orderBy: { createdAt: 'asc' },
+            take: APP_CONSTANTS.PAYMENT_RECONCILIATION_BATCH,
+        });
+
+        const result: RefundReconciliationResult = {
+            checked: pendingRefunds.length,
+            succeeded: 0,
+            failed: 0,
+            errors: 0,
+        };
+
+        for (const refund of pendingRefunds) {
+            try {
+                const synced = await this.refundsService.syncWithProvider(refund);
+
+                if (synced.status === 'SUCCESS') result.succeeded++;
+                if (synced.status === 'FAILED') result.failed++;
+            } catch (error) {
+                result.errors++;
+                this.logger.warn(
+                    `Could not reconcile refund ${refund.reference}: ${(error as Error).message}`,
+                );
+            }
+        }
+
+        if (result.checked > 0) {
+            this.logger.log(
+                `Reconciled ${result.checked} refund(s): ${result.succeeded} succeeded, ${result.failed} failed, ${result.errors} error(s)`,
+            );
+        }
+
+        return result;
+    }
+}
@@ -3,14 +3,17 @@
 import {
     Controller,
     Post,
-    Body,
+    Param,
     Headers,
     HttpCode,
     HttpStatus,
+    Req,
 } from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
 import { PaymentsService } from './payments.service';
-import { opayWebhookSchema } from './schemas';
-import type { OPayWebhookDto } from './schemas';
+import { webhookProviderSchema } from './schemas';
+import type { WebhookProviderParam } from './schemas';
 import { Public } from '../../common/decorators';
 import { ZodValidationPipe } from '../../common/pipes';
 
@@ -20,20 +23,16 @@ export class PaymentsWebhookController {
     constructor(private readonly paymentsService: PaymentsService) { }
 
     /**
-     * OPay webhook callback
-     * POST /api/v1/webhooks/payments/opay
+     * Payment provider webhook callback (opay | paystack)
+     * POST /api/v1/webhooks/payments/:provider
      */
-    @Post('opay')
+    @Post(':provider')
     @HttpCode(HttpStatus.OK)
-    async handleOPayWebhook(
-        @Body(new ZodValidationPipe(opayWebhookSchema)) dto: OPayWebhookDto,
-        @Headers('x-opay-signature') signature?: string,
+    async handleWebhook(
+        @Param('provider', new ZodValidationPipe(webhookProviderSchema)) provider: WebhookProviderParam,
+        @Req() req: RawBodyRequest<Request>,
+        @Headers() headers: Record<string, string | undefined>,
     ) {
-        // In production, verify the webhook signature
-        // For now, we'll process the webhook directly
-        return this.paymentsService.handleWebhook({
-            ...dto,
-            signature,
-        });
+        return this.paymentsService.handleWebhook(provider, req.rawBody, headers);
     }
 }
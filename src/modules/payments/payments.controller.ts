@@ -12,7 +12,7 @@ import { PaymentsService } from './payments.service';
 import { initializePaymentSchema } from './schemas';
 import type { InitializePaymentDto } from './schemas';
 import { JwtAuthGuard } from '../auth/guards';
-import { CurrentUser, Public } from '../../common/decorators';
+import { CurrentUser } from '../../common/decorators';
 import { ZodValidationPipe } from '../../common/pipes';
 import { uuidSchema } from '../../common/schemas';
 
@@ -53,12 +53,15 @@ export class PaymentsController {
     }
 
     /**
-     * Verify payment by reference
+     * Verify one of the user's payments by reference
      * GET /api/v1/payments/verify/:reference
      */
     @Get('verify/:reference')
-    @Public()
-    async verifyPayment(@Param('reference') reference: string) {
-        return this.paymentsService.getPaymentByReference(reference);
+    @UseGuards(JwtAuthGuard)
+    async verifyPayment(
+        @CurrentUser() user: AuthUser,
+        @Param('reference') reference: string,
+    ) {
+        return this.paymentsService.verifyPayment(user.id, reference);
     }
 }
@@ -5,10 +5,28 @@ import { PaymentsController } from './payments.controller';
 import { PaymentsWebhookController } from './payments-webhook.controller';
 import { AdminPaymentsController } from './admin-payments.controller';
 import { PaymentsService } from './payments.service';
+import { PaymentsReconciliationService } from './payments-reconciliation.service';
+import { RefundsService } from './refunds.service';
+import { InventoryModule } from '../inventory/inventory.module';
+import {
+    OPayClient,
+    OPayGateway,
+    PaystackGateway,
+    PaymentGatewayRegistry,
+} from './providers';
 
 @Module({
+    imports: [InventoryModule],
     controllers: [PaymentsController, PaymentsWebhookController, AdminPaymentsController],
-    providers: [PaymentsService],
+    providers: [
+        PaymentsService,
+        PaymentsReconciliationService,
+        RefundsService,
+        OPayClient,
+        OPayGateway,
+        PaystackGateway,
+        PaymentGatewayRegistry,
+    ],
     exports: [PaymentsService],
 })
 export class PaymentsModule { }
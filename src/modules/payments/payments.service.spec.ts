@@ -0,0 +1,134 @@
+import type { ConfigService } from '@nestjs/config';
+import { PaymentsService } from './payments.service';
+import type { RefundsService } from './refunds.service';
+import type { PaymentGatewayRegistry } from './providers';
+import type { InventoryService } from '../inventory/inventory.service';
+import type { PrismaService } from '../../prisma';
+
+interface FakeState {
+  payment: { id: string; orderId: string; reference: string; status: string; refundRequired: boolean };
+  order: { id: string; orderNumber: string; status: string; couponId: string | null };
+  couponUses: number;
+}
+
+/**
+ * In-memory stand-in for one payment and its order
+ * Guarded updates only apply when the row still has the expected status
+ */
+function createFakePrisma(state: FakeState) {
+  const prisma = {
+    $transaction: (callback: (tx: unknown) => Promise<unknown>) => callback(prisma),
+    payment: {
+      findUniqueOrThrow: () => Promise.resolve({ ...state.payment }),
+      updateMany: ({ where, data }: { where: { status: string }; data: { status: string } }) => {
+        if (state.payment.status !== where.status) return Promise.resolve({ count: 0 });
+        state.payment.status = data.status;
+        return Promise.resolve({ count: 1 });
+      },
+      update: ({ data }: { data: { refundRequired: boolean } }) => {
+        state.payment.refundRequired = data.refundRequired;
+        return Promise.resolve(state.payment);
+      },
+    },
+    order: {
+      findUniqueOrThrow: () => Promise.resolve({ ...state.order }),
+      updateMany: ({ where, data }: { where: { status: string }; data: { status: string } }) => {
+        if (state.order.status !== where.status) return Promise.resolve({ count: 0 });
+        state.order.status = data.status;
+        return Promise.resolve({ count: 1 });
+      },
+      update: ({ data }: { data: { status: string } }) => {
+        state.order.status = data.status;
+        return Promise.resolve(state.order);
+      },
+    },
+    coupon: {
+      update: () => {
+        state.couponUses++;
+        return Promise.resolve({});
+      },
+    },
+  };
+
+  return prisma;
+}
+
+describe('PaymentsService', () => {
+  let state: FakeState;
+  let inventoryService: { commit: jest.Mock; reclaim: jest.Mock };
+  let refundsService: { refundUnfulfilled: jest.Mock };
+  let service: PaymentsService;
+
+  beforeEach(() => {
+    state = {
+      payment: { id: 'payment-1', orderId: 'order-1', reference: 'PAY-1', status: 'PENDING', refundRequired: false },
+      order: { id: 'order-1', orderNumber: 'VT-1', status: 'PENDING', couponId: 'coupon-1' },
+      couponUses: 0,
+    };
+    inventoryService = { commit: jest.fn(), reclaim: jest.fn() };
+    refundsService = { refundUnfulfilled: jest.fn().mockResolvedValue({}) };
+    service = new PaymentsService(
+      createFakePrisma(state) as unknown as PrismaService,
+      {} as ConfigService,
+      {} as PaymentGatewayRegistry,
+      inventoryService as unknown as InventoryService,
+      refundsService as unknown as RefundsService,
+    );
+  });
+
+  describe('payments racing order expiry', () => {
+    it('confirms a pending order and commits its reservations', async () => {
+      const { applied } = await service.applyPaymentStatus('payment-1', 'SUCCESS', {});
+
+      expect(applied).toBe(true);
+      expect(state.order.status).toBe('CONFIRMED');
+      expect(inventoryService.commit).toHaveBeenCalledWith(expect.anything(), 'order-1');
+      expect(inventoryService.reclaim).not.toHaveBeenCalled();
+    });
+
+    it('revives an expired order whose stock is still there', async () => {
+      state.order.status = 'CANCELLED';
+      inventoryService.reclaim.mockResolvedValue(true);
+
+      await service.applyPaymentStatus('payment-1', 'SUCCESS', {});
+
+      expect(state.order.status).toBe('CONFIRMED');
+      expect(state.couponUses).toBe(1);
+      expect(inventoryService.commit).not.toHaveBeenCalled();
+      expect(state.payment.refundRequired).toBe(false);
+      expect(refundsService.refundUnfulfilled).not.toHaveBeenCalled();
+    });
+
+    it('refunds a late payment when the expired order sold out', async () => {
+      state.order.status = 'CANCELLED';
+      inventoryService.reclaim.mockResolvedValue(false);
+
+      await service.applyPaymentStatus('payment-1', 'SUCCESS', {});
+
+      expect(state.order.status).toBe('CANCELLED');
+      expect(state.payment).toMatchObject({ status: 'SUCCESS', refundRequired: true });
+      expect(refundsService.refundUnfulfilled).toHaveBeenCalledWith('payment-1');
+    });
+
+    it('keeps the refund flag when the automatic refund fails', async () => {
+      state.order.status = 'CANCELLED';
+      inventoryService.reclaim.mockResolvedValue(false);
+      refundsService.refundUnfulfilled.mockRejectedValue(new Error('provider down'));
+
+      const { applied } = await service.applyPaymentStatus('payment-1', 'SUCCESS', {});
+
+      expect(applied).toBe(true);
+      expect(state.payment.refundRequired).toBe(true);
+    });
+
+    it('applies a payment only once when two reports race', async () => {
+      const [first, second] = await Promise.all([
+        service.applyPaymentStatus('payment-1', 'SUCCESS', { source: 'webhook' }),
+        service.applyPaymentStatus('payment-1', 'SUCCESS', { source: 'verification' }),
+      ]);
+
+      expect([first.applied, second.applied].sort()).toEqual([false, true]);
+      expect(inventoryService.commit).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,19 +1,30 @@
-// Payments Service - OPay Integration
+// Payments Service - provider-agnostic payment lifecycle
 
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../../prisma';
+import type { PrismaTransactionClient } from '../../prisma';
+import { InventoryService } from '../inventory/inventory.service';
+import { RefundsService } from './refunds.service';
+import { PaymentGatewayRegistry } from './providers';
+import type {
+    GatewayCheckout,
+    GatewayWebhookEvent,
+    PaymentGatewayName,
+} from './providers';
 import type {
     InitializePaymentDto,
-    OPayWebhookDto,
+    MarkPaymentReceivedDto,
     ListPaymentsQueryDto,
 } from './schemas';
 import type { ApiResponse, PaginatedResult } from '../../common/types';
-import { MESSAGES } from '../../common/constants';
+import { APP_CONSTANTS, MESSAGES } from '../../common/constants';
 import {
+    BadRequestException,
     OrderNotFoundException,
     PaymentFailedException,
     PaymentAlreadyPaidException,
+    InvalidWebhookSignatureException,
 } from '../../common/filters';
 import {
     successResponse,
@@ -22,6 +33,7 @@ import {
     createPaginatedResult,
     calculatePagination,
     generatePaymentReference,
+    canTransitionPayment,
 } from '../../common/helpers';
 
 // Payment response types
@@ -33,6 +45,8 @@ export interface PaymentResponse {
     amount: unknown;
     status: string;
     providerRef: string | null;
+    checkoutUrl: string | null;
+    expiresAt: Date | null;
     paidAt: Date | null;
     createdAt: Date;
     updatedAt: Date;
@@ -47,20 +61,14 @@ export interface PaymentInitResponse {
 @Injectable()
 export class PaymentsService {
     private readonly logger = new Logger(PaymentsService.name);
-    private readonly opayBaseUrl: string;
-    private readonly opayMerchantId: string;
-    private readonly opaySecretKey: string;
-    private readonly callbackUrl: string;
 
     constructor(
         private readonly prisma: PrismaService,
         private readonly configService: ConfigService,
-    ) {
-        this.opayBaseUrl = this.configService.get<string>('opay.baseUrl') || 'https://cashierapi.opayweb.com/api/v3';
-        this.opayMerchantId = this.configService.get<string>('opay.merchantId') || '';
-        this.opaySecretKey = this.configService.get<string>('opay.secretKey') || '';
-        this.callbackUrl = this.configService.get<string>('opay.callbackUrl') || '';
-    }
+        private readonly gatewayRegistry: PaymentGatewayRegistry,
+        private readonly inventoryService: InventoryService,
+        private readonly refundsService: RefundsService,
+    ) { }
 
     /**
      * Initialize payment for an order
@@ -72,51 +80,124 @@ export class PaymentsService {
         // Verify order exists and belongs to user
         const order = await this.prisma.order.findFirst({
             where: { id: dto.orderId, userId },
-            include: { payments: true },
+            include: {
+                payments: true,
+                user: { select: { email: true, firstName: true, lastName: true, phone: true } },
+                _count: { select: { items: true } },
+            },
         });
 
         if (!order) {
             throw new OrderNotFoundException();
         }
 
+        if (order.paymentMethod !== 'ONLINE') {
+            throw new BadRequestException(MESSAGES.PAYMENT.OFFLINE_METHOD);
+        }
+
+        // Expired orders have released their stock and must be placed again
+        if (['CANCELLED', 'REFUNDED'].includes(order.status)) {
+            throw new BadRequestException(MESSAGES.PAYMENT.ORDER_CLOSED);
+        }
+
         // Check if order is already paid
         const successPayment = order.payments.find((p) => p.status === 'SUCCESS');
         if (successPayment) {
             throw new PaymentAlreadyPaidException();
         }
 
-        // Check for pending payment
+        const gateway = this.gatewayRegistry.get(dto.provider);
+
+        // Reuse a pending checkout session with the same provider while it is still open
+        const now = new Date();
         const pendingPayment = order.payments.find((p) => p.status === 'PENDING');
-        if (pendingPayment) {
-            // Return existing pending payment
+        if (
+            pendingPayment?.provider === dto.provider &&
+            pendingPayment.checkoutUrl &&
+            pendingPayment.expiresAt &&
+            pendingPayment.expiresAt > now
+        ) {
             return successResponse({
                 payment: pendingPayment,
-                paymentUrl: this.generatePaymentUrl(pendingPayment.reference, Number(order.total)),
+                paymentUrl: pendingPayment.checkoutUrl,
                 reference: pendingPayment.reference,
             });
         }
 
+        // An expired session, or one with another provider, is abandoned in favour of a new one
+        if (pendingPayment) {
+            await this.prisma.payment.update({
+                where: { id: pendingPayment.id },
+                data: { status: 'FAILED' },
+            });
+        }
+
         // Create new payment record
         const reference = generatePaymentReference();
         const payment = await this.prisma.payment.create({
             data: {
                 orderId: order.id,
                 reference,
-                provider: 'OPAY',
+                provider: gateway.name,
                 amount: order.total,
                 status: 'PENDING',
             },
         });
 
-        // Generate payment URL (in production, this would call OPay API)
-        const paymentUrl = this.generatePaymentUrl(reference, Number(order.total));
+        // Hold the stock until the session closes and late webhooks have had time to arrive,
+        // before handing the customer to the provider
+        const expiresAt = new Date(
+            now.getTime() + APP_CONSTANTS.PAYMENT_SESSION_MINUTES * 60 * 1000,
+        );
+        await this.inventoryService.extend(
+            order.id,
+            new Date(expiresAt.getTime() + APP_CONSTANTS.PAYMENT_SETTLEMENT_GRACE_MINUTES * 60 * 1000),
+        );
+
+        const frontendUrl = this.configService.get<string>('app.frontendUrl') || 'http://localhost:5173';
 
-        this.logger.log(`Payment initialized for order ${order.orderNumber}: ${reference}`);
+        let checkout: GatewayCheckout;
+        try {
+            checkout = await gateway.initialize({
+                reference,
+                amount: Number(order.total),
+                customer: {
+                    userId,
+                    email: order.user.email,
+                    name: `${order.user.firstName} ${order.user.lastName}`,
+                    phone: order.user.phone,
+                },
+                description: `Order ${order.orderNumber}`,
+                itemCount: order._count.items,
+                returnUrl: `${frontendUrl}/payment/complete?ref=${reference}`,
+                cancelUrl: `${frontendUrl}/payment/cancelled?ref=${reference}`,
+                expireMinutes: APP_CONSTANTS.PAYMENT_SESSION_MINUTES,
+            });
+        } catch (error) {
+            await this.prisma.payment.update({
+                where: { id: payment.id },
+                data: { status: 'FAILED' },
+            });
+            throw error;
+        }
+
+        const updatedPayment = await this.prisma.payment.update({
+            where: { id: payment.id },
+            data: {
+                providerRef: checkout.providerRef,
+                checkoutUrl: checkout.checkoutUrl,
+                expiresAt,
+            },
+        });
+
+        this.logger.log(
+            `Payment initialized with ${gateway.name} for order ${order.orderNumber}: ${reference}`,
+        );
 
         return createdResponse(
             {
-                payment,
-                paymentUrl,
+                payment: updatedPayment,
+                paymentUrl: checkout.checkoutUrl,
                 reference,
             },
             MESSAGES.PAYMENT.INITIATED,
@@ -124,64 +205,293 @@ export class PaymentsService {
     }
 
     /**
-     * Generate OPay payment URL
-     * In production, this would create a checkout session via OPay API
+     * Handle a payment provider webhook
+     * The gateway verifies the signature; events are deduplicated by ID and only allowed transitions apply
      */
-    private generatePaymentUrl(reference: string, amount: number): string {
-        // This is a simplified version - in production you'd call OPay API
-        // to create a checkout session and return the actual payment URL
-        const baseUrl = this.configService.get<string>('app.frontendUrl') || 'http://localhost:3000';
-        return `${baseUrl}/payment?ref=${reference}&amount=${amount}`;
-    }
+    async handleWebhook(
+        provider: PaymentGatewayName,
+        rawBody: Buffer | undefined,
+        headers: Record<string, string | undefined>,
+    ): Promise<ApiResponse<PaymentResponse | null>> {
+        if (!rawBody) {
+            throw new InvalidWebhookSignatureException();
+        }
+
+        let event: GatewayWebhookEvent | null;
+        try {
+            event = this.gatewayRegistry.get(provider).verifyWebhook(rawBody, headers);
+        } catch (error) {
+            this.logger.warn(`Rejected ${provider} webhook: ${(error as Error).message}`);
+            throw error;
+        }
+
+        if (!event) {
+            return successResponse(null, MESSAGES.PAYMENT.WEBHOOK_UNHANDLED);
+        }
+
+        const { eventId, reference } = event;
+        const eventKey = { provider_eventId: { provider, eventId } };
+
+        const existingEvent = await this.prisma.webhookEvent.findUnique({
+            where: eventKey,
+        });
+
+        if (existingEvent && ['PROCESSED', 'IGNORED'].includes(existingEvent.status)) {
+            this.logger.log(`Duplicate ${provider} webhook ${eventId} for ${reference} skipped`);
+            return successResponse(null, MESSAGES.PAYMENT.WEBHOOK_DUPLICATE);
+        }
+
+        await this.prisma.webhookEvent.upsert({
+            where: eventKey,
+            create: { provider, eventId, reference, payload: event.payload },
+            update: { status: 'RECEIVED', error: null },
+        });
+
+        if (event.type === 'refund') {
+            const applied = await this.refundsService.applyWebhookEvent(event);
+            await this.markWebhookEvent(provider, eventId, applied ? 'PROCESSED' : 'IGNORED');
+
+            return successResponse(
+                null,
+                applied ? MESSAGES.PAYMENT.REFUND_STATUS_UPDATED : MESSAGES.PAYMENT.WEBHOOK_UNHANDLED,
+            );
+        }
 
-    /**
-     * Handle OPay webhook callback
-     */
-    async handleWebhook(dto: OPayWebhookDto): Promise<ApiResponse<PaymentResponse>> {
         const payment = await this.prisma.payment.findUnique({
-            where: { reference: dto.reference },
+            where: { reference },
             include: { order: true },
         });
 
-        if (!payment) {
+        if (!payment || payment.provider !== provider) {
+            await this.markWebhookEvent(provider, eventId, 'FAILED', 'Unknown payment reference');
             throw new PaymentFailedException();
         }
 
         // Verify amount matches
-        if (Number(payment.amount) !== dto.amount) {
-            this.logger.error(`Payment amount mismatch for ${dto.reference}`);
+        if (Number(payment.amount) !== event.amount) {
+            this.logger.error(`Payment amount mismatch for ${reference}`);
+            await this.markWebhookEvent(provider, eventId, 'FAILED', 'Amount mismatch');
             throw new PaymentFailedException();
         }
 
-        // Update payment status
-        const updatedPayment = await this.prisma.$transaction(async (tx) => {
-            const updated = await tx.payment.update({
-                where: { id: payment.id },
+        const { payment: updatedPayment, applied } = await this.applyPaymentStatus(
+            payment.id,
+            event.status,
+            event.payload,
+        );
+
+        await this.markWebhookEvent(provider, eventId, applied ? 'PROCESSED' : 'IGNORED');
+
+        if (!applied) {
+            return successResponse(
+                updatedPayment,
+                MESSAGES.PAYMENT.STATUS_CHANGE_IGNORED(payment.status, event.status),
+            );
+        }
+
+        return updatedResponse(
+            updatedPayment,
+            event.status === 'SUCCESS' ? MESSAGES.PAYMENT.SUCCESS : MESSAGES.PAYMENT.FAILED,
+        );
+    }
+
+    /**
+     * Move a payment to a provider-reported status if the state machine allows it
+     * Shared by webhooks, verification and reconciliation
+     */
+    async applyPaymentStatus(
+        paymentId: string,
+        status: 'PENDING' | 'SUCCESS' | 'FAILED',
+        metadata: Record<string, string | number | boolean | null | undefined>,
+    ): Promise<{ payment: PaymentResponse; applied: boolean }> {
+        const payment = await this.prisma.payment.findUniqueOrThrow({
+            where: { id: paymentId },
+        });
+
+        // Replays and out-of-order callbacks must never move a payment backwards
+        if (!canTransitionPayment(payment.status, status)) {
+            if (payment.status !== status) {
+                this.logger.warn(
+                    `Ignored status change for ${payment.reference}: ${payment.status} -> ${status}`,
+                );
+            }
+            return { payment, applied: false };
+        }
+
+        const result = await this.prisma.$transaction(async (tx) => {
+            // Guard on the status we checked, so a webhook, a verification and reconciliation
+            // handling the same payment at once apply it only once
+            const { count } = await tx.payment.updateMany({
+                where: { id: payment.id, status: payment.status },
                 data: {
-                    status: dto.status,
-                    providerRef: dto.reference,
-                    paidAt: dto.status === 'SUCCESS' ? new Date() : null,
-                    metadata: JSON.parse(JSON.stringify(dto)),
+                    status,
+                    paidAt: status === 'SUCCESS' ? new Date() : null,
+                    metadata,
                 },
             });
 
-            // Update order status if payment successful
-            if (dto.status === 'SUCCESS') {
-                await tx.order.update({
-                    where: { id: payment.orderId },
+            if (count === 0) {
+                return null;
+            }
+
+            let refundRequired = false;
+
+            // Update order status if payment successful - guarded so an order the sweeper
+            // cancelled meanwhile is not confirmed after its stock was released
+            if (status === 'SUCCESS') {
+                const confirmed = await tx.order.updateMany({
+                    where: { id: payment.orderId, status: 'PENDING' },
                     data: { status: 'CONFIRMED' },
                 });
+
+                if (confirmed.count === 1) {
+                    await this.inventoryService.commit(tx, payment.orderId);
+                } else {
+                    refundRequired = !(await this.reviveExpiredOrder(tx, payment.orderId));
+                }
+            }
+
+            if (refundRequired) {
+                await tx.payment.update({
+                    where: { id: payment.id },
+                    data: { refundRequired: true },
+                });
             }
 
-            return updated;
+            const saved = await tx.payment.findUniqueOrThrow({ where: { id: payment.id } });
+            return { saved, refundRequired };
         });
 
-        this.logger.log(`Payment ${dto.reference} status updated to ${dto.status}`);
+        if (!result) {
+            this.logger.warn(`Status change for ${payment.reference} lost a race: ${payment.status} -> ${status}`);
+            const current = await this.prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+            return { payment: current, applied: false };
+        }
 
-        return updatedResponse(
-            updatedPayment,
-            dto.status === 'SUCCESS' ? MESSAGES.PAYMENT.SUCCESS : MESSAGES.PAYMENT.FAILED,
-        );
+        this.logger.log(`Payment ${payment.reference} status updated to ${status}`);
+
+        if (result.refundRequired) {
+            await this.refundUnfulfilledPayment(payment.id, payment.reference);
+        }
+
+        return { payment: result.saved, applied: true };
+    }
+
+    /**
+     * Confirm an order the sweeper expired before its payment arrived, if its stock is still there
+     * Returns false when the order cannot be fulfilled - sold out since, cancelled, or already paid
+     */
+    private async reviveExpiredOrder(
+        tx: PrismaTransactionClient,
+        orderId: string,
+    ): Promise<boolean> {
+        const order = await tx.order.findUniqueOrThrow({
+            where: { id: orderId },
+            select: { orderNumber: true, status: true, couponId: true },
+        });
+
+        if (order.status !== 'CANCELLED' || !(await this.inventoryService.reclaim(tx, orderId))) {
+            return false;
+        }
+
+        await tx.order.update({
+            where: { id: orderId },
+            data: { status: 'CONFIRMED' },
+        });
+
+        // The expiry gave the coupon redemption back
+        if (order.couponId) {
+            await tx.coupon.update({
+                where: { id: order.couponId },
+                data: { usedCount: { increment: 1 } },
+            });
+        }
+
+        this.logger.log(`Order ${order.orderNumber} revived by a payment that arrived after it expired`);
+
+        return true;
+    }
+
+    /**
+     * Give the money back for a payment whose order cannot be fulfilled
+     * A failed refund leaves the payment flagged for an admin to settle
+     */
+    private async refundUnfulfilledPayment(paymentId: string, reference: string): Promise<void> {
+        this.logger.warn(`Payment ${reference} settled for an order that cannot be fulfilled - refunding`);
+
+        try {
+            await this.refundsService.refundUnfulfilled(paymentId);
+        } catch (error) {
+            this.logger.error(
+                `Automatic refund for payment ${reference} failed: ${(error as Error).message}`,
+            );
+        }
+    }
+
+    /**
+     * Ask the payment's provider for its status and apply it
+     * Returns whether the payment changed
+     */
+    async syncWithProvider(payment: {
+        id: string;
+        reference: string;
+        provider: string;
+        amount: unknown;
+    }): Promise<{ payment: PaymentResponse; applied: boolean; providerStatus: string }> {
+        const result = await this.gatewayRegistry.get(payment.provider).verify(payment.reference);
+
+        // Never settle on a provider amount that differs from what we charged
+        if (result.status === 'SUCCESS' && result.amount !== Number(payment.amount)) {
+            this.logger.error(`Payment amount mismatch for ${payment.reference} on verification`);
+            throw new PaymentFailedException();
+        }
+
+        const applied = await this.applyPaymentStatus(payment.id, result.status, {
+            source: 'verification',
+            providerStatus: result.providerStatus,
+            providerRef: result.providerRef,
+            amount: result.amount,
+        });
+
+        return { ...applied, providerStatus: result.providerStatus };
+    }
+
+    /**
+     * Record the outcome of a webhook event
+     */
+    private async markWebhookEvent(
+        provider: PaymentGatewayName,
+        eventId: string,
+        status: 'PROCESSED' | 'IGNORED' | 'FAILED',
+        error?: string,
+    ): Promise<void> {
+        await this.prisma.webhookEvent.update({
+            where: { provider_eventId: { provider, eventId } },
+            data: { status, error, processedAt: new Date() },
+        });
+    }
+
+    /**
+     * Verify one of the user's payments against its provider and settle it if the webhook was missed
+     */
+    async verifyPayment(userId: string, reference: string): Promise<ApiResponse<PaymentResponse>> {
+        const payment = await this.prisma.payment.findFirst({
+            where: { reference, order: { userId } },
+        });
+
+        if (!payment) {
+            throw new PaymentFailedException();
+        }
+
+        // Only open payments need the provider; settled ones are answered from our records
+        if (payment.status === 'PENDING') {
+            const { applied } = await this.syncWithProvider(payment);
+            if (applied) {
+                this.logger.log(`Payment ${reference} settled by verification`);
+            }
+        }
+
+        return this.getPaymentByReference(reference);
     }
 
     /**
@@ -226,12 +536,13 @@ export class PaymentsService {
     async findAll(
         query: ListPaymentsQueryDto,
     ): Promise<ApiResponse<PaginatedResult<PaymentResponse>>> {
-        const { page, limit, status, orderId } = query;
+        const { page, limit, status, orderId, refundRequired } = query;
         const { skip, take } = calculatePagination(page, limit);
 
         const where: Record<string, unknown> = {};
         if (status) where.status = status;
         if (orderId) where.orderId = orderId;
+        if (refundRequired !== undefined) where.refundRequired = refundRequired;
 
         const [payments, total] = await Promise.all([
             this.prisma.payment.findMany({
@@ -252,6 +563,80 @@ export class PaymentsService {
         return successResponse(result);
     }
 
+    /**
+     * Record a cash-on-delivery or bank transfer payment as received (admin)
+     * Transfer orders are confirmed once their payment is recorded
+     */
+    async markReceived(
+        orderId: string,
+        adminId: string,
+        dto: MarkPaymentReceivedDto,
+    ): Promise<ApiResponse<PaymentResponse>> {
+        const order = await this.prisma.order.findUnique({
+            where: { id: orderId },
+        });
+
+        if (!order) {
+            throw new OrderNotFoundException();
+        }
+
+        if (order.paymentMethod === 'ONLINE') {
+            throw new BadRequestException(MESSAGES.PAYMENT.ONLINE_METHOD);
+        }
+
+        const paidAt = dto.receivedAt ?? new Date();
+
+        const payment = await this.prisma.$transaction(async (tx) => {
+            // Lock the order so a second click, or the sweeper, waits for this payment and then sees it
+            await tx.$queryRaw`SELECT id FROM orders WHERE id = ${order.id} FOR UPDATE`;
+
+            const current = await tx.order.findUniqueOrThrow({
+                where: { id: order.id },
+                include: { payments: { where: { status: 'SUCCESS' } } },
+            });
+
+            if (current.payments.length > 0) {
+                throw new PaymentAlreadyPaidException();
+            }
+
+            if (['CANCELLED', 'REFUNDED'].includes(current.status)) {
+                throw new BadRequestException(MESSAGES.PAYMENT.ORDER_CLOSED);
+            }
+
+            const created = await tx.payment.create({
+                data: {
+                    orderId: order.id,
+                    reference: generatePaymentReference(),
+                    provider: 'MANUAL',
+                    amount: order.total,
+                    status: 'SUCCESS',
+                    paidAt,
+                    metadata: {
+                        method: order.paymentMethod,
+                        recordedBy: adminId,
+                        ...dto.proof,
+                    },
+                },
+            });
+
+            if (current.status === 'PENDING') {
+                await tx.order.update({
+                    where: { id: order.id },
+                    data: { status: 'CONFIRMED' },
+                });
+                await this.inventoryService.commit(tx, order.id, adminId);
+            }
+
+            return created;
+        });
+
+        this.logger.log(
+            `${order.paymentMethod} payment for order ${order.orderNumber} marked received by ${adminId}`,
+        );
+
+        return createdResponse(payment, MESSAGES.PAYMENT.MARKED_RECEIVED);
+    }
+
     /**
      * Get payment by ID (admin)
      */
@@ -266,6 +651,10 @@ export class PaymentsService {
                         user: { select: { email: true, firstName: true, lastName: true } },
                     },
                 },
+                refunds: {
+                    include: { items: true },
+                    orderBy: { createdAt: 'desc' },
+                },
             },
         });
 
@@ -275,37 +664,4 @@ export class PaymentsService {
 
         return successResponse(payment);
     }
-
-    /**
-     * Initiate refund (admin)
-     */
-    async initiateRefund(paymentId: string): Promise<ApiResponse<PaymentResponse>> {
-        const payment = await this.prisma.payment.findUnique({
-            where: { id: paymentId },
-        });
-
-        if (!payment || payment.status !== 'SUCCESS') {
-            throw new PaymentFailedException();
-        }
-
-        // In production, this would call OPay refund API
-        const updated = await this.prisma.$transaction(async (tx) => {
-            const refunded = await tx.payment.update({
-                where: { id: paymentId },
-                data: { status: 'REFUNDED' },
-            });
-
-            // Update order status
-            await tx.order.update({
-                where: { id: payment.orderId },
-                data: { status: 'REFUNDED' },
-            });
-
-            return refunded;
-        });
-
-        this.logger.log(`Payment ${payment.reference} refunded`);
-
-        return updatedResponse(updated, MESSAGES.PAYMENT.REFUND_SUCCESS);
-    }
 }
@@ -0,0 +1,5 @@
+export * from './payment-gateway.interface';
+export * from './opay.client';
+export * from './opay.gateway';
+export * from './paystack.gateway';
+export * from './payment-gateway.registry';
@@ -0,0 +1,149 @@
+import { createServer } from 'http';
+import type { IncomingHttpHeaders, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import { OPayClient } from './opay.client';
+import type { OPayCashierRequest } from './opay.client';
+import { PaymentProviderException } from '../../../common/filters';
+import { computeHmac } from '../../../common/helpers';
+
+interface RecordedRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  raw: string;
+  body: {
+    amount: { total: number; currency: string };
+    callbackUrl: string;
+    userInfo: { userEmail: string };
+  };
+}
+
+describe('OPayClient', () => {
+  let server: Server;
+  let client: OPayClient;
+  let lastRequest: RecordedRequest | undefined;
+  let nextResponse: { status: number; body: unknown };
+
+  const request: OPayCashierRequest = {
+    reference: 'PAY-TEST-001',
+    amount: 12500.5,
+    customer: {
+      userId: 'user-1',
+      email: 'ada@example.com',
+      name: 'Ada Obi',
+      phone: '+2348012345678',
+    },
+    productName: 'Order VT-TEST',
+    productDescription: '2 item(s) from Vogue Tribe',
+    returnUrl: 'http://shop.test/payment/complete?ref=PAY-TEST-001',
+    cancelUrl: 'http://shop.test/payment/cancelled?ref=PAY-TEST-001',
+    expireMinutes: 30,
+  };
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        lastRequest = {
+          url: req.url,
+          headers: req.headers,
+          raw,
+          body: JSON.parse(raw) as RecordedRequest['body'],
+        };
+        res.writeHead(nextResponse.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(nextResponse.body));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    const config: Record<string, unknown> = {
+      'opay.baseUrl': `http://127.0.0.1:${port}`,
+      'opay.merchantId': '256612345678901',
+      'opay.publicKey': 'OPAYPUB-test',
+      'opay.secretKey': 'OPAYPRV-test',
+      'opay.callbackUrl': 'http://api.test/webhooks/payments/opay',
+      'opay.timeoutMs': 2000,
+    };
+    client = new OPayClient({ get: (key: string) => config[key] } as unknown as ConfigService);
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    lastRequest = undefined;
+  });
+
+  it('creates a cashier session with merchant credentials and kobo amounts', async () => {
+    nextResponse = {
+      status: 200,
+      body: {
+        code: '00000',
+        message: 'SUCCESSFUL',
+        data: {
+          reference: 'PAY-TEST-001',
+          orderNo: '211004140885521681',
+          cashierUrl: 'https://sandboxcashier.opaycheckout.com/apiCashier/redirect/payment/checkoutHome?orderToken=abc',
+          status: 'INITIAL',
+        },
+      },
+    };
+
+    const session = await client.createCashierSession(request);
+
+    expect(session.orderNo).toBe('211004140885521681');
+    expect(session.cashierUrl).toContain('orderToken=abc');
+    expect(lastRequest?.url).toBe('/api/v1/international/cashier/create');
+    expect(lastRequest?.headers.authorization).toBe('Bearer OPAYPUB-test');
+    expect(lastRequest?.headers.merchantid).toBe('256612345678901');
+    expect(lastRequest?.body.amount).toEqual({ total: 1250050, currency: 'NGN' });
+    expect(lastRequest?.body.callbackUrl).toBe('http://api.test/webhooks/payments/opay');
+    expect(lastRequest?.body.userInfo.userEmail).toBe('ada@example.com');
+  });
+
+  it('signs status queries with the secret key', async () => {
+    nextResponse = {
+      status: 200,
+      body: {
+        code: '00000',
+        message: 'SUCCESSFUL',
+        data: {
+          reference: 'PAY-TEST-001',
+          orderNo: '211004140885521681',
+          status: 'SUCCESS',
+          amount: { total: 1250050, currency: 'NGN' },
+        },
+      },
+    };
+
+    const status = await client.queryStatus('PAY-TEST-001');
+
+    expect(status.status).toBe('SUCCESS');
+    expect(lastRequest?.url).toBe('/api/v1/international/cashier/status');
+    expect(lastRequest?.headers.authorization).toBe(
+      `Bearer ${computeHmac(lastRequest?.raw ?? '', 'OPAYPRV-test')}`,
+    );
+  });
+
+  it('rejects provider error codes', async () => {
+    nextResponse = {
+      status: 200,
+      body: { code: '02001', message: 'request parameters not valid' },
+    };
+
+    await expect(client.createCashierSession(request)).rejects.toBeInstanceOf(
+      PaymentProviderException,
+    );
+  });
+
+  it('rejects HTTP failures', async () => {
+    nextResponse = { status: 503, body: { message: 'unavailable' } };
+
+    await expect(client.createCashierSession(request)).rejects.toBeInstanceOf(
+      PaymentProviderException,
+    );
+  });
+});
@@ -0,0 +1,204 @@
+// OPay Client - cashier session API
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentProviderException } from '../../../common/filters';
+import { computeHmac } from '../../../common/helpers';
+
+// OPay answers every request with this code on success
+export const OPAY_SUCCESS_CODE = '00000';
+
+interface OPayEnvelope<T> {
+    code: string;
+    message: string;
+    data?: T;
+}
+
+export interface OPayCashierRequest {
+    reference: string;
+    amount: number; // Naira - converted to kobo for OPay
+    customer: {
+        userId: string;
+        email: string;
+        name: string;
+        phone: string | null;
+    };
+    productName: string;
+    productDescription: string;
+    returnUrl: string;
+    cancelUrl: string;
+    expireMinutes: number;
+}
+
+export interface OPayCashierSession {
+    reference: string;
+    orderNo: string;
+    cashierUrl: string;
+    status: string;
+}
+
+export interface OPayRefundRequest {
+    reference: string;
+    originalReference: string;
+    amount: number; // Naira
+    reason: string;
+}
+
+export interface OPayRefund {
+    reference: string;
+    orderNo: string;
+    status: OPayTransactionStatus;
+}
+
+export type OPayTransactionStatus = 'INITIAL' | 'PENDING' | 'SUCCESS' | 'FAIL' | 'CLOSE';
+
+export interface OPayPaymentStatus {
+    reference: string;
+    orderNo: string;
+    status: OPayTransactionStatus;
+    amount: { total: number; currency: string };
+}
+
+@Injectable()
+export class OPayClient {
+    private readonly logger = new Logger(OPayClient.name);
+    private readonly baseUrl: string;
+    private readonly merchantId: string;
+    private readonly publicKey: string;
+    private readonly secretKey: string;
+    private readonly callbackUrl: string;
+    private readonly timeoutMs: number;
+
+    constructor(private readonly configService: ConfigService) {
+        this.baseUrl = this.configService.get<string>('opay.baseUrl') || 'https://sandboxapi.opaycheckout.com';
+        this.merchantId = this.configService.get<string>('opay.merchantId') || '';
+        this.publicKey = this.configService.get<string>('opay.publicKey') || '';
+        this.secretKey = this.configService.get<string>('opay.secretKey') || '';
+        this.callbackUrl = this.configService.get<string>('opay.callbackUrl') || '';
+        this.timeoutMs = this.configService.get<number>('opay.timeoutMs') || 15000;
+    }
+
+    /**
+     * Create a cashier session and return the hosted checkout URL
+     */
+    async createCashierSession(request: OPayCashierRequest): Promise<OPayCashierSession> {
+        const session = await this.post<OPayCashierSession>(
+            '/api/v1/international/cashier/create',
+            {
+                country: 'NG',
+                reference: request.reference,
+                amount: {
+                    total: Math.round(request.amount * 100),
+                    currency: 'NGN',
+                },
+                returnUrl: request.returnUrl,
+                cancelUrl: request.cancelUrl,
+                callbackUrl: this.callbackUrl,
+                expireAt: request.expireMinutes,
+                userInfo: {
+                    userId: request.customer.userId,
+                    userEmail: request.customer.email,
+                    userName: request.customer.name,
+                    userMobile: request.customer.phone ?? undefined,
+                },
+                product: {
+                    name: request.productName,
+                    description: request.productDescription,
+                },
+            },
+        );
+
+        if (!session.cashierUrl) {
+            this.logger.error(`OPay session for ${request.reference} has no cashier URL`);
+            throw new PaymentProviderException();
+        }
+
+        return session;
+    }
+
+    /**
+     * Query the status of a payment by our reference
+     */
+    async queryStatus(reference: string): Promise<OPayPaymentStatus> {
+        return this.post<OPayPaymentStatus>(
+            '/api/v1/international/cashier/status',
+            { country: 'NG', reference },
+            true,
+        );
+    }
+
+    /**
+     * Refund all or part of a successful payment
+     */
+    async refund(request: OPayRefundRequest): Promise<OPayRefund> {
+        return this.post<OPayRefund>(
+            '/api/v1/international/payment/refund',
+            {
+                country: 'NG',
+                reference: request.reference,
+                originalReference: request.originalReference,
+                amount: {
+                    total: Math.round(request.amount * 100),
+                    currency: 'NGN',
+                },
+                reason: request.reason,
+            },
+            true,
+        );
+    }
+
+    /**
+     * Query the status of a refund by our refund reference
+     */
+    async queryRefund(reference: string): Promise<OPayRefund> {
+        return this.post<OPayRefund>(
+            '/api/v1/international/payment/refund/query',
+            { country: 'NG', reference },
+            true,
+        );
+    }
+
+    /**
+     * POST to OPay with merchant headers and unwrap the response envelope
+     * Signed requests authenticate with an HMAC of the body instead of the public key
+     */
+    private async post<T>(
+        path: string,
+        body: Record<string, unknown>,
+        signed: boolean = false,
+    ): Promise<T> {
+        const payload = JSON.stringify(body);
+        const token = signed ? computeHmac(payload, this.secretKey) : this.publicKey;
+
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}${path}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${token}`,
+                    MerchantId: this.merchantId,
+                },
+                body: payload,
+                signal: AbortSignal.timeout(this.timeoutMs),
+            });
+        } catch (error) {
+            this.logger.error(`OPay request to ${path} failed: ${(error as Error).message}`);
+            throw new PaymentProviderException();
+        }
+
+        const envelope = (await response.json().catch(() => null)) as OPayEnvelope<T> | null;
+
+        if (!response.ok || !envelope) {
+            this.logger.error(`OPay request to ${path} returned HTTP ${response.status}`);
+            throw new PaymentProviderException();
+        }
+
+        if (envelope.code !== OPAY_SUCCESS_CODE || !envelope.data) {
+            this.logger.error(`OPay request to ${path} rejected: [${envelope.code}] ${envelope.message}`);
+            throw new PaymentProviderException();
+        }
+
+        return envelope.data;
+    }
+}
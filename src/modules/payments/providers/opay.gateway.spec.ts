@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import { OPayGateway } from './opay.gateway';
+import type { OPayClient } from './opay.client';
+import { InvalidWebhookSignatureException } from '../../../common/filters';
+import { computeHmac } from '../../../common/helpers';
+
+describe('OPayGateway', () => {
+  const config: Record<string, unknown> = { 'opay.secretKey': 'OPAYPRV-test' };
+  let client: { queryStatus: jest.Mock };
+  let gateway: OPayGateway;
+
+  const webhook = (body: unknown, secret = 'OPAYPRV-test') => {
+    const rawBody = Buffer.from(JSON.stringify(body));
+    return { rawBody, headers: { 'x-opay-signature': computeHmac(rawBody, secret) } };
+  };
+
+  beforeEach(() => {
+    client = { queryStatus: jest.fn() };
+    gateway = new OPayGateway(
+      client as unknown as OPayClient,
+      { get: (key: string) => config[key] } as unknown as ConfigService,
+    );
+  });
+
+  it('reports webhook amounts in Naira, like verification', async () => {
+    const { rawBody, headers } = webhook({
+      eventId: 'evt-1',
+      orderId: '230101000000001',
+      reference: 'PAY-TEST-001',
+      status: 'SUCCESS',
+      amount: 1250050,
+      currency: 'NGN',
+    });
+    client.queryStatus.mockResolvedValue({
+      reference: 'PAY-TEST-001',
+      orderNo: '230101000000001',
+      status: 'SUCCESS',
+      amount: { total: 1250050, currency: 'NGN' },
+    });
+
+    const event = gateway.verifyWebhook(rawBody, headers);
+    const verification = await gateway.verify('PAY-TEST-001');
+
+    expect(event).toMatchObject({
+      type: 'payment',
+      eventId: 'evt-1',
+      reference: 'PAY-TEST-001',
+      status: 'SUCCESS',
+      amount: 12500.5,
+    });
+    expect(verification.amount).toBe(event.amount);
+  });
+
+  it('identifies events without an ID by their body', () => {
+    const body = {
+      orderId: '230101000000001',
+      reference: 'PAY-TEST-001',
+      status: 'FAILED',
+      amount: 500000,
+      currency: 'NGN',
+    };
+
+    const first = gateway.verifyWebhook(webhook(body).rawBody, webhook(body).headers);
+    const retry = gateway.verifyWebhook(webhook(body).rawBody, webhook(body).headers);
+
+    expect(first.eventId).toHaveLength(64);
+    expect(retry.eventId).toBe(first.eventId);
+  });
+
+  it('rejects webhooks signed with another key', () => {
+    const { rawBody, headers } = webhook({ reference: 'PAY-TEST-001' }, 'OPAYPRV-other');
+
+    expect(() => gateway.verifyWebhook(rawBody, headers)).toThrow(InvalidWebhookSignatureException);
+  });
+});
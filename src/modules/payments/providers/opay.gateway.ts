@@ -0,0 +1,123 @@
+// OPay Gateway - PaymentGateway implementation on top of the OPay client
+
+import { createHash } from 'crypto';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OPayClient } from './opay.client';
+import type { OPayTransactionStatus } from './opay.client';
+import { opayWebhookSchema } from '../schemas';
+import { MESSAGES } from '../../../common/constants';
+import {
+    BadRequestException,
+    InvalidWebhookSignatureException,
+} from '../../../common/filters';
+import { isValidHmacSignature } from '../../../common/helpers';
+import { parseJson } from './payment-gateway.interface';
+import type {
+    PaymentGateway,
+    GatewayInitializeRequest,
+    GatewayCheckout,
+    GatewayVerification,
+    GatewayRefundRequest,
+    GatewayRefund,
+    GatewayRefundVerification,
+    GatewayWebhookEvent,
+    GatewayPaymentStatus,
+} from './payment-gateway.interface';
+
+@Injectable()
+export class OPayGateway implements PaymentGateway {
+    readonly name = 'OPAY';
+
+    constructor(
+        private readonly opayClient: OPayClient,
+        private readonly configService: ConfigService,
+    ) { }
+
+    async initialize(request: GatewayInitializeRequest): Promise<GatewayCheckout> {
+        const session = await this.opayClient.createCashierSession({
+            reference: request.reference,
+            amount: request.amount,
+            customer: request.customer,
+            productName: request.description,
+            productDescription: `${request.itemCount} item(s) from Vogue Tribe`,
+            returnUrl: request.returnUrl,
+            cancelUrl: request.cancelUrl,
+            expireMinutes: request.expireMinutes,
+        });
+
+        return { checkoutUrl: session.cashierUrl, providerRef: session.orderNo };
+    }
+
+    async verify(reference: string): Promise<GatewayVerification> {
+        const result = await this.opayClient.queryStatus(reference);
+
+        return {
+            reference: result.reference,
+            status: this.mapStatus(result.status),
+            amount: result.amount.total / 100,
+            providerRef: result.orderNo,
+            providerStatus: result.status,
+        };
+    }
+
+    async refund(request: GatewayRefundRequest): Promise<GatewayRefund> {
+        const result = await this.opayClient.refund({
+            reference: request.reference,
+            originalReference: request.paymentReference,
+            amount: request.amount,
+            reason: request.reason,
+        });
+
+        return {
+            status: result.status === 'SUCCESS' ? 'SUCCESS' : 'PENDING',
+            providerRef: result.orderNo,
+            providerStatus: result.status,
+        };
+    }
+
+    async verifyRefund(refund: { reference: string }): Promise<GatewayRefundVerification> {
+        const result = await this.opayClient.queryRefund(refund.reference);
+
+        return {
+            status: this.mapStatus(result.status),
+            providerStatus: result.status,
+        };
+    }
+
+    /**
+     * OPay signs the raw body with HMAC-SHA512 using the merchant secret key
+     */
+    verifyWebhook(
+        rawBody: Buffer,
+        headers: Record<string, string | undefined>,
+    ): GatewayWebhookEvent {
+        const secretKey = this.configService.get<string>('opay.secretKey') || '';
+        if (!isValidHmacSignature(rawBody, headers['x-opay-signature'], secretKey)) {
+            throw new InvalidWebhookSignatureException();
+        }
+
+        const parsed = opayWebhookSchema.safeParse(parseJson(rawBody));
+        if (!parsed.success) {
+            throw new BadRequestException(MESSAGES.PAYMENT.INVALID_WEBHOOK_PAYLOAD);
+        }
+
+        const payload = parsed.data;
+
+        return {
+            type: 'payment',
+            // OPay retries deliver the same bytes, so the body hash identifies an event without an ID
+            eventId: payload.eventId ?? createHash('sha256').update(rawBody).digest('hex'),
+            reference: payload.reference,
+            status: payload.status,
+            amount: payload.amount / 100,
+            payload: { ...payload },
+        };
+    }
+
+    private mapStatus(status: OPayTransactionStatus): GatewayPaymentStatus {
+        if (status === 'SUCCESS') return 'SUCCESS';
+        if (status === 'FAIL' || status === 'CLOSE') return 'FAILED';
+        return 'PENDING';
+    }
+}
@@ -0,0 +1,113 @@
+// Payment gateway contract - implemented by each payment provider
+
+export type PaymentGatewayName = 'OPAY' | 'PAYSTACK';
+
+export type GatewayPaymentStatus = 'PENDING' | 'SUCCESS' | 'FAILED';
+
+export type GatewayMetadata = Record<string, string | number | boolean | null>;
+
+export interface GatewayInitializeRequest {
+    reference: string;
+    amount: number; // Naira
+    customer: {
+        userId: string;
+        email: string;
+        name: string;
+        phone: string | null;
+    };
+    description: string;
+    itemCount: number;
+    returnUrl: string;
+    cancelUrl: string;
+    expireMinutes: number;
+}
+
+export interface GatewayCheckout {
+    checkoutUrl: string;
+    providerRef: string;
+}
+
+export interface GatewayVerification {
+    reference: string;
+    status: GatewayPaymentStatus;
+    amount: number; // Naira
+    providerRef: string | null;
+    providerStatus: string;
+}
+
+export interface GatewayRefundRequest {
+    reference: string;
+    paymentReference: string;
+    amount: number; // Naira
+    reason: string;
+}
+
+export interface GatewayRefund {
+    status: 'PENDING' | 'SUCCESS';
+    providerRef: string | null;
+    providerStatus: string;
+}
+
+export type GatewayRefundStatus = 'PENDING' | 'SUCCESS' | 'FAILED';
+
+export interface GatewayRefundVerification {
+    status: GatewayRefundStatus;
+    providerStatus: string;
+}
+
+export interface GatewayPaymentEvent {
+    type: 'payment';
+    eventId: string;
+    reference: string;
+    status: GatewayPaymentStatus;
+    amount: number; // Naira
+    payload: GatewayMetadata;
+}
+
+export interface GatewayRefundEvent {
+    type: 'refund';
+    eventId: string;
+    reference: string; // the refunded payment
+    status: GatewayRefundStatus;
+    amount: number; // Naira
+    payload: GatewayMetadata;
+}
+
+export type GatewayWebhookEvent = GatewayPaymentEvent | GatewayRefundEvent;
+
+export interface PaymentGateway {
+    /** Provider stored on Payment.provider */
+    readonly name: PaymentGatewayName;
+
+    /** Open a hosted checkout for a payment */
+    initialize(request: GatewayInitializeRequest): Promise<GatewayCheckout>;
+
+    /** Ask the provider for the current status of a payment */
+    verify(reference: string): Promise<GatewayVerification>;
+
+    /** Refund all or part of a settled payment */
+    refund(request: GatewayRefundRequest): Promise<GatewayRefund>;
+
+    /** Ask the provider whether a pending refund has been paid out */
+    verifyRefund(refund: { reference: string; providerRef: string | null }): Promise<GatewayRefundVerification>;
+
+    /**
+     * Authenticate and parse a webhook delivery
+     * Returns null for events that do not concern a payment or a refund
+     */
+    verifyWebhook(
+        rawBody: Buffer,
+        headers: Record<string, string | undefined>,
+    ): GatewayWebhookEvent | null;
+}
+
+/**
+ * Parse a raw webhook body, treating malformed JSON as an empty payload
+ */
+export function parseJson(rawBody: Buffer): unknown {
+    try {
+        return JSON.parse(rawBody.toString('utf8'));
+    } catch {
+        return null;
+    }
+}
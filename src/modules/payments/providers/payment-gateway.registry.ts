@@ -0,0 +1,31 @@
+// Payment Gateway Registry - resolves the gateway that handles a payment provider
+
+import { Injectable } from '@nestjs/common';
+import { OPayGateway } from './opay.gateway';
+import { PaystackGateway } from './paystack.gateway';
+import { MESSAGES } from '../../../common/constants';
+import { BadRequestException } from '../../../common/filters';
+import type { PaymentGateway, PaymentGatewayName } from './payment-gateway.interface';
+
+@Injectable()
+export class PaymentGatewayRegistry {
+    private readonly gateways: Map<PaymentGatewayName, PaymentGateway>;
+
+    constructor(opayGateway: OPayGateway, paystackGateway: PaystackGateway) {
+        this.gateways = new Map<PaymentGatewayName, PaymentGateway>(
+            [opayGateway, paystackGateway].map((gateway) => [gateway.name, gateway]),
+        );
+    }
+
+    /**
+     * Get the gateway for a provider
+     */
+    get(provider: string): PaymentGateway {
+        const gateway = this.gateways.get(provider as PaymentGatewayName);
+        if (!gateway) {
+            throw new BadRequestException(MESSAGES.PAYMENT.PROVIDER_UNSUPPORTED(provider));
+        }
+
+        return gateway;
+    }
+}
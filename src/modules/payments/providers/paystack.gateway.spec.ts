@@ -0,0 +1,137 @@
+import { ConfigService } from '@nestjs/config';
+import { PaystackGateway } from './paystack.gateway';
+import { InvalidWebhookSignatureException } from '../../../common/filters';
+import { computeHmac } from '../../../common/helpers';
+
+describe('PaystackGateway', () => {
+  const config: Record<string, unknown> = { 'paystack.secretKey': 'sk_test_paystack' };
+  let gateway: PaystackGateway;
+
+  const webhook = (body: unknown, secret = 'sk_test_paystack') => {
+    const rawBody = Buffer.from(JSON.stringify(body));
+    return { rawBody, headers: { 'x-paystack-signature': computeHmac(rawBody, secret) } };
+  };
+
+  const charge = (event: string, status: string) => ({
+    event,
+    data: { id: 302961, reference: 'PAY-TEST-001', status, amount: 1250050, currency: 'NGN' },
+  });
+
+  beforeEach(() => {
+    gateway = new PaystackGateway({ get: (key: string) => config[key] } as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('webhook signatures', () => {
+    it('accepts the HMAC-SHA512 of the raw body under the secret key', () => {
+      const { rawBody, headers } = webhook(charge('charge.success', 'success'));
+
+      expect(gateway.verifyWebhook(rawBody, headers)).toMatchObject({ reference: 'PAY-TEST-001' });
+    });
+
+    it('rejects a body changed after signing', () => {
+      const { headers } = webhook(charge('charge.success', 'failed'));
+      const tampered = Buffer.from(JSON.stringify(charge('charge.success', 'success')));
+
+      expect(() => gateway.verifyWebhook(tampered, headers)).toThrow(InvalidWebhookSignatureException);
+    });
+
+    it('rejects webhooks signed with another key or not signed at all', () => {
+      const { rawBody, headers } = webhook(charge('charge.success', 'success'), 'sk_test_other');
+
+      expect(() => gateway.verifyWebhook(rawBody, headers)).toThrow(InvalidWebhookSignatureException);
+      expect(() => gateway.verifyWebhook(rawBody, {})).toThrow(InvalidWebhookSignatureException);
+    });
+  });
+
+  describe('charge events', () => {
+    it('reports a successful charge in Naira', () => {
+      const { rawBody, headers } = webhook(charge('charge.success', 'success'));
+
+      expect(gateway.verifyWebhook(rawBody, headers)).toMatchObject({
+        type: 'payment',
+        eventId: 'charge.success:302961',
+        reference: 'PAY-TEST-001',
+        status: 'SUCCESS',
+        amount: 12500.5,
+      });
+    });
+
+    it.each([
+      ['failed', 'FAILED'],
+      ['abandoned', 'FAILED'],
+      ['reversed', 'FAILED'],
+      ['ongoing', 'PENDING'],
+    ])('maps a %s charge to %s', (status, expected) => {
+      const { rawBody, headers } = webhook(charge('charge.failed', status));
+
+      expect(gateway.verifyWebhook(rawBody, headers)?.status).toBe(expected);
+    });
+
+    it('ignores events that do not settle a payment', () => {
+      const { rawBody, headers } = webhook({
+        event: 'transfer.success',
+        data: { id: 1, reference: 'TRF-1', status: 'success', amount: 500000 },
+      });
+
+      expect(gateway.verifyWebhook(rawBody, headers)).toBeNull();
+    });
+
+    it('verifies a transaction in Naira, like the webhook', async () => {
+      jest.spyOn(global, 'fetch').mockResolvedValue(
+        new Response(
+          JSON.stringify({
+            status: true,
+            message: 'Verification successful',
+            data: { id: 302961, reference: 'PAY-TEST-001', status: 'success', amount: 1250050 },
+          }),
+        ),
+      );
+
+      await expect(gateway.verify('PAY-TEST-001')).resolves.toEqual({
+        reference: 'PAY-TEST-001',
+        status: 'SUCCESS',
+        amount: 12500.5,
+        providerRef: '302961',
+        providerStatus: 'success',
+      });
+    });
+  });
+
+  describe('refund events', () => {
+    const refund = (event: string, status: string) => ({
+      event,
+      data: {
+        transaction_reference: 'PAY-TEST-001',
+        refund_reference: 'RF-PS-1',
+        status,
+        amount: 400000,
+        currency: 'NGN',
+      },
+    });
+
+    it('reports a processed refund against the refunded transaction', () => {
+      const { rawBody, headers } = webhook(refund('refund.processed', 'processed'));
+
+      expect(gateway.verifyWebhook(rawBody, headers)).toMatchObject({
+        type: 'refund',
+        eventId: 'refund.processed:RF-PS-1',
+        reference: 'PAY-TEST-001',
+        status: 'SUCCESS',
+        amount: 4000,
+      });
+    });
+
+    it.each([
+      ['refund.failed', 'failed', 'FAILED'],
+      ['refund.pending', 'pending', 'PENDING'],
+    ])('maps %s to %s', (event, status, expected) => {
+      const { rawBody, headers } = webhook(refund(event, status));
+
+      expect(gateway.verifyWebhook(rawBody, headers)).toMatchObject({ type: 'refund', status: expected });
+    });
+  });
+});
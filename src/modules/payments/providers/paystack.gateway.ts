@@ -0,0 +1,251 @@
+// Paystack Gateway - hosted checkout, verification, refunds and webhooks via the Paystack API
+
+import { createHash } from 'crypto';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { paystackWebhookSchema } from '../schemas';
+import { MESSAGES } from '../../../common/constants';
+import {
+    BadRequestException,
+    InvalidWebhookSignatureException,
+    PaymentProviderException,
+} from '../../../common/filters';
+import { isValidHmacSignature } from '../../../common/helpers';
+import { parseJson } from './payment-gateway.interface';
+import type {
+    PaymentGateway,
+    GatewayInitializeRequest,
+    GatewayCheckout,
+    GatewayVerification,
+    GatewayRefundRequest,
+    GatewayRefund,
+    GatewayRefundStatus,
+    GatewayRefundVerification,
+    GatewayWebhookEvent,
+    GatewayPaymentStatus,
+} from './payment-gateway.interface';
+
+interface PaystackEnvelope<T> {
+    status: boolean;
+    message: string;
+    data?: T;
+}
+
+interface PaystackTransaction {
+    id: number;
+    reference: string;
+    status: string;
+    amount: number; // kobo
+}
+
+interface PaystackRefund {
+    id: number;
+    status: string;
+}
+
+@Injectable()
+export class PaystackGateway implements PaymentGateway {
+    readonly name = 'PAYSTACK';
+    private readonly logger = new Logger(PaystackGateway.name);
+    private readonly baseUrl: string;
+    private readonly secretKey: string;
+    private readonly timeoutMs: number;
+
+    constructor(private readonly configService: ConfigService) {
+        this.baseUrl = this.configService.get<string>('paystack.baseUrl') || 'https://api.paystack.co';
+        this.secretKey = this.configService.get<string>('paystack.secretKey') || '';
+        this.timeoutMs = this.configService.get<number>('paystack.timeoutMs') || 15000;
+    }
+
+    async initialize(request: GatewayInitializeRequest): Promise<GatewayCheckout> {
+        const transaction = await this.request<{ authorization_url: string; access_code: string }>(
+            'POST',
+            '/transaction/initialize',
+            {
+                email: request.customer.email,
+                amount: Math.round(request.amount * 100),
+                currency: 'NGN',
+                reference: request.reference,
+                callback_url: request.returnUrl,
+                metadata: {
+                    userId: request.customer.userId,
+                    description: request.description,
+                    cancel_action: request.cancelUrl,
+                },
+            },
+        );
+
+        if (!transaction.authorization_url) {
+            this.logger.error(`Paystack transaction ${request.reference} has no authorization URL`);
+            throw new PaymentProviderException();
+        }
+
+        return {
+            checkoutUrl: transaction.authorization_url,
+            providerRef: transaction.access_code,
+        };
+    }
+
+    async verify(reference: string): Promise<GatewayVerification> {
+        const transaction = await this.request<PaystackTransaction>(
+            'GET',
+            `/transaction/verify/${encodeURIComponent(reference)}`,
+        );
+
+        return {
+            reference: transaction.reference,
+            status: this.mapStatus(transaction.status),
+            amount: transaction.amount / 100,
+            providerRef: String(transaction.id),
+            providerStatus: transaction.status,
+        };
+    }
+
+    async refund(request: GatewayRefundRequest): Promise<GatewayRefund> {
+        const refund = await this.request<PaystackRefund>('POST', '/refund', {
+            transaction: request.paymentReference,
+            amount: Math.round(request.amount * 100),
+            currency: 'NGN',
+            merchant_note: `${request.reason} (${request.reference})`,
+        });
+
+        return {
+            status: refund.status === 'processed' ? 'SUCCESS' : 'PENDING',
+            providerRef: String(refund.id),
+            providerStatus: refund.status,
+        };
+    }
+
+    async verifyRefund(refund: { reference: string; providerRef: string | null }): Promise<GatewayRefundVerification> {
+        if (!refund.providerRef) {
+            this.logger.error(`Paystack refund ${refund.reference} has no refund ID to look up`);
+            throw new PaymentProviderException();
+        }
+
+        const result = await this.request<PaystackRefund>(
+            'GET',
+            `/refund/${encodeURIComponent(refund.providerRef)}`,
+        );
+
+        return {
+            status: this.mapRefundStatus(result.status),
+            providerStatus: result.status,
+        };
+    }
+
+    /**
+     * Paystack signs the raw body with HMAC-SHA512 using the secret key
+     */
+    verifyWebhook(
+        rawBody: Buffer,
+        headers: Record<string, string | undefined>,
+    ): GatewayWebhookEvent | null {
+        if (!isValidHmacSignature(rawBody, headers['x-paystack-signature'], this.secretKey)) {
+            throw new InvalidWebhookSignatureException();
+        }
+
+        const parsed = paystackWebhookSchema.safeParse(parseJson(rawBody));
+        if (!parsed.success) {
+            throw new BadRequestException(MESSAGES.PAYMENT.INVALID_WEBHOOK_PAYLOAD);
+        }
+
+        const { event, data } = parsed.data;
+
+        // Refund events carry the refunded transaction's reference, not a refund ID
+        if (event.startsWith('refund.')) {
+            if (!data.transaction_reference || data.amount === undefined) {
+                return null;
+            }
+
+            return {
+                type: 'refund',
+                eventId: `${event}:${data.refund_reference ?? createHash('sha256').update(rawBody).digest('hex')}`,
+                reference: data.transaction_reference,
+                status: this.mapRefundStatus(data.status ?? ''),
+                amount: data.amount / 100,
+                payload: {
+                    event,
+                    transactionReference: data.transaction_reference,
+                    refundReference: data.refund_reference ?? null,
+                    status: data.status ?? null,
+                    amount: data.amount,
+                    currency: data.currency ?? null,
+                },
+            };
+        }
+
+        // Transfer and subscription events do not settle a payment
+        if (
+            !event.startsWith('charge.') ||
+            data.id === undefined ||
+            !data.reference ||
+            data.amount === undefined
+        ) {
+            return null;
+        }
+
+        return {
+            type: 'payment',
+            eventId: `${event}:${data.id}`,
+            reference: data.reference,
+            status: this.mapStatus(data.status ?? ''),
+            amount: data.amount / 100,
+            payload: {
+                event,
+                id: data.id,
+                reference: data.reference,
+                status: data.status ?? null,
+                amount: data.amount,
+                currency: data.currency ?? null,
+            },
+        };
+    }
+
+    private mapStatus(status: string): GatewayPaymentStatus {
+        if (status === 'success') return 'SUCCESS';
+        if (['failed', 'abandoned', 'reversed'].includes(status)) return 'FAILED';
+        return 'PENDING';
+    }
+
+    private mapRefundStatus(status: string): GatewayRefundStatus {
+        if (status === 'processed') return 'SUCCESS';
+        if (status === 'failed') return 'FAILED';
+        return 'PENDING';
+    }
+
+    /**
+     * Call Paystack with the secret key and unwrap the response envelope
+     */
+    private async request<T>(
+        method: 'GET' | 'POST',
+        path: string,
+        body?: Record<string, unknown>,
+    ): Promise<T> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}${path}`, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${this.secretKey}`,
+                },
+                body: body ? JSON.stringify(body) : undefined,
+                signal: AbortSignal.timeout(this.timeoutMs),
+            });
+        } catch (error) {
+            this.logger.error(`Paystack request to ${path} failed: ${(error as Error).message}`);
+            throw new PaymentProviderException();
+        }
+
+        const envelope = (await response.json().catch(() => null)) as PaystackEnvelope<T> | null;
+
+        if (!response.ok || !envelope?.status || !envelope.data) {
+            this.logger.error(
+                `Paystack request to ${path} rejected: HTTP ${response.status} ${envelope?.message ?? ''}`,
+            );
+            throw new PaymentProviderException();
+        }
+
+        return envelope.data;
+    }
+}
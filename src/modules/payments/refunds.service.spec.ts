@@ -0,0 +1,280 @@
+import { RefundsService } from './refunds.service';
+import type { PaymentGatewayRegistry, GatewayRefund } from './providers';
+import type { InventoryService } from '../inventory/inventory.service';
+import type { PrismaService } from '../../prisma';
+import { BadRequestException } from '../../common/filters';
+
+interface FakeRefund {
+  id: string;
+  paymentId: string;
+  reference: string;
+  amount: number;
+  status: string;
+  restock: boolean;
+  restocked: boolean;
+  providerRef: string | null;
+  createdById: string | null;
+  items: Array<{ orderItemId: string; quantity: number; amount: number; orderItem: { variantId: string } }>;
+}
+
+interface FakeState {
+  payment: {
+    id: string;
+    reference: string;
+    provider: string;
+    amount: number;
+    status: string;
+    refundRequired: boolean;
+    orderId: string;
+  };
+  order: {
+    id: string;
+    orderNumber: string;
+    status: string;
+    items: Array<{ id: string; variantId: string; productName: string; quantity: number; unitPrice: number }>;
+  };
+  refunds: FakeRefund[];
+}
+
+type FakeRefundInput = Pick<FakeRefund, 'paymentId' | 'reference' | 'amount' | 'restock' | 'createdById'> & {
+  items: { create: Array<{ orderItemId: string; quantity: number; amount: number }> };
+};
+
+/**
+ * In-memory stand-in for the payment, its order and refunds
+ * Transactions run their callback against the same store
+ */
+function createFakePrisma(state: FakeState) {
+  const findRefund = (id: string) => {
+    const refund = state.refunds.find((item) => item.id === id);
+    if (!refund) throw new Error(`No refund ${id}`);
+    return refund;
+  };
+
+  const prisma = {
+    $queryRaw: jest.fn().mockResolvedValue([]),
+    $transaction: (callback: (tx: unknown) => Promise<unknown>) => callback(prisma),
+    payment: {
+      findUnique: () =>
+        Promise.resolve({
+          ...state.payment,
+          order: state.order,
+          refunds: state.refunds.filter((refund) => refund.status !== 'FAILED'),
+        }),
+      findUniqueOrThrow: () =>
+        Promise.resolve({
+          ...state.payment,
+          order: state.order,
+          refunds: state.refunds.filter((refund) => refund.status === 'SUCCESS'),
+        }),
+      update: ({ data }: { data: { status: string; refundRequired?: boolean } }) => {
+        state.payment.status = data.status;
+        if (data.refundRequired !== undefined) state.payment.refundRequired = data.refundRequired;
+        return Promise.resolve(state.payment);
+      },
+    },
+    order: {
+      update: ({ data }: { data: { status: string } }) => {
+        state.order.status = data.status;
+        return Promise.resolve(state.order);
+      },
+    },
+    refund: {
+      create: ({ data }: { data: FakeRefundInput }) => {
+        const refund: FakeRefund = {
+          ...data,
+          id: `refund-${state.refunds.length + 1}`,
+          status: 'PENDING',
+          restocked: false,
+          providerRef: null,
+          items: data.items.create.map((item) => ({
+            ...item,
+            orderItem: {
+              variantId: state.order.items.find((line) => line.id === item.orderItemId)?.variantId ?? '',
+            },
+          })),
+        };
+        state.refunds.push(refund);
+        return Promise.resolve(refund);
+      },
+      update: ({ where, data }: { where: { id: string }; data: Partial<FakeRefund> }) =>
+        Promise.resolve(Object.assign(findRefund(where.id), data)),
+      updateMany: ({ where, data }: { where: { id: string; status: string }; data: { status: string } }) => {
+        const refund = findRefund(where.id);
+        if (refund.status !== where.status) return Promise.resolve({ count: 0 });
+        refund.status = data.status;
+        return Promise.resolve({ count: 1 });
+      },
+      findUniqueOrThrow: ({ where }: { where: { id: string } }) => Promise.resolve(findRefund(where.id)),
+    },
+  };
+
+  return prisma;
+}
+
+describe('RefundsService', () => {
+  let state: FakeState;
+  let gateway: { refund: jest.Mock };
+  let inventoryService: { restock: jest.Mock };
+  let service: RefundsService;
+
+  const providerReturns = (status: GatewayRefund['status']) =>
+    gateway.refund.mockResolvedValue({ status, providerRef: 'RF-1', providerStatus: status.toLowerCase() });
+
+  beforeEach(() => {
+    state = {
+      payment: {
+        id: 'payment-1',
+        reference: 'PAY-1',
+        provider: 'PAYSTACK',
+        amount: 10000,
+        status: 'SUCCESS',
+        refundRequired: false,
+        orderId: 'order-1',
+      },
+      order: {
+        id: 'order-1',
+        orderNumber: 'VT-1',
+        status: 'DELIVERED',
+        items: [{ id: 'item-1', variantId: 'variant-1', productName: 'Adire Shirt', quantity: 2, unitPrice: 5000 }],
+      },
+      refunds: [],
+    };
+    gateway = { refund: jest.fn() };
+    inventoryService = { restock: jest.fn() };
+    service = new RefundsService(
+      createFakePrisma(state) as unknown as PrismaService,
+      { get: () => gateway } as unknown as PaymentGatewayRegistry,
+      inventoryService as unknown as InventoryService,
+    );
+  });
+
+  it('leaves the payment and order alone while the provider has not paid out', async () => {
+    providerReturns('PENDING');
+
+    const { data } = await service.refund('payment-1', 'admin-1', { amount: 4000, restock: false });
+
+    expect(data.status).toBe('PENDING');
+    expect(state.payment.status).toBe('SUCCESS');
+    expect(state.order.status).toBe('DELIVERED');
+  });
+
+  it('counts pending refunds against the refundable balance', async () => {
+    providerReturns('PENDING');
+    await service.refund('payment-1', 'admin-1', { amount: 7000, restock: false });
+
+    await expect(
+      service.refund('payment-1', 'admin-1', { amount: 4000, restock: false }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(state.refunds).toHaveLength(1);
+  });
+
+  it('frees the balance of a refund the provider rejected', async () => {
+    gateway.refund.mockRejectedValueOnce(new Error('declined'));
+    await expect(
+      service.refund('payment-1', 'admin-1', { amount: 7000, restock: false }),
+    ).rejects.toThrow('declined');
+
+    providerReturns('SUCCESS');
+    const { data } = await service.refund('payment-1', 'admin-1', { amount: 7000, restock: false });
+
+    expect(state.refunds.map((refund) => refund.status)).toEqual(['FAILED', 'SUCCESS']);
+    expect(data.status).toBe('SUCCESS');
+  });
+
+  it('marks a partial refund without touching the order', async () => {
+    providerReturns('SUCCESS');
+
+    await service.refund('payment-1', 'admin-1', { amount: 4000, restock: false });
+
+    expect(state.payment.status).toBe('PARTIALLY_REFUNDED');
+    expect(state.order.status).toBe('DELIVERED');
+  });
+
+  it('refunds the payment and order once the whole amount is paid out', async () => {
+    providerReturns('SUCCESS');
+
+    await service.refund('payment-1', 'admin-1', { amount: 4000, restock: false });
+    await service.refund('payment-1', 'admin-1', { restock: false });
+
+    expect(state.refunds.map((refund) => refund.amount)).toEqual([4000, 6000]);
+    expect(state.payment.status).toBe('REFUNDED');
+    expect(state.order.status).toBe('REFUNDED');
+  });
+
+  it('settles and restocks a pending refund only once', async () => {
+    providerReturns('PENDING');
+    const { data } = await service.refund('payment-1', 'admin-1', {
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+      restock: true,
+    });
+
+    // A webhook and a verification report the same payout
+    await service.applyRefundStatus(data.id, 'SUCCESS', { source: 'webhook' });
+    await service.applyRefundStatus(data.id, 'SUCCESS', { source: 'verification' });
+
+    expect(inventoryService.restock).toHaveBeenCalledTimes(1);
+    expect(inventoryService.restock).toHaveBeenCalledWith(
+      expect.anything(),
+      [{ variantId: 'variant-1', quantity: 1 }],
+      expect.objectContaining({ reason: 'REFUND', orderId: 'order-1' }),
+    );
+    expect(state.refunds[0]).toMatchObject({ status: 'SUCCESS', amount: 5000, restocked: true });
+    expect(state.payment.status).toBe('PARTIALLY_REFUNDED');
+  });
+
+  it('refuses to restock a cancelled order whose units went back on cancel', async () => {
+    state.order.status = 'CANCELLED';
+    providerReturns('SUCCESS');
+
+    await expect(
+      service.refund('payment-1', 'admin-1', { items: [{ orderItemId: 'item-1', quantity: 2 }], restock: true }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(state.refunds).toHaveLength(0);
+
+    const { data } = await service.refund('payment-1', 'admin-1', {
+      items: [{ orderItemId: 'item-1', quantity: 2 }],
+      restock: false,
+    });
+
+    expect(data.status).toBe('SUCCESS');
+    expect(inventoryService.restock).not.toHaveBeenCalled();
+  });
+
+  it('skips the restock of a pending refund whose order was cancelled before it settled', async () => {
+    providerReturns('PENDING');
+    const { data } = await service.refund('payment-1', 'admin-1', {
+      items: [{ orderItemId: 'item-1', quantity: 1 }],
+      restock: true,
+    });
+
+    // The cancel returns every unit of the order
+    state.order.status = 'CANCELLED';
+    await service.applyRefundStatus(data.id, 'SUCCESS', { source: 'webhook' });
+
+    expect(inventoryService.restock).not.toHaveBeenCalled();
+    expect(state.refunds[0]).toMatchObject({ status: 'SUCCESS', restocked: false });
+  });
+
+  it('keeps the order status when refunding a payment that never paid for it', async () => {
+    state.order.status = 'CANCELLED';
+    state.payment.refundRequired = true;
+    providerReturns('SUCCESS');
+
+    await service.refundUnfulfilled('payment-1');
+
+    expect(state.payment).toMatchObject({ status: 'REFUNDED', refundRequired: false });
+    expect(state.order.status).toBe('CANCELLED');
+  });
+
+  it('settles refunds of offline payments without calling a provider', async () => {
+    state.payment.provider = 'MANUAL';
+
+    const { data } = await service.refund('payment-1', 'admin-1', { restock: false });
+
+    expect(gateway.refund).not.toHaveBeenCalled();
+    expect(data.status).toBe('SUCCESS');
+    expect(state.payment.status).toBe('REFUNDED');
+    expect(state.order.status).toBe('REFUNDED');
+  });
+});
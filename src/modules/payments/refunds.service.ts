@@ -0,0 +1,409 @@
+// Refunds Service - full and partial refunds with a refund ledger
+
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma';
+import type { PrismaTransactionClient } from '../../prisma';
+import { InventoryService } from '../inventory/inventory.service';
+import { PaymentGatewayRegistry } from './providers';
+import type {
+    GatewayMetadata,
+    GatewayRefund,
+    GatewayRefundEvent,
+    GatewayRefundStatus,
+} from './providers';
+import type { RefundPaymentDto } from './schemas';
+import type { ApiResponse } from '../../common/types';
+import { MESSAGES } from '../../common/constants';
+import {
+    BadRequestException,
+    NotFoundException,
+} from '../../common/filters';
+import {
+    successResponse,
+    createdResponse,
+    formatNaira,
+    roundPrice,
+    generateRefundReference,
+    canTransitionPayment,
+} from '../../common/helpers';
+
+// Refund response types
+export interface RefundItemResponse {
+    id: string;
+    orderItemId: string;
+    quantity: number;
+    amount: unknown;
+}
+
+export interface RefundResponse {
+    id: string;
+    paymentId: string;
+    reference: string;
+    amount: unknown;
+    reason: string | null;
+    status: string;
+    providerRef: string | null;
+    restock: boolean;
+    restocked: boolean;
+    createdAt: Date;
+    items: RefundItemResponse[];
+}
+
+// Outcome recorded for refunds of payments collected offline
+const MANUAL_REFUND: GatewayRefund = {
+    status: 'SUCCESS',
+    providerRef: null,
+    providerStatus: 'MANUAL',
+};
+
+@Injectable()
+export class RefundsService {
+    private readonly logger = new Logger(RefundsService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly gatewayRegistry: PaymentGatewayRegistry,
+        private readonly inventoryService: InventoryService,
+    ) { }
+
+    /**
+     * Refund all or part of a payment, optionally restocking refunded items (admin)
+     * The payment, order and stock only change once the provider has paid the refund out
+     */
+    async refund(
+        paymentId: string,
+        adminId: string | null,
+        dto: RefundPaymentDto,
+    ): Promise<ApiResponse<RefundResponse>> {
+        // Record the refund before calling the provider so a crash never loses it
+        const { refund, payment } = await this.prisma.$transaction(async (tx) => {
+            // Lock the payment so concurrent refunds see each other's claim on the balance
+            await this.lockPayment(tx, paymentId);
+
+            const payment = await tx.payment.findUnique({
+                where: { id: paymentId },
+                include: {
+                    order: { include: { items: true } },
+                    refunds: {
+                        where: { status: { not: 'FAILED' } },
+                        include: { items: true },
+                    },
+                },
+            });
+
+            if (!payment) {
+                throw new NotFoundException('Payment');
+            }
+
+            if (payment.status !== 'SUCCESS' && payment.status !== 'PARTIALLY_REFUNDED') {
+                throw new BadRequestException(MESSAGES.PAYMENT.REFUND_NOT_ALLOWED);
+            }
+
+            // Cancelling the order already put its units back on the shelf
+            if (dto.restock && payment.order.status === 'CANCELLED') {
+                throw new BadRequestException(MESSAGES.PAYMENT.REFUND_RESTOCK_NOT_ALLOWED);
+            }
+
+            // Pending refunds count against the balance until the provider rejects them
+            const alreadyRefunded = payment.refunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+            const refundable = roundPrice(Number(payment.amount) - alreadyRefunded);
+
+            // Validate refunded line items against what is left of each order item
+            const refundItems = (dto.items ?? []).map((requested) => {
+                const orderItem = payment.order.items.find((item) => item.id === requested.orderItemId);
+                if (!orderItem) {
+                    throw new BadRequestException(MESSAGES.PAYMENT.REFUND_ITEM_INVALID);
+                }
+
+                const refundedQuantity = payment.refunds
+                    .flatMap((refund) => refund.items)
+                    .filter((item) => item.orderItemId === orderItem.id)
+                    .reduce((sum, item) => sum + item.quantity, 0);
+                const remaining = orderItem.quantity - refundedQuantity;
+
+                if (requested.quantity > remaining) {
+                    throw new BadRequestException(
+                        MESSAGES.PAYMENT.REFUND_QUANTITY_EXCEEDED(orderItem.productName, remaining),
+                    );
+                }
+
+                return {
+                    orderItemId: orderItem.id,
+                    quantity: requested.quantity,
+                    amount: roundPrice(Number(orderItem.unitPrice) * requested.quantity),
+                };
+            });
+
+            const amount = roundPrice(
+                dto.amount ??
+                    (refundItems.length > 0
+                        ? refundItems.reduce((sum, item) => sum + item.amount, 0)
+                        : refundable),
+            );
+
+            if (amount <= 0 || amount > refundable) {
+                throw new BadRequestException(
+                    MESSAGES.PAYMENT.REFUND_EXCEEDS_BALANCE(formatNaira(refundable)),
+                );
+            }
+
+            const created = await tx.refund.create({
+                data: {
+                    paymentId: payment.id,
+                    reference: generateRefundReference(),
+                    amount,
+                    reason: dto.reason,
+                    restock: dto.restock,
+                    createdById: adminId,
+                    items: { create: refundItems },
+                },
+            });
+
+            return { refund: created, payment };
+        });
+
+        const amount = Number(refund.amount);
+
+        // Cash and transfer payments are returned by hand, so recording the refund settles it
+        const providerRefund =
+            payment.provider === 'MANUAL'
+                ? MANUAL_REFUND
+                : await this.requestProviderRefund(refund, payment, dto.reason);
+
+        const saved = await this.applyRefundStatus(refund.id, providerRefund.status, {
+            providerStatus: providerRefund.providerStatus,
+        });
+
+        this.logger.log(
+            `Refund ${saved.reference} of ${formatNaira(amount)} for payment ${payment.reference} (${saved.status})`,
+        );
+
+        return createdResponse(
+            saved,
+            saved.status === 'SUCCESS'
+                ? MESSAGES.PAYMENT.REFUND_SUCCESS
+                : MESSAGES.PAYMENT.REFUND_INITIATED,
+        );
+    }
+
+    /**
+     * Ask the payment's provider to pay a refund out, failing the refund if the request is rejected
+     */
+    private async requestProviderRefund(
+        refund: { id: string; reference: string; amount: unknown },
+        payment: { reference: string; provider: string; order: { orderNumber: string } },
+        reason: string | undefined,
+    ): Promise<GatewayRefund> {
+        let providerRefund: GatewayRefund;
+        try {
+            providerRefund = await this.gatewayRegistry.get(payment.provider).refund({
+                reference: refund.reference,
+                paymentReference: payment.reference,
+                amount: Number(refund.amount),
+                reason: reason ?? `Refund for order ${payment.order.orderNumber}`,
+            });
+        } catch (error) {
+            await this.prisma.refund.update({
+                where: { id: refund.id },
+                data: { status: 'FAILED' },
+            });
+            throw error;
+        }
+
+        await this.prisma.refund.update({
+            where: { id: refund.id },
+            data: {
+                providerRef: providerRefund.providerRef,
+                metadata: { providerStatus: providerRefund.providerStatus },
+            },
+        });
+
+        return providerRefund;
+    }
+
+    /**
+     * Refund the whole of a payment whose order cannot be fulfilled
+     * Money that arrived after the order expired and sold out, or for an order already paid
+     */
+    async refundUnfulfilled(paymentId: string): Promise<RefundResponse> {
+        const { data } = await this.refund(paymentId, null, {
+            reason: MESSAGES.PAYMENT.UNFULFILLED_REFUND_REASON,
+            restock: false,
+        });
+
+        return data;
+    }
+
+    /**
+     * Ask the provider about a pending refund and settle it (admin)
+     */
+    async verifyRefund(refundId: string): Promise<ApiResponse<RefundResponse>> {
+        const refund = await this.prisma.refund.findUnique({
+            where: { id: refundId },
+            include: { items: true, payment: { select: { provider: true } } },
+        });
+
+        if (!refund) {
+            throw new NotFoundException('Refund');
+        }
+
+        // Settled refunds are answered from our records
+        const saved = refund.status === 'PENDING' ? await this.syncWithProvider(refund) : refund;
+
+        if (saved.status === 'SUCCESS') {
+            return successResponse(saved, MESSAGES.PAYMENT.REFUND_SUCCESS);
+        }
+
+        return successResponse(
+            saved,
+            saved.status === 'FAILED' ? MESSAGES.PAYMENT.REFUND_FAILED : MESSAGES.PAYMENT.REFUND_PENDING,
+        );
+    }
+
+    /**
+     * Ask the provider for a pending refund's status and apply it
+     * Shared by admin verification and reconciliation
+     */
+    async syncWithProvider(refund: {
+        id: string;
+        reference: string;
+        providerRef: string | null;
+        payment: { provider: string };
+    }): Promise<RefundResponse> {
+        const result = await this.gatewayRegistry.get(refund.payment.provider).verifyRefund(refund);
+
+        return this.applyRefundStatus(refund.id, result.status, {
+            source: 'verification',
+            providerStatus: result.providerStatus,
+        });
+    }
+
+    /**
+     * Apply a provider refund webhook to the oldest pending refund of that amount on the payment
+     * Returns whether a refund changed
+     */
+    async applyWebhookEvent(event: GatewayRefundEvent): Promise<boolean> {
+        if (event.status === 'PENDING') {
+            return false;
+        }
+
+        const refund = await this.prisma.refund.findFirst({
+            where: {
+                status: 'PENDING',
+                amount: event.amount,
+                payment: { reference: event.reference },
+            },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        if (!refund) {
+            this.logger.warn(`No pending refund of ${formatNaira(event.amount)} for payment ${event.reference}`);
+            return false;
+        }
+
+        const saved = await this.applyRefundStatus(refund.id, event.status, {
+            source: 'webhook',
+            ...event.payload,
+        });
+
+        return saved.status === event.status;
+    }
+
+    /**
+     * Move a pending refund to the provider-reported status
+     * A successful refund updates the payment and order and restocks the refunded items, once
+     */
+    async applyRefundStatus(
+        refundId: string,
+        status: GatewayRefundStatus,
+        metadata: GatewayMetadata,
+    ): Promise<RefundResponse> {
+        return this.prisma.$transaction(async (tx) => {
+            if (status !== 'PENDING') {
+                // Guard on PENDING so a webhook and a verification settle a refund only once
+                const { count } = await tx.refund.updateMany({
+                    where: { id: refundId, status: 'PENDING' },
+                    data: { status, metadata },
+                });
+
+                if (count === 1 && status === 'SUCCESS') {
+                    await this.settleRefund(tx, refundId);
+                }
+            }
+
+            return tx.refund.findUniqueOrThrow({
+                where: { id: refundId },
+                include: { items: true },
+            });
+        });
+    }
+
+    /**
+     * Mark the payment and order refunded as far as paid-out refunds cover them, and restock
+     */
+    private async settleRefund(tx: PrismaTransactionClient, refundId: string): Promise<void> {
+        const refund = await tx.refund.findUniqueOrThrow({
+            where: { id: refundId },
+            include: { items: { include: { orderItem: { select: { variantId: true } } } } },
+        });
+
+        // Serialise settlements of the same payment so the refunded total is summed once
+        await this.lockPayment(tx, refund.paymentId);
+
+        const payment = await tx.payment.findUniqueOrThrow({
+            where: { id: refund.paymentId },
+            include: {
+                order: { select: { status: true } },
+                refunds: { where: { status: 'SUCCESS' }, select: { amount: true } },
+            },
+        });
+
+        const refunded = roundPrice(payment.refunds.reduce((sum, item) => sum + Number(item.amount), 0));
+        const fullyRefunded = refunded >= Number(payment.amount);
+        const paymentStatus = fullyRefunded ? 'REFUNDED' : 'PARTIALLY_REFUNDED';
+
+        if (canTransitionPayment(payment.status, paymentStatus)) {
+            await tx.payment.update({
+                where: { id: payment.id },
+                data: { status: paymentStatus, refundRequired: fullyRefunded ? false : undefined },
+            });
+        }
+
+        // A payment flagged for refund never paid for the order, so the order keeps its status
+        if (fullyRefunded && !payment.refundRequired) {
+            await tx.order.update({
+                where: { id: payment.orderId },
+                data: { status: 'REFUNDED' },
+            });
+        }
+
+        // Return refunded units to sellable stock, unless a cancel since the refund was raised already did
+        if (refund.restock && refund.items.length > 0 && payment.order.status !== 'CANCELLED') {
+            await this.inventoryService.restock(
+                tx,
+                refund.items.map((item) => ({
+                    variantId: item.orderItem.variantId,
+                    quantity: item.quantity,
+                })),
+                {
+                    reason: 'REFUND',
+                    orderId: payment.orderId,
+                    actorId: refund.createdById ?? undefined,
+                    note: `Refund ${refund.reference}`,
+                },
+            );
+
+            await tx.refund.update({
+                where: { id: refund.id },
+                data: { restocked: true },
+            });
+        }
+    }
+
+    /**
+     * Take a row lock on a payment for the rest of the transaction
+     */
+    private async lockPayment(tx: PrismaTransactionClient, paymentId: string): Promise<void> {
+        await tx.$queryRaw`SELECT id FROM payments WHERE id = ${paymentId} FOR UPDATE`;
+    }
+}
@@ -7,14 +7,17 @@ import { z } from 'zod';
  */
 export const initializePaymentSchema = z.object({
     orderId: z.string().uuid('Invalid order ID'),
+    provider: z.enum(['OPAY', 'PAYSTACK']).default('OPAY'),
 });
 
 export type InitializePaymentDto = z.infer<typeof initializePaymentSchema>;
 
 /**
  * Webhook payload schema (OPay callback)
+ * Amounts are in kobo
  */
 export const opayWebhookSchema = z.object({
+    eventId: z.string().optional(),
     orderId: z.string(),
     reference: z.string(),
     status: z.enum(['SUCCESS', 'FAILED', 'PENDING']),
@@ -25,6 +28,80 @@ export const opayWebhookSchema = z.object({
 
 export type OPayWebhookDto = z.infer<typeof opayWebhookSchema>;
 
+/**
+ * Webhook payload schema (Paystack event)
+ * Amounts are in kobo; refund events identify the refunded transaction by transaction_reference
+ */
+export const paystackWebhookSchema = z.object({
+    event: z.string(),
+    data: z.object({
+        id: z.union([z.number(), z.string()]).optional(),
+        reference: z.string().optional(),
+        transaction_reference: z.string().optional(),
+        refund_reference: z.string().optional(),
+        status: z.string().optional(),
+        amount: z.number().optional(),
+        currency: z.string().optional(),
+    }),
+});
+
+export type PaystackWebhookDto = z.infer<typeof paystackWebhookSchema>;
+
+/**
+ * Webhook route provider param - lowercase in the URL, stored uppercase
+ */
+export const webhookProviderSchema = z
+    .enum(['opay', 'paystack'])
+    .transform((provider) => provider.toUpperCase() as 'OPAY' | 'PAYSTACK');
+
+export type WebhookProviderParam = z.infer<typeof webhookProviderSchema>;
+
+/**
+ * Refund payment schema (admin)
+ * Without an amount the refund covers the listed items, or the whole remaining balance
+ */
+export const refundPaymentSchema = z
+    .object({
+        amount: z
+            .number()
+            .positive('Refund amount must be positive')
+            .multipleOf(0.01, 'Amount must have at most 2 decimal places')
+            .optional(),
+        reason: z.string().max(500).trim().optional(),
+        items: z
+            .array(
+                z.object({
+                    orderItemId: z.string().uuid('Invalid order item ID'),
+                    quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+                }),
+            )
+            .min(1)
+            .optional(),
+        restock: z.boolean().default(false),
+    })
+    .refine((data) => !data.restock || data.items, {
+        message: 'Select the items to restock',
+        path: ['items'],
+    });
+
+export type RefundPaymentDto = z.infer<typeof refundPaymentSchema>;
+
+/**
+ * Mark offline payment received schema (admin)
+ * Proof of a bank transfer or POS/cash collection is kept on the payment
+ */
+export const markPaymentReceivedSchema = z.object({
+    receivedAt: z.coerce.date().optional(),
+    proof: z.object({
+        bankReference: z.string().max(100).trim().optional(),
+        receiptUrl: z.string().url('Invalid receipt URL').optional(),
+        collectedBy: z.string().max(100).trim().optional(),
+        note: z.string().max(500).trim().optional(),
+    }),
+});
+
+export type MarkPaymentReceivedDto = z.infer<typeof markPaymentReceivedSchema>;
+
 /**
  * List payments query schema
  */
@@ -33,6 +110,10 @@ export const listPaymentsQuerySchema = z.object({
     limit: z.coerce.number().int().min(1).max(100).default(20),
     status: z.enum(['PENDING', 'SUCCESS', 'FAILED', 'REFUNDED', 'PARTIALLY_REFUNDED']).optional(),
     orderId: z.string().uuid().optional(),
+    refundRequired: z
+        .enum(['true', 'false'])
+        .transform((value) => value === 'true')
+        .optional(),
 });
 
 export type ListPaymentsQueryDto = z.infer<typeof listPaymentsQuerySchema>;
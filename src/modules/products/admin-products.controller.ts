@@ -9,9 +9,14 @@ import {
     Param,
     Query,
     Body,
+    UploadedFile,
     UseGuards,
+    UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { ProductsService } from './products.service';
+import { ProductTransferService } from './product-transfer.service';
+import { ProductImagesService } from './product-images.service';
 import {
     createProductSchema,
     updateProductSchema,
@@ -19,6 +24,13 @@ import {
     updateStockSchema,
     createVariantSchema,
     updateVariantSchema,
+    importProductsQuerySchema,
+    exportProductsQuerySchema,
+    uploadImageSchema,
+    updateImageSchema,
+    reorderImagesSchema,
+    colorSwatchSchema,
+    colorParamSchema,
 } from './schemas';
 import type {
     CreateProductDto,
@@ -27,17 +39,29 @@ import type {
     UpdateStockDto,
     CreateVariantDto,
     UpdateVariantDto,
+    ImportProductsQueryDto,
+    ExportProductsQueryDto,
+    UploadImageDto,
+    UpdateImageDto,
+    ReorderImagesDto,
+    ColorSwatchDto,
 } from './schemas';
 import { JwtAuthGuard, RolesGuard } from '../auth/guards';
 import { ZodValidationPipe } from '../../common/pipes';
-import { Roles } from '../../common/decorators';
+import { Roles, CurrentUser } from '../../common/decorators';
+import type { RequestUser } from '../../common/types';
 import { uuidSchema } from '../../common/schemas';
+import { APP_CONSTANTS } from '../../common/constants';
 
 @Controller('admin/products')
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Roles('ADMIN', 'SUPER_ADMIN')
 export class AdminProductsController {
-    constructor(private readonly productsService: ProductsService) { }
+    constructor(
+        private readonly productsService: ProductsService,
+        private readonly productTransferService: ProductTransferService,
+        private readonly productImagesService: ProductImagesService,
+    ) { }
 
     /**
      * List all products
@@ -51,6 +75,33 @@ export class AdminProductsController {
         return this.productsService.findAll(query);
     }
 
+    /**
+     * Export the catalog as CSV or JSON
+     * GET /api/v1/admin/products/export?format=csv
+     */
+    @Get('export')
+    exportProducts(
+        @Query(new ZodValidationPipe(exportProductsQuerySchema))
+        query: ExportProductsQueryDto,
+    ) {
+        return this.productTransferService.export(query);
+    }
+
+    /**
+     * Import products with variants and images from a CSV or JSON upload (multipart field "file")
+     * POST /api/v1/admin/products/import
+     */
+    @Post('import')
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: APP_CONSTANTS.MAX_IMPORT_SIZE } }))
+    async importProducts(
+        @CurrentUser() user: RequestUser,
+        @UploadedFile() file: Express.Multer.File | undefined,
+        @Query(new ZodValidationPipe(importProductsQuerySchema))
+        query: ImportProductsQueryDto,
+    ) {
+        return this.productTransferService.import(file, query, user.id);
+    }
+
     /**
      * Get product by ID
      * GET /api/v1/admin/products/:id
@@ -115,10 +166,11 @@ export class AdminProductsController {
      */
     @Post(':id/variants')
     async addVariant(
+        @CurrentUser() user: RequestUser,
         @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
         @Body(new ZodValidationPipe(createVariantSchema)) dto: CreateVariantDto,
     ) {
-        return this.productsService.addVariant(id, dto);
+        return this.productsService.addVariant(id, user.id, dto);
     }
 
     /**
@@ -152,10 +204,103 @@ export class AdminProductsController {
      */
     @Put(':id/variants/:variantId/stock')
     async updateVariantStock(
+        @CurrentUser() user: RequestUser,
         @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
         @Param('variantId', new ZodValidationPipe(uuidSchema)) variantId: string,
         @Body(new ZodValidationPipe(updateStockSchema)) dto: UpdateStockDto,
     ) {
-        return this.productsService.updateVariantStock(id, variantId, dto);
+        return this.productsService.updateVariantStock(id, variantId, user.id, dto);
+    }
+
+    // ============ IMAGES ============
+
+    /**
+     * Upload product image (multipart field "file")
+     * POST /api/v1/admin/products/:id/images
+     */
+    @Post(':id/images')
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: APP_CONSTANTS.MAX_FILE_SIZE } }))
+    async uploadImage(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @UploadedFile() file: Express.Multer.File | undefined,
+        @Body(new ZodValidationPipe(uploadImageSchema)) dto: UploadImageDto,
+    ) {
+        return this.productImagesService.upload(id, file, dto);
+    }
+
+    /**
+     * Reorder product images
+     * PUT /api/v1/admin/products/:id/images/order
+     */
+    @Put(':id/images/order')
+    async reorderImages(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Body(new ZodValidationPipe(reorderImagesSchema)) dto: ReorderImagesDto,
+    ) {
+        return this.productImagesService.reorder(id, dto);
+    }
+
+    /**
+     * Set primary product image
+     * PUT /api/v1/admin/products/:id/images/:imageId/primary
+     */
+    @Put(':id/images/:imageId/primary')
+    async setPrimaryImage(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Param('imageId', new ZodValidationPipe(uuidSchema)) imageId: string,
+    ) {
+        return this.productImagesService.setPrimary(id, imageId);
+    }
+
+    /**
+     * Update product image alt text
+     * PUT /api/v1/admin/products/:id/images/:imageId
+     */
+    @Put(':id/images/:imageId')
+    async updateImage(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Param('imageId', new ZodValidationPipe(uuidSchema)) imageId: string,
+        @Body(new ZodValidationPipe(updateImageSchema)) dto: UpdateImageDto,
+    ) {
+        return this.productImagesService.update(id, imageId, dto);
+    }
+
+    /**
+     * Delete product image
+     * DELETE /api/v1/admin/products/:id/images/:imageId
+     */
+    @Delete(':id/images/:imageId')
+    async deleteImage(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Param('imageId', new ZodValidationPipe(uuidSchema)) imageId: string,
+    ) {
+        return this.productImagesService.delete(id, imageId);
+    }
+
+    // ============ COLOR SWATCHES ============
+
+    /**
+     * Set color swatch (hex or image URL)
+     * PUT /api/v1/admin/products/:id/colors/:color/swatch
+     */
+    @Put(':id/colors/:color/swatch')
+    async setSwatch(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Param('color', new ZodValidationPipe(colorParamSchema)) color: string,
+        @Body(new ZodValidationPipe(colorSwatchSchema)) dto: ColorSwatchDto,
+    ) {
+        return this.productImagesService.setSwatch(id, color, dto);
+    }
+
+    /**
+     * Delete color swatch
+     * DELETE /api/v1/admin/products/:id/colors/:color/swatch
+     */
+    @Delete(':id/colors/:color/swatch')
+    async deleteSwatch(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Param('color', new ZodValidationPipe(colorParamSchema)) color: string,
+    ) {
+        return this.productImagesService.deleteSwatch(id, color);
     }
 }
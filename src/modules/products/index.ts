@@ -1,5 +1,7 @@
 export * from './products.module';
 export * from './products.service';
+export * from './product-transfer.service';
+export * from './product-images.service';
 export * from './products.controller';
 export * from './admin-products.controller';
 export * from './schemas';
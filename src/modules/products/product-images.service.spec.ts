@@ -0,0 +1,67 @@
+import { ProductImagesService } from './product-images.service';
+import type { ImageStorage } from './providers';
+import type { PrismaService, PrismaTransactionClient } from '../../prisma';
+
+describe('ProductImagesService', () => {
+  let service: ProductImagesService;
+  let tx: {
+    productVariant: { count: jest.Mock };
+    productImage: { updateMany: jest.Mock };
+    productColorSwatch: { findUnique: jest.Mock; updateMany: jest.Mock; deleteMany: jest.Mock };
+  };
+
+  const renameColor = (from: string, to: string) =>
+    service.renameColor(tx as unknown as PrismaTransactionClient, 'product-1', from, to);
+
+  beforeEach(() => {
+    service = new ProductImagesService({} as PrismaService, {} as ImageStorage);
+    tx = {
+      productVariant: { count: jest.fn().mockResolvedValue(0) },
+      productImage: { updateMany: jest.fn() },
+      productColorSwatch: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        updateMany: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+    };
+  });
+
+  it('moves images and the swatch to the new color name', async () => {
+    await renameColor('Indigo', 'Navy');
+
+    expect(tx.productImage.updateMany).toHaveBeenCalledWith({
+      where: { productId: 'product-1', color: 'Indigo' },
+      data: { color: 'Navy' },
+    });
+    expect(tx.productColorSwatch.updateMany).toHaveBeenCalledWith({
+      where: { productId: 'product-1', color: 'Indigo' },
+      data: { color: 'Navy' },
+    });
+  });
+
+  it('keeps the swatch the new color already has', async () => {
+    tx.productColorSwatch.findUnique.mockResolvedValue({ color: 'Navy' });
+
+    await renameColor('Indigo', 'Navy');
+
+    expect(tx.productColorSwatch.deleteMany).toHaveBeenCalledWith({
+      where: { productId: 'product-1', color: 'Indigo' },
+    });
+    expect(tx.productColorSwatch.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('leaves the images alone while another variant still has the old color', async () => {
+    tx.productVariant.count.mockResolvedValue(2);
+
+    await renameColor('Indigo', 'Navy');
+
+    expect(tx.productImage.updateMany).not.toHaveBeenCalled();
+    expect(tx.productColorSwatch.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when the color is unchanged', async () => {
+    await renameColor('Indigo', 'Indigo');
+
+    expect(tx.productVariant.count).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,381 @@
+// Product Images Service - upload, order and remove product images and color swatches
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma';
+import type { PrismaTransactionClient } from '../../prisma';
+import { IMAGE_STORAGE } from './providers';
+import type { ImageStorage } from './providers';
+import type {
+    UploadImageDto,
+    UpdateImageDto,
+    ReorderImagesDto,
+    ColorSwatchDto,
+} from './schemas';
+import type { ProductImageResponse, ColorSwatchResponse } from './products.service';
+import type { ApiResponse } from '../../common/types';
+import { APP_CONSTANTS, MESSAGES } from '../../common/constants';
+import {
+    BadRequestException,
+    NotFoundException,
+    ProductNotFoundException,
+} from '../../common/filters';
+import {
+    successResponse,
+    createdResponse,
+    updatedResponse,
+    deletedResponse,
+    detectImageType,
+} from '../../common/helpers';
+
+@Injectable()
+export class ProductImagesService {
+    private readonly logger = new Logger(ProductImagesService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        @Inject(IMAGE_STORAGE) private readonly storage: ImageStorage,
+    ) { }
+
+    /**
+     * Upload an image to a product - the first image becomes primary
+     */
+    async upload(
+        productId: string,
+        file: Express.Multer.File | undefined,
+        dto: UploadImageDto,
+    ): Promise<ApiResponse<ProductImageResponse>> {
+        if (!file) {
+            throw new BadRequestException(MESSAGES.PRODUCT.IMAGE_REQUIRED);
+        }
+
+        // The declared type must match the file's contents
+        const mimetype = detectImageType(file.buffer);
+        if (
+            !mimetype ||
+            mimetype !== file.mimetype ||
+            !(APP_CONSTANTS.ALLOWED_IMAGE_TYPES as readonly string[]).includes(mimetype)
+        ) {
+            throw new BadRequestException(MESSAGES.PRODUCT.INVALID_IMAGE_TYPE);
+        }
+
+        await this.assertProductExists(productId);
+        const color = await this.resolveColor(productId, dto);
+
+        const count = await this.prisma.productImage.count({ where: { productId } });
+        if (count >= APP_CONSTANTS.MAX_PRODUCT_IMAGES) {
+            throw new BadRequestException(
+                MESSAGES.PRODUCT.TOO_MANY_IMAGES(APP_CONSTANTS.MAX_PRODUCT_IMAGES),
+            );
+        }
+
+        const stored = await this.storage.upload(
+            { buffer: file.buffer, mimetype, originalname: file.originalname },
+            `products/${productId}`,
+        );
+
+        try {
+            const isPrimary = dto.isPrimary || count === 0;
+
+            const image = await this.prisma.$transaction(async (tx) => {
+                if (isPrimary) {
+                    await tx.productImage.updateMany({
+                        where: { productId },
+                        data: { isPrimary: false },
+                    });
+                }
+
+                const last = await tx.productImage.findFirst({
+                    where: { productId },
+                    orderBy: { sortOrder: 'desc' },
+                    select: { sortOrder: true },
+                });
+
+                return tx.productImage.create({
+                    data: {
+                        productId,
+                        url: stored.url,
+                        storageKey: stored.key,
+                        altText: dto.altText,
+                        color,
+                        sortOrder: last ? last.sortOrder + 1 : 0,
+                        isPrimary,
+                    },
+                });
+            });
+
+            this.logger.log(`Image uploaded to product ${productId} (${this.storage.name})`);
+
+            return createdResponse(image, MESSAGES.PRODUCT.IMAGE_UPLOADED);
+        } catch (error) {
+            // Don't leave an orphaned file behind
+            await this.removeStoredImage(stored.key);
+            throw error;
+        }
+    }
+
+    /**
+     * Edit an image's alt text or color
+     */
+    async update(
+        productId: string,
+        imageId: string,
+        dto: UpdateImageDto,
+    ): Promise<ApiResponse<ProductImageResponse>> {
+        await this.findImage(productId, imageId);
+        const color = await this.resolveColor(productId, dto);
+
+        const image = await this.prisma.productImage.update({
+            where: { id: imageId },
+            data: { altText: dto.altText, color },
+        });
+
+        return updatedResponse(image, MESSAGES.PRODUCT.IMAGE_UPDATED);
+    }
+
+    /**
+     * Make an image the product's primary image
+     */
+    async setPrimary(
+        productId: string,
+        imageId: string,
+    ): Promise<ApiResponse<ProductImageResponse>> {
+        await this.findImage(productId, imageId);
+
+        const [, image] = await this.prisma.$transaction([
+            this.prisma.productImage.updateMany({
+                where: { productId, NOT: { id: imageId } },
+                data: { isPrimary: false },
+            }),
+            this.prisma.productImage.update({
+                where: { id: imageId },
+                data: { isPrimary: true },
+            }),
+        ]);
+
+        return updatedResponse(image, MESSAGES.PRODUCT.PRIMARY_IMAGE_SET);
+    }
+
+    /**
+     * Set the display order of a product's images
+     */
+    async reorder(
+        productId: string,
+        dto: ReorderImagesDto,
+    ): Promise<ApiResponse<ProductImageResponse[]>> {
+        await this.assertProductExists(productId);
+
+        const images = await this.prisma.productImage.findMany({
+            where: { productId },
+            select: { id: true },
+        });
+
+        const ids = new Set(dto.imageIds);
+        if (
+            ids.size !== dto.imageIds.length ||
+            ids.size !== images.length ||
+            images.some((image) => !ids.has(image.id))
+        ) {
+            throw new BadRequestException(MESSAGES.PRODUCT.IMAGE_ORDER_MISMATCH);
+        }
+
+        await this.prisma.$transaction(
+            dto.imageIds.map((id, index) =>
+                this.prisma.productImage.update({
+                    where: { id },
+                    data: { sortOrder: index },
+                }),
+            ),
+        );
+
+        const reordered = await this.prisma.productImage.findMany({
+            where: { productId },
+            orderBy: { sortOrder: 'asc' },
+        });
+
+        return successResponse(reordered, MESSAGES.PRODUCT.IMAGES_REORDERED);
+    }
+
+    /**
+     * Delete an image - the next image is promoted if it was primary
+     */
+    async delete(productId: string, imageId: string): Promise<ApiResponse<null>> {
+        const image = await this.findImage(productId, imageId);
+
+        await this.prisma.$transaction(async (tx) => {
+            await tx.productImage.delete({ where: { id: imageId } });
+
+            if (image.isPrimary) {
+                const next = await tx.productImage.findFirst({
+                    where: { productId },
+                    orderBy: { sortOrder: 'asc' },
+                    select: { id: true },
+                });
+
+                if (next) {
+                    await tx.productImage.update({
+                        where: { id: next.id },
+                        data: { isPrimary: true },
+                    });
+                }
+            }
+        });
+
+        if (image.storageKey) {
+            await this.removeStoredImage(image.storageKey);
+        }
+
+        this.logger.log(`Image ${imageId} removed from product ${productId}`);
+
+        return deletedResponse(MESSAGES.PRODUCT.IMAGE_DELETED);
+    }
+
+    // ============ COLOR SWATCHES ============
+
+    /**
+     * Set the swatch shown for a product color
+     */
+    async setSwatch(
+        productId: string,
+        color: string,
+        dto: ColorSwatchDto,
+    ): Promise<ApiResponse<ColorSwatchResponse>> {
+        await this.assertProductExists(productId);
+        const variantColor = await this.findVariantColor(productId, color);
+
+        const swatch = await this.prisma.productColorSwatch.upsert({
+            where: { productId_color: { productId, color: variantColor } },
+            create: { productId, color: variantColor, hex: dto.hex ?? null, imageUrl: dto.imageUrl ?? null },
+            update: { hex: dto.hex ?? null, imageUrl: dto.imageUrl ?? null },
+        });
+
+        return updatedResponse(swatch, MESSAGES.PRODUCT.SWATCH_UPDATED);
+    }
+
+    /**
+     * Remove a color's swatch
+     */
+    async deleteSwatch(productId: string, color: string): Promise<ApiResponse<null>> {
+        const { count } = await this.prisma.productColorSwatch.deleteMany({
+            where: { productId, color: { equals: color, mode: 'insensitive' } },
+        });
+
+        if (count === 0) {
+            throw new NotFoundException('Swatch');
+        }
+
+        return deletedResponse(MESSAGES.PRODUCT.SWATCH_DELETED);
+    }
+
+    /**
+     * Carry a color's images and swatch over when a variant's color is renamed
+     * Call in the renaming transaction, after the variant is saved; nothing moves while
+     * another variant still has the old color
+     */
+    async renameColor(
+        tx: PrismaTransactionClient,
+        productId: string,
+        from: string,
+        to: string,
+    ): Promise<void> {
+        if (from === to) {
+            return;
+        }
+
+        const remaining = await tx.productVariant.count({ where: { productId, color: from } });
+        if (remaining > 0) {
+            return;
+        }
+
+        await tx.productImage.updateMany({
+            where: { productId, color: from },
+            data: { color: to },
+        });
+
+        // A color that already has a swatch keeps it
+        const existing = await tx.productColorSwatch.findUnique({
+            where: { productId_color: { productId, color: to } },
+        });
+
+        if (existing) {
+            await tx.productColorSwatch.deleteMany({ where: { productId, color: from } });
+        } else {
+            await tx.productColorSwatch.updateMany({
+                where: { productId, color: from },
+                data: { color: to },
+            });
+        }
+    }
+
+    /**
+     * Resolve the color an image belongs to - undefined leaves it unchanged, null makes it shared
+     */
+    private async resolveColor(
+        productId: string,
+        dto: { color?: string | null; variantId?: string },
+    ): Promise<string | null | undefined> {
+        if (dto.variantId) {
+            const variant = await this.prisma.productVariant.findFirst({
+                where: { id: dto.variantId, productId },
+                select: { color: true },
+            });
+
+            if (!variant) {
+                throw new NotFoundException('Variant');
+            }
+
+            return variant.color;
+        }
+
+        return dto.color ? this.findVariantColor(productId, dto.color) : dto.color;
+    }
+
+    /**
+     * Match a color to the product's variants, using the variant's spelling
+     */
+    private async findVariantColor(productId: string, color: string): Promise<string> {
+        const variant = await this.prisma.productVariant.findFirst({
+            where: { productId, color: { equals: color, mode: 'insensitive' } },
+            select: { color: true },
+        });
+
+        if (!variant) {
+            throw new BadRequestException(MESSAGES.PRODUCT.UNKNOWN_COLOR(color));
+        }
+
+        return variant.color;
+    }
+
+    private async assertProductExists(productId: string): Promise<void> {
+        const product = await this.prisma.product.findUnique({
+            where: { id: productId },
+            select: { id: true },
+        });
+
+        if (!product) {
+            throw new ProductNotFoundException();
+        }
+    }
+
+    private async findImage(productId: string, imageId: string) {
+        const image = await this.prisma.productImage.findFirst({
+            where: { id: imageId, productId },
+        });
+
+        if (!image) {
+            throw new NotFoundException('Image');
+        }
+
+        return image;
+    }
+
+    /**
+     * Storage cleanup failures are logged, never thrown - the database is the source of truth
+     */
+    private async removeStoredImage(key: string): Promise<void> {
+        try {
+            await this.storage.delete(key);
+        } catch (error) {
+            this.logger.warn(`Could not delete stored image ${key}: ${(error as Error).message}`);
+        }
+    }
+}
@@ -0,0 +1,191 @@
+import { ProductTransferService } from './product-transfer.service';
+import type { ProductImagesService } from './product-images.service';
+import type { ImageStorage } from './providers';
+import type { InventoryService } from '../inventory/inventory.service';
+import type { ProductSearchService } from '../search/product-search.service';
+import type { PrismaService } from '../../prisma';
+import { MESSAGES } from '../../common/constants';
+
+interface FakeVariant {
+  id: string;
+  productId: string;
+  sku: string;
+  color: string;
+  stockQuantity: number;
+  reservedQuantity: number;
+}
+
+interface FakeState {
+  products: Array<{ id: string; slug: string; name: string }>;
+  variants: FakeVariant[];
+}
+
+/**
+ * In-memory stand-in for products and variants keyed by slug and SKU
+ * Transactions run straight through, so rejected imports are checked by what was never written
+ */
+function createFakePrisma(state: FakeState) {
+  const prisma = {
+    $transaction: (callback: (tx: unknown) => Promise<unknown>) => callback(prisma),
+    category: {
+      findMany: () => Promise.resolve([{ id: 'category-1', slug: 'shirts' }]),
+    },
+    product: {
+      findUnique: ({ where }: { where: { slug: string } }) =>
+        Promise.resolve(state.products.find((product) => product.slug === where.slug) ?? null),
+      create: ({ data }: { data: { slug: string; name: string } }) => {
+        const product = { id: `product-${state.products.length + 1}`, slug: data.slug, name: data.name };
+        state.products.push(product);
+        return Promise.resolve(product);
+      },
+      update: jest.fn(({ where }: { where: { id: string } }) =>
+        Promise.resolve(state.products.find((product) => product.id === where.id)),
+      ),
+    },
+    productVariant: {
+      // SKUs owned by other products
+      findMany: () => Promise.resolve([]),
+      findUnique: ({ where }: { where: { sku: string } }) =>
+        Promise.resolve(state.variants.find((variant) => variant.sku === where.sku) ?? null),
+      findUniqueOrThrow: ({ where }: { where: { id: string } }) =>
+        Promise.resolve({ ...state.variants.find((variant) => variant.id === where.id)! }),
+      create: ({ data }: { data: Omit<FakeVariant, 'id' | 'reservedQuantity'> }) => {
+        const variant = { ...data, id: `variant-${state.variants.length + 1}`, reservedQuantity: 0 };
+        state.variants.push(variant);
+        return Promise.resolve(variant);
+      },
+      update: jest.fn(({ where, data }: { where: { id: string }; data: Partial<FakeVariant> }) => {
+        const variant = state.variants.find((item) => item.id === where.id)!;
+        // Like Prisma, undefined fields are left as they are
+        Object.assign(variant, JSON.parse(JSON.stringify(data)));
+        return Promise.resolve({ ...variant });
+      }),
+    },
+  };
+  return prisma;
+}
+
+describe('ProductTransferService', () => {
+  const header = 'slug,name,description,categorySlug,basePrice,sku,color,size,stockQuantity';
+  let state: FakeState;
+  let prisma: ReturnType<typeof createFakePrisma>;
+  let inventoryService: { recordMovements: jest.Mock; lockVariants: jest.Mock };
+  let productSearchService: { reindex: jest.Mock };
+  let service: ProductTransferService;
+
+  const importCsv = (...lines: string[]) =>
+    service.import(
+      {
+        originalname: 'products.csv',
+        mimetype: 'text/csv',
+        buffer: Buffer.from([header, ...lines].join('\n')),
+      } as Express.Multer.File,
+      {},
+      'admin-1',
+    );
+
+  beforeEach(() => {
+    state = { products: [], variants: [] };
+    prisma = createFakePrisma(state);
+    inventoryService = { recordMovements: jest.fn(), lockVariants: jest.fn() };
+    productSearchService = { reindex: jest.fn() };
+    service = new ProductTransferService(
+      prisma as unknown as PrismaService,
+      inventoryService as unknown as InventoryService,
+      productSearchService as unknown as ProductSearchService,
+      { renameColor: jest.fn() } as unknown as ProductImagesService,
+      {} as ImageStorage,
+    );
+  });
+
+  describe('CSV import', () => {
+    it('groups the lines of each product by slug', async () => {
+      const { data } = await importCsv(
+        'adire-shirt,Adire Shirt,Hand-dyed indigo cotton shirt,shirts,15000,ADR-M,Indigo,M,4',
+        'kaftan,Kaftan,Embroidered cotton kaftan,shirts,22000,KFT-L,White,L,2',
+        'adire-shirt,,,,,ADR-L,Indigo,L,6',
+      );
+
+      expect(data).toMatchObject({ total: 2, created: 2, updated: 0, failed: 0 });
+      expect(data.results).toEqual([
+        expect.objectContaining({ rows: [2, 4], slug: 'adire-shirt', status: 'CREATED', variantsCreated: 2 }),
+        expect.objectContaining({ rows: [3], slug: 'kaftan', status: 'CREATED', variantsCreated: 1 }),
+      ]);
+      expect(state.variants.map(({ sku, productId, stockQuantity }) => [sku, productId, stockQuantity])).toEqual([
+        ['ADR-M', 'product-1', 4],
+        ['ADR-L', 'product-1', 6],
+        ['KFT-L', 'product-2', 2],
+      ]);
+      expect(productSearchService.reindex).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports validation errors against every line of the product', async () => {
+      const { data } = await importCsv(
+        'adire-shirt,Adire Shirt,Too short,shirts,15000,ADR-M,Indigo,M,4',
+        'adire-shirt,,,,,ADR-L,Indigo,L,6',
+      );
+
+      expect(data.results).toEqual([
+        expect.objectContaining({
+          rows: [2, 3],
+          status: 'FAILED',
+          errors: ['description: Description must be at least 10 characters'],
+        }),
+      ]);
+      expect(state.products).toHaveLength(0);
+    });
+
+    describe('existing variants', () => {
+      beforeEach(() => {
+        state.products.push({ id: 'product-1', slug: 'adire-shirt', name: 'Adire Shirt' });
+        state.variants.push({
+          id: 'variant-1',
+          productId: 'product-1',
+          sku: 'ADR-M',
+          color: 'Indigo',
+          stockQuantity: 5,
+          reservedQuantity: 3,
+        });
+      });
+
+      it('rejects stock below the units held for unpaid orders', async () => {
+        const { data } = await importCsv(
+          'adire-shirt,Adire Shirt,Hand-dyed indigo cotton shirt,shirts,15000,ADR-M,Indigo,M,2',
+        );
+
+        expect(data.results).toEqual([
+          {
+            rows: [2],
+            slug: 'adire-shirt',
+            status: 'FAILED',
+            variantsCreated: 0,
+            variantsUpdated: 0,
+            errors: [`ADR-M: ${MESSAGES.INVENTORY.BELOW_RESERVED(2, 3)}`],
+          },
+        ]);
+        expect(inventoryService.lockVariants).toHaveBeenCalledWith(prisma, ['variant-1']);
+        expect(prisma.productVariant.update).not.toHaveBeenCalled();
+        expect(productSearchService.reindex).not.toHaveBeenCalled();
+      });
+
+      it('records the stock change of an allowed count in the ledger', async () => {
+        const { data } = await importCsv(
+          'adire-shirt,Adire Shirt,Hand-dyed indigo cotton shirt,shirts,15000,ADR-M,Indigo,M,3',
+        );
+
+        expect(data.results[0]).toMatchObject({ status: 'UPDATED', variantsUpdated: 1 });
+        expect(state.variants[0].stockQuantity).toBe(3);
+        expect(inventoryService.recordMovements).toHaveBeenCalledWith(prisma, [
+          { variantId: 'variant-1', delta: -2, reason: 'ADJUSTMENT', actorId: 'admin-1', note: 'Product import' },
+        ]);
+      });
+
+      it('leaves the count alone when the stock cell is empty', async () => {
+        await importCsv('adire-shirt,Adire Shirt,Hand-dyed indigo cotton shirt,shirts,15000,ADR-M,Indigo,M,');
+
+        expect(state.variants[0].stockQuantity).toBe(5);
+        expect(inventoryService.recordMovements).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
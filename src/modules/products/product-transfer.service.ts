@@ -0,0 +1,606 @@
+// Product Transfer Service - catalog import and export
+
+import { Inject, Injectable, Logger, StreamableFile } from '@nestjs/common';
+import { Readable } from 'stream';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma';
+import type { PrismaTransactionClient } from '../../prisma';
+import { InventoryService } from '../inventory/inventory.service';
+import { ProductSearchService } from '../search/product-search.service';
+import { ProductImagesService } from './product-images.service';
+import { IMAGE_STORAGE } from './providers';
+import type { ImageStorage } from './providers';
+import { importProductSchema } from './schemas';
+import type {
+    ImportProductDto,
+    ImportProductsQueryDto,
+    ExportProductsQueryDto,
+    ProductTransferRecord,
+} from './schemas';
+import type { ApiResponse } from '../../common/types';
+import { APP_CONSTANTS, MESSAGES } from '../../common/constants';
+import { BadRequestException } from '../../common/filters';
+import { successResponse, parseCsv, toCsvRow } from '../../common/helpers';
+
+// CSV layout - one line per variant, product columns repeated on each line
+const PRODUCT_CSV_COLUMNS = [
+    'slug',
+    'name',
+    'description',
+    'shortDescription',
+    'categorySlug',
+    'gender',
+    'basePrice',
+    'compareAtPrice',
+    'weightKg',
+    'isFeatured',
+    'isActive',
+    'metaTitle',
+    'metaDescription',
+    'images',
+    'sku',
+    'color',
+    'size',
+    'priceModifier',
+    'stockQuantity',
+    'lowStockThreshold',
+    'variantIsActive',
+] as const;
+
+// Image URLs share one CSV cell
+const IMAGE_SEPARATOR = '|';
+
+// Rolls back one product's import and is reported against its rows
+class ImportRejectedError extends Error { }
+
+export interface ProductImportResult {
+    rows: number[];
+    slug: string;
+    status: 'CREATED' | 'UPDATED' | 'FAILED';
+    variantsCreated: number;
+    variantsUpdated: number;
+    errors: string[];
+}
+
+export interface ProductImportReport {
+    total: number;
+    created: number;
+    updated: number;
+    failed: number;
+    results: ProductImportResult[];
+}
+
+// One product read from the file, before validation
+interface ImportEntry {
+    rows: number[];
+    slug: string;
+    data: unknown;
+}
+
+@Injectable()
+export class ProductTransferService {
+    private readonly logger = new Logger(ProductTransferService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly inventoryService: InventoryService,
+        private readonly productSearchService: ProductSearchService,
+        private readonly productImagesService: ProductImagesService,
+        @Inject(IMAGE_STORAGE) private readonly storage: ImageStorage,
+    ) { }
+
+    // ============ IMPORT ============
+
+    /**
+     * Import products from a CSV or JSON file (admin)
+     * Each product is saved in its own transaction, so one bad product does not block the rest
+     */
+    async import(
+        file: Express.Multer.File | undefined,
+        query: ImportProductsQueryDto,
+        actorId: string,
+    ): Promise<ApiResponse<ProductImportReport>> {
+        if (!file) {
+            throw new BadRequestException(MESSAGES.PRODUCT.IMPORT_FILE_REQUIRED);
+        }
+
+        const format =
+            query.format ??
+            (file.originalname.toLowerCase().endsWith('.json') || file.mimetype === 'application/json'
+                ? 'json'
+                : 'csv');
+        const content = file.buffer.toString('utf8');
+        const entries = format === 'json' ? this.readJson(content) : this.readCsv(content);
+
+        if (entries.length === 0) {
+            throw new BadRequestException(MESSAGES.PRODUCT.IMPORT_EMPTY);
+        }
+
+        if (entries.length > APP_CONSTANTS.MAX_IMPORT_PRODUCTS) {
+            throw new BadRequestException(
+                MESSAGES.PRODUCT.IMPORT_TOO_MANY(APP_CONSTANTS.MAX_IMPORT_PRODUCTS),
+            );
+        }
+
+        const categories = await this.prisma.category.findMany({
+            select: { id: true, slug: true },
+        });
+        const categoryIds = new Map(categories.map((category) => [category.slug, category.id]));
+
+        const results: ProductImportResult[] = [];
+        for (const entry of entries) {
+            results.push(await this.importEntry(entry, categoryIds, actorId));
+        }
+
+        const report: ProductImportReport = {
+            total: results.length,
+            created: results.filter((result) => result.status === 'CREATED').length,
+            updated: results.filter((result) => result.status === 'UPDATED').length,
+            failed: results.filter((result) => result.status === 'FAILED').length,
+            results,
+        };
+
+        this.logger.log(
+            `Product import by ${actorId}: ${report.created} created, ${report.updated} updated, ${report.failed} failed`,
+        );
+
+        return successResponse(
+            report,
+            MESSAGES.PRODUCT.IMPORTED(report.created, report.updated, report.failed),
+        );
+    }
+
+    /**
+     * Read a JSON array of products - row numbers are 1-based array positions
+     */
+    private readJson(content: string): ImportEntry[] {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content.replace(/^\uFEFF/, ''));
+        } catch {
+            throw new BadRequestException(MESSAGES.PRODUCT.IMPORT_INVALID_JSON);
+        }
+
+        if (!Array.isArray(parsed)) {
+            throw new BadRequestException(MESSAGES.PRODUCT.IMPORT_INVALID_JSON);
+        }
+
+        return parsed.map((data: unknown, index) => ({
+            rows: [index + 1],
+            slug: this.readSlug(data),
+            data,
+        }));
+    }
+
+    /**
+     * Read CSV lines and group them into products by slug
+     * Product columns come from the first line of each product
+     */
+    private readCsv(content: string): ImportEntry[] {
+        const groups = new Map<string, { rows: number[]; records: Array<Record<string, string>> }>();
+
+        parseCsv(content).forEach((record, index) => {
+            // The header is line 1, so data starts on line 2
+            const row = index + 2;
+            const key = record.slug || `row:${row}`;
+            const group = groups.get(key) ?? { rows: [], records: [] };
+
+            group.rows.push(row);
+            group.records.push(record);
+            groups.set(key, group);
+        });
+
+        return [...groups.values()].map(({ rows, records }) => {
+            const [first] = records;
+
+            return {
+                rows,
+                slug: first.slug ?? '',
+                data: {
+                    slug: this.cell(first.slug),
+                    name: this.cell(first.name),
+                    description: this.cell(first.description),
+                    shortDescription: this.cell(first.shortDescription),
+                    categorySlug: this.cell(first.categorySlug),
+                    gender: this.cell(first.gender),
+                    basePrice: this.numberCell(first.basePrice),
+                    compareAtPrice: this.numberCell(first.compareAtPrice),
+                    weightKg: this.numberCell(first.weightKg),
+                    isFeatured: this.booleanCell(first.isFeatured),
+                    isActive: this.booleanCell(first.isActive),
+                    metaTitle: this.cell(first.metaTitle),
+                    metaDescription: this.cell(first.metaDescription),
+                    images: (first.images ?? '')
+                        .split(IMAGE_SEPARATOR)
+                        .map((url) => url.trim())
+                        .filter(Boolean),
+                    // A line without a SKU describes the product only
+                    variants: records
+                        .filter((record) => record.sku)
+                        .map((record) => ({
+                            sku: record.sku,
+                            color: this.cell(record.color),
+                            size: this.cell(record.size),
+                            priceModifier: this.numberCell(record.priceModifier),
+                            stockQuantity: this.numberCell(record.stockQuantity),
+                            lowStockThreshold: this.numberCell(record.lowStockThreshold),
+                            isActive: this.booleanCell(record.variantIsActive),
+                        })),
+                },
+            };
+        });
+    }
+
+    /**
+     * Empty cells fall back to the schema defaults
+     */
+    private cell(value: string | undefined): string | undefined {
+        return value === undefined || value === '' ? undefined : value;
+    }
+
+    private numberCell(value: string | undefined): number | undefined {
+        return value === undefined || value === '' ? undefined : Number(value);
+    }
+
+    // Anything other than true/false is passed on for the schema to reject
+    private booleanCell(value: string | undefined): boolean | string | undefined {
+        if (value === undefined || value === '') return undefined;
+        const normalized = value.toLowerCase();
+        if (normalized === 'true') return true;
+        if (normalized === 'false') return false;
+        return value;
+    }
+
+    private readSlug(data: unknown): string {
+        if (data && typeof data === 'object' && 'slug' in data && typeof data.slug === 'string') {
+            return data.slug;
+        }
+        return '';
+    }
+
+    /**
+     * Validate and upsert one product with its images and variants
+     */
+    private async importEntry(
+        entry: ImportEntry,
+        categoryIds: Map<string, string>,
+        actorId: string,
+    ): Promise<ProductImportResult> {
+        const result: ProductImportResult = {
+            rows: entry.rows,
+            slug: entry.slug,
+            status: 'FAILED',
+            variantsCreated: 0,
+            variantsUpdated: 0,
+            errors: [],
+        };
+
+        const parsed = importProductSchema.safeParse(entry.data);
+        if (!parsed.success) {
+            result.errors = parsed.error.issues.map((issue) =>
+                issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+            );
+            return result;
+        }
+
+        const { categorySlug, images, variants, ...fields } = parsed.data;
+        const categoryId = categoryIds.get(categorySlug);
+
+        result.errors = await this.findSkuConflicts(fields.slug, variants);
+        if (!categoryId) {
+            result.errors.unshift(MESSAGES.PRODUCT.UNKNOWN_CATEGORY(categorySlug));
+        }
+        if (!categoryId || result.errors.length > 0) {
+            return result;
+        }
+
+        try {
+            const { productId, removedKeys, ...imported } = await this.prisma.$transaction(async (tx) => {
+                const data = { ...fields, categoryId };
+
+                const existing = await tx.product.findUnique({
+                    where: { slug: fields.slug },
+                    select: { id: true },
+                });
+
+                const saved = existing
+                    ? await tx.product.update({ where: { id: existing.id }, data })
+                    : await tx.product.create({ data });
+
+                // Listed images replace the current gallery, the first one becomes primary
+                const removedKeys = images.length > 0 ? await this.syncImages(tx, saved.id, images) : [];
+
+                for (const variant of variants) {
+                    const created = await this.upsertVariant(tx, saved.id, variant, actorId);
+                    if (created) {
+                        result.variantsCreated++;
+                    } else {
+                        result.variantsUpdated++;
+                    }
+                }
+
+                return {
+                    ...result,
+                    status: existing ? 'UPDATED' : 'CREATED',
+                    productId: saved.id,
+                    removedKeys,
+                } as const;
+            });
+
+            await this.productSearchService.reindex([productId]);
+
+            // Uploaded images dropped from the gallery are removed from storage once committed
+            for (const key of removedKeys) {
+                await this.storage.delete(key).catch((error: Error) =>
+                    this.logger.warn(`Could not delete stored image ${key}: ${error.message}`),
+                );
+            }
+
+            return imported;
+        } catch (error) {
+            if (error instanceof ImportRejectedError) {
+                return {
+                    ...result,
+                    variantsCreated: 0,
+                    variantsUpdated: 0,
+                    errors: [error.message],
+                };
+            }
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                // The transaction rolled back, so nothing from this product was saved
+                return {
+                    ...result,
+                    variantsCreated: 0,
+                    variantsUpdated: 0,
+                    errors: [MESSAGES.PRODUCT.VARIANT_CONFLICT],
+                };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Match the gallery to the listed URLs, keeping images that are already there
+     * Returns the storage keys of uploaded images that were dropped
+     */
+    private async syncImages(
+        tx: PrismaTransactionClient,
+        productId: string,
+        urls: string[],
+    ): Promise<string[]> {
+        const current = await tx.productImage.findMany({ where: { productId } });
+        const removed = current.filter((image) => !urls.includes(image.url));
+
+        await tx.productImage.deleteMany({
+            where: { id: { in: removed.map((image) => image.id) } },
+        });
+
+        for (const [index, url] of urls.entries()) {
+            const existing = current.find((image) => image.url === url);
+            const data = { sortOrder: index, isPrimary: index === 0 };
+
+            if (existing) {
+                await tx.productImage.update({ where: { id: existing.id }, data });
+            } else {
+                await tx.productImage.create({ data: { ...data, productId, url } });
+            }
+        }
+
+        return removed.flatMap((image) => (image.storageKey ? [image.storageKey] : []));
+    }
+
+    /**
+     * Check the product's SKUs are unique and not used by other products
+     */
+    private async findSkuConflicts(
+        slug: string,
+        variants: ImportProductDto['variants'],
+    ): Promise<string[]> {
+        const errors: string[] = [];
+        const skus = variants.map((variant) => variant.sku);
+        for (const sku of new Set(skus.filter((sku, index) => skus.indexOf(sku) !== index))) {
+            errors.push(MESSAGES.PRODUCT.DUPLICATE_SKU(sku));
+        }
+
+        const owned = await this.prisma.productVariant.findMany({
+            where: { sku: { in: skus }, product: { slug: { not: slug } } },
+            select: { sku: true },
+        });
+        for (const { sku } of owned) {
+            errors.push(MESSAGES.PRODUCT.SKU_TAKEN(sku));
+        }
+
+        return errors;
+    }
+
+    /**
+     * Create or update a variant by SKU - stock changes are recorded in the ledger
+     * Returns true when the variant was created
+     */
+    private async upsertVariant(
+        tx: PrismaTransactionClient,
+        productId: string,
+        variant: ImportProductDto['variants'][number],
+        actorId: string,
+    ): Promise<boolean> {
+        const existing = await tx.productVariant.findUnique({
+            where: { sku: variant.sku },
+            select: { id: true },
+        });
+
+        if (!existing) {
+            const created = await tx.productVariant.create({
+                data: { ...variant, stockQuantity: variant.stockQuantity ?? 0, productId },
+            });
+
+            await this.inventoryService.recordMovements(tx, [
+                {
+                    variantId: created.id,
+                    delta: created.stockQuantity,
+                    reason: 'RESTOCK',
+                    actorId,
+                    note: 'Opening stock',
+                },
+            ]);
+
+            return true;
+        }
+
+        // Lock the variant so checkout cannot reserve units between the check and the update
+        await this.inventoryService.lockVariants(tx, [existing.id]);
+
+        const current = await tx.productVariant.findUniqueOrThrow({
+            where: { id: existing.id },
+            select: { color: true, stockQuantity: true, reservedQuantity: true },
+        });
+
+        const { stockQuantity, ...fields } = variant;
+        if (stockQuantity !== undefined && stockQuantity < current.reservedQuantity) {
+            throw new ImportRejectedError(
+                `${variant.sku}: ${MESSAGES.INVENTORY.BELOW_RESERVED(stockQuantity, current.reservedQuantity)}`,
+            );
+        }
+
+        const saved = await tx.productVariant.update({
+            where: { id: existing.id },
+            data: { ...fields, stockQuantity },
+        });
+
+        await this.productImagesService.renameColor(tx, productId, current.color, saved.color);
+
+        if (stockQuantity !== undefined) {
+            await this.inventoryService.recordMovements(tx, [
+                {
+                    variantId: existing.id,
+                    delta: stockQuantity - current.stockQuantity,
+                    reason: 'ADJUSTMENT',
+                    actorId,
+                    note: 'Product import',
+                },
+            ]);
+        }
+
+        return false;
+    }
+
+    // ============ EXPORT ============
+
+    /**
+     * Stream the full catalog in the import format (admin)
+     */
+    export(query: ExportProductsQueryDto): StreamableFile {
+        const chunks = query.format === 'json' ? this.jsonChunks() : this.csvChunks();
+        const date = new Date().toISOString().slice(0, 10);
+
+        return new StreamableFile(Readable.from(chunks), {
+            type: query.format === 'json' ? 'application/json' : 'text/csv; charset=utf-8',
+            disposition: `attachment; filename="products-${date}.${query.format}"`,
+        });
+    }
+
+    /**
+     * Page through every product so large catalogs are never held in memory
+     */
+    private async *records(): AsyncGenerator<ProductTransferRecord> {
+        let cursor: string | undefined;
+
+        for (;;) {
+            const products = await this.prisma.product.findMany({
+                take: APP_CONSTANTS.PRODUCT_EXPORT_BATCH,
+                ...(cursor && { skip: 1, cursor: { id: cursor } }),
+                orderBy: { id: 'asc' },
+                include: {
+                    category: { select: { slug: true } },
+                    variants: { orderBy: [{ color: 'asc' }, { size: 'asc' }] },
+                    images: { orderBy: { sortOrder: 'asc' } },
+                },
+            });
+
+            for (const product of products) {
+                yield {
+                    slug: product.slug,
+                    name: product.name,
+                    description: product.description,
+                    shortDescription: product.shortDescription,
+                    categorySlug: product.category.slug,
+                    gender: product.gender,
+                    basePrice: Number(product.basePrice),
+                    compareAtPrice: product.compareAtPrice === null ? null : Number(product.compareAtPrice),
+                    weightKg: Number(product.weightKg),
+                    isFeatured: product.isFeatured,
+                    isActive: product.isActive,
+                    metaTitle: product.metaTitle,
+                    metaDescription: product.metaDescription,
+                    images: product.images.map((image) => image.url),
+                    variants: product.variants.map((variant) => ({
+                        sku: variant.sku,
+                        color: variant.color,
+                        size: variant.size,
+                        priceModifier: Number(variant.priceModifier),
+                        stockQuantity: variant.stockQuantity,
+                        lowStockThreshold: variant.lowStockThreshold,
+                        isActive: variant.isActive,
+                    })),
+                };
+            }
+
+            if (products.length < APP_CONSTANTS.PRODUCT_EXPORT_BATCH) {
+                return;
+            }
+            cursor = products[products.length - 1].id;
+        }
+    }
+
+    private async *jsonChunks(): AsyncGenerator<string> {
+        let first = true;
+
+        yield '[';
+        for await (const record of this.records()) {
+            yield `${first ? '' : ','}\n${JSON.stringify(record)}`;
+            first = false;
+        }
+        yield '\n]\n';
+    }
+
+    private async *csvChunks(): AsyncGenerator<string> {
+        yield `${toCsvRow([...PRODUCT_CSV_COLUMNS])}\n`;
+
+        for await (const record of this.records()) {
+            const product = [
+                record.slug,
+                record.name,
+                record.description,
+                record.shortDescription,
+                record.categorySlug,
+                record.gender,
+                record.basePrice,
+                record.compareAtPrice,
+                record.weightKg,
+                record.isFeatured,
+                record.isActive,
+                record.metaTitle,
+                record.metaDescription,
+                (record.images ?? []).join(IMAGE_SEPARATOR),
+            ];
+            const variants = record.variants ?? [];
+
+            // A product without variants still gets a line
+            if (variants.length === 0) {
+                yield `${toCsvRow(product)}\n`;
+            }
+
+            for (const variant of variants) {
+                yield `${toCsvRow([
+                    ...product,
+                    variant.sku,
+                    variant.color,
+                    variant.size,
+                    variant.priceModifier,
+                    variant.stockQuantity,
+                    variant.lowStockThreshold,
+                    variant.isActive,
+                ])}\n`;
+            }
+        }
+    }
+}
@@ -1,15 +1,18 @@
 // Products Controller - Public endpoints
 
-import { Controller, Get, Param, Query } from '@nestjs/common';
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
 import { ProductsService } from './products.service';
 import { listProductsQuerySchema } from './schemas';
 import type { ListProductsQueryDto } from './schemas';
-import { Public } from '../../common/decorators';
+import { OptionalJwtAuthGuard } from '../auth/guards';
+import { CurrentUser, Public } from '../../common/decorators';
 import { ZodValidationPipe } from '../../common/pipes';
 import { slugSchema } from '../../common/schemas';
+import type { RequestUser } from '../../common/types';
 
 @Controller('public/products')
 @Public()
+@UseGuards(OptionalJwtAuthGuard)
 export class ProductsController {
     constructor(private readonly productsService: ProductsService) { }
 
@@ -21,8 +24,9 @@ export class ProductsController {
     async findAll(
         @Query(new ZodValidationPipe(listProductsQuerySchema))
         query: ListProductsQueryDto,
+        @CurrentUser() user?: RequestUser,
     ) {
-        return this.productsService.findAll(query);
+        return this.productsService.findAll(query, user?.id, { facets: true });
     }
 
     /**
@@ -30,8 +34,11 @@ export class ProductsController {
      * GET /api/v1/public/products/featured
      */
     @Get('featured')
-    async findFeatured(@Query('limit') limit?: number) {
-        return this.productsService.findFeatured(limit);
+    async findFeatured(
+        @Query('limit') limit?: number,
+        @CurrentUser() user?: RequestUser,
+    ) {
+        return this.productsService.findFeatured(limit, user?.id);
     }
 
     /**
@@ -41,7 +48,8 @@ export class ProductsController {
     @Get(':slug')
     async findBySlug(
         @Param('slug', new ZodValidationPipe(slugSchema)) slug: string,
+        @CurrentUser() user?: RequestUser,
     ) {
-        return this.productsService.findBySlug(slug);
+        return this.productsService.findBySlug(slug, user?.id);
     }
 }
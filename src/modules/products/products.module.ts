@@ -1,13 +1,32 @@
 // Products Module
 
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { ProductsController } from './products.controller';
 import { AdminProductsController } from './admin-products.controller';
 import { ProductsService } from './products.service';
+import { ProductTransferService } from './product-transfer.service';
+import { ProductImagesService } from './product-images.service';
+import { IMAGE_STORAGE, CloudinaryImageStorage, LocalImageStorage } from './providers';
+import { InventoryModule } from '../inventory/inventory.module';
+import { SearchModule } from '../search/search.module';
 
 @Module({
+    imports: [InventoryModule, SearchModule],
     controllers: [ProductsController, AdminProductsController],
-    providers: [ProductsService],
+    providers: [
+        ProductsService,
+        ProductTransferService,
+        ProductImagesService,
+        {
+            provide: IMAGE_STORAGE,
+            inject: [ConfigService],
+            useFactory: (configService: ConfigService) =>
+                configService.get<string>('storage.driver') === 'cloudinary'
+                    ? new CloudinaryImageStorage(configService)
+                    : new LocalImageStorage(configService),
+        },
+    ],
     exports: [ProductsService],
 })
 export class ProductsModule { }
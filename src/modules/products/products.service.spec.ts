@@ -0,0 +1,208 @@
+import { ProductsService } from './products.service';
+import type { ProductImagesService } from './product-images.service';
+import type { InventoryService } from '../inventory/inventory.service';
+import type { ProductSearchService } from '../search/product-search.service';
+import { listProductsQuerySchema } from './schemas';
+import type { PrismaService } from '../../prisma';
+
+const image = (id: string, color: string | null) => ({
+  id,
+  url: `https://cdn.test/${id}.jpg`,
+  altText: null,
+  color,
+  sortOrder: 0,
+  isPrimary: false,
+});
+
+const variant = (color: string, size: string) => ({
+  id: `${color}-${size}`,
+  color,
+  size,
+  stockQuantity: 5,
+  reservedQuantity: 1,
+});
+
+describe('ProductsService', () => {
+  let prisma: {
+    product: { findUnique: jest.Mock; findMany: jest.Mock; count: jest.Mock; groupBy: jest.Mock };
+    productVariant: { groupBy: jest.Mock };
+    category: { findMany: jest.Mock };
+  };
+  let service: ProductsService;
+
+  beforeEach(() => {
+    prisma = {
+      product: {
+        findUnique: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+      productVariant: { groupBy: jest.fn().mockResolvedValue([]) },
+      category: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    service = new ProductsService(
+      prisma as unknown as PrismaService,
+      {} as InventoryService,
+      {} as ProductSearchService,
+      {} as ProductImagesService,
+    );
+  });
+
+  describe('color galleries', () => {
+    const findColors = async () => {
+      const { data } = await service.findBySlug('adire-shirt');
+      return (data as unknown as { colors: Array<{ color: string; swatch: unknown; images: unknown[] }> })
+        .colors;
+    };
+
+    it('gives each color its own images, once per color', async () => {
+      prisma.product.findUnique.mockResolvedValue({
+        id: 'product-1',
+        variants: [variant('Indigo', 'M'), variant('Indigo', 'L'), variant('Rust', 'M')],
+        images: [image('indigo-front', 'Indigo'), image('rust-front', 'Rust'), image('shared', null)],
+        swatches: [{ color: 'Rust', hex: '#B7410E', imageUrl: null }],
+      });
+
+      const colors = await findColors();
+
+      expect(colors.map((gallery) => gallery.color)).toEqual(['Indigo', 'Rust']);
+      expect(colors[0].images).toEqual([image('indigo-front', 'Indigo')]);
+      expect(colors[0].swatch).toBeNull();
+      expect(colors[1].images).toEqual([image('rust-front', 'Rust')]);
+      expect(colors[1].swatch).toEqual({ color: 'Rust', hex: '#B7410E', imageUrl: null });
+    });
+
+    it('falls back to the shared images for a color without its own', async () => {
+      prisma.product.findUnique.mockResolvedValue({
+        id: 'product-1',
+        variants: [variant('Indigo', 'M'), variant('Ochre', 'M')],
+        images: [image('indigo-front', 'Indigo'), image('shared-1', null), image('shared-2', null)],
+        swatches: [],
+      });
+
+      const [, ochre] = await findColors();
+
+      expect(ochre.images).toEqual([image('shared-1', null), image('shared-2', null)]);
+    });
+
+    it('leaves out images of colors no variant has', async () => {
+      prisma.product.findUnique.mockResolvedValue({
+        id: 'product-1',
+        variants: [variant('Indigo', 'M')],
+        images: [image('navy-front', 'Navy')],
+        swatches: [{ color: 'Navy', hex: '#000080', imageUrl: null }],
+      });
+
+      const colors = await findColors();
+
+      expect(colors).toEqual([{ color: 'Indigo', swatch: null, images: [] }]);
+    });
+  });
+
+  describe('facet counts', () => {
+    const listFacets = async (query: Record<string, unknown>) => {
+      const { data } = await service.findAll(listProductsQuerySchema.parse(query), undefined, {
+        facets: true,
+      });
+      return data.facets;
+    };
+
+    const groupByWhere = (mock: jest.Mock, by: string) =>
+      (mock.mock.calls as Array<[{ by: string[]; where: unknown }]>).find(([args]) => args.by[0] === by)?.[0]
+        .where;
+
+    it('counts each facet under every active filter except its own', async () => {
+      await listFacets({ gender: 'WOMEN', colors: 'Indigo', sizes: 'M' });
+
+      expect(groupByWhere(prisma.product.groupBy, 'gender')).toEqual({
+        AND: [{ variants: { some: { isActive: true, color: { in: ['Indigo'] }, size: { in: ['M'] } } } }],
+      });
+      expect(groupByWhere(prisma.productVariant.groupBy, 'color')).toEqual({
+        isActive: true,
+        size: { in: ['M'] },
+        product: { AND: [{ gender: 'WOMEN' }, { variants: { some: { isActive: true, size: { in: ['M'] } } } }] },
+      });
+      expect(groupByWhere(prisma.productVariant.groupBy, 'size')).toEqual({
+        isActive: true,
+        color: { in: ['Indigo'] },
+        product: {
+          AND: [{ gender: 'WOMEN' }, { variants: { some: { isActive: true, color: { in: ['Indigo'] } } } }],
+        },
+      });
+    });
+
+    it('lists a product under a color or size only through its active variants', async () => {
+      await listFacets({ colors: 'Red' });
+
+      const [[{ where }]] = prisma.product.findMany.mock.calls as Array<[{ where: unknown }]>;
+      expect(where).toEqual({ AND: [{ variants: { some: { isActive: true, color: { in: ['Red'] } } } }] });
+      expect(groupByWhere(prisma.productVariant.groupBy, 'size')).toMatchObject({
+        isActive: true,
+        color: { in: ['Red'] },
+      });
+    });
+
+    it('leaves listings without variant filters open to every product', async () => {
+      await listFacets({ gender: 'MEN' });
+
+      const [[{ where }]] = prisma.product.findMany.mock.calls as Array<[{ where: unknown }]>;
+      expect(where).toEqual({ AND: [{ gender: 'MEN' }] });
+    });
+
+    it('leaves the price filter out of the price range counts only', async () => {
+      await listFacets({ minPrice: 20000, gender: 'MEN' });
+
+      // The listing total is counted first, then one count per price range
+      const priceWheres = (prisma.product.count.mock.calls as Array<[{ where: { AND: unknown[] } }]>)
+        .slice(1)
+        .map(([args]) => args.where.AND);
+
+      expect(priceWheres).toHaveLength(5);
+      expect(priceWheres[0]).toEqual([{ AND: [{ gender: 'MEN' }] }, { basePrice: { gte: 0, lt: 10000 } }]);
+      expect(priceWheres.at(-1)).toEqual([{ AND: [{ gender: 'MEN' }] }, { basePrice: { gte: 100000 } }]);
+      expect(groupByWhere(prisma.product.groupBy, 'gender')).toEqual({
+        AND: [{ basePrice: { gte: 20000, lte: undefined } }],
+      });
+    });
+
+    it('counts a product once per color and orders sizes small to large', async () => {
+      prisma.productVariant.groupBy.mockImplementation(({ by }: { by: string[] }) =>
+        Promise.resolve(
+          by[0] === 'color'
+            ? [
+                { color: 'Rust', productId: 'product-1' },
+                { color: 'Indigo', productId: 'product-1' },
+                { color: 'Indigo', productId: 'product-2' },
+              ]
+            : [
+                { size: 'XL', productId: 'product-1' },
+                { size: 'S', productId: 'product-1' },
+                { size: '42', productId: 'product-2' },
+                { size: 'S', productId: 'product-2' },
+              ],
+        ),
+      );
+      prisma.product.count.mockResolvedValue(3);
+
+      const facets = await listFacets({});
+
+      expect(facets?.colors).toEqual([
+        { value: 'Indigo', count: 2 },
+        { value: 'Rust', count: 1 },
+      ]);
+      expect(facets?.sizes).toEqual([
+        { value: 'S', count: 2 },
+        { value: 'XL', count: 1 },
+        { value: '42', count: 1 },
+      ]);
+      expect(facets?.priceRanges).toEqual([
+        { min: 0, max: 10000, count: 3 },
+        { min: 10000, max: 25000, count: 3 },
+        { min: 25000, max: 50000, count: 3 },
+        { min: 50000, max: 100000, count: 3 },
+        { min: 100000, max: null, count: 3 },
+      ]);
+    });
+  });
+});
@@ -1,7 +1,12 @@
 // Products Service - Matching Prisma schema
 
 import { Injectable, Logger } from '@nestjs/common';
+import type { Prisma } from '@prisma/client';
 import { PrismaService } from '../../prisma';
+import { InventoryService } from '../inventory/inventory.service';
+import { ProductSearchService } from '../search/product-search.service';
+import type { ProductHighlight } from '../search/product-search.service';
+import { ProductImagesService } from './product-images.service';
 import type {
     CreateProductDto,
     UpdateProductDto,
@@ -11,7 +16,7 @@ import type {
     UpdateVariantDto,
 } from './schemas';
 import type { ApiResponse, PaginatedResult } from '../../common/types';
-import { MESSAGES } from '../../common/constants';
+import { APP_CONSTANTS, MESSAGES } from '../../common/constants';
 import { ProductNotFoundException, NotFoundException } from '../../common/filters';
 import {
     successResponse,
@@ -22,7 +27,12 @@ import {
     calculatePagination,
     generateSlug,
     generateSKU,
+    getAvailableStock,
+    countValues,
+    compareSizes,
+    buildPriceRanges,
 } from '../../common/helpers';
+import type { FacetCount, PriceRange } from '../../common/helpers';
 
 // Exported response types (using generic types for Decimal fields)
 export interface ProductResponse {
@@ -35,10 +45,14 @@ export interface ProductResponse {
     gender: string;
     basePrice: unknown; // Prisma Decimal
     compareAtPrice: unknown | null;
+    weightKg: unknown;
     isFeatured: boolean;
     isActive: boolean;
     metaTitle: string | null;
     metaDescription: string | null;
+    averageRating: unknown; // Prisma Decimal
+    reviewCount: number;
+    ratingHistogram: unknown; // RatingHistogram stored as JSON
     createdAt: Date;
     updatedAt: Date;
 }
@@ -51,6 +65,9 @@ export interface ProductWithDetails extends ProductResponse {
     };
     variants?: VariantResponse[];
     images?: ProductImageResponse[];
+    colors?: ColorGalleryResponse[];
+    highlight?: ProductHighlight; // search matches marked with <mark>
+    isWishlisted?: boolean;
 }
 
 export interface VariantResponse {
@@ -60,6 +77,8 @@ export interface VariantResponse {
     size: string;
     priceModifier: unknown;
     stockQuantity: number;
+    reservedQuantity: number;
+    availableQuantity?: number;
     lowStockThreshold: number;
     isActive: boolean;
 }
@@ -68,15 +87,106 @@ export interface ProductImageResponse {
     id: string;
     url: string;
     altText: string | null;
+    color: string | null;
     sortOrder: number;
     isPrimary: boolean;
 }
 
+export interface ColorSwatchResponse {
+    color: string;
+    hex: string | null;
+    imageUrl: string | null;
+}
+
+// Gallery and swatch for one variant color - selecting the color shows these images
+export interface ColorGalleryResponse {
+    color: string;
+    swatch: ColorSwatchResponse | null;
+    images: ProductImageResponse[];
+}
+
+// Facet counts for the product listing - each facet ignores its own filter
+export interface ProductFacets {
+    categories: Array<{ id: string; name: string; slug: string; count: number }>;
+    genders: FacetCount[];
+    colors: FacetCount[];
+    sizes: FacetCount[];
+    priceRanges: Array<PriceRange & { count: number }>;
+}
+
+export interface ProductListResult extends PaginatedResult<ProductWithDetails> {
+    facets?: ProductFacets;
+}
+
+type FacetDimension = 'category' | 'gender' | 'color' | 'size' | 'price';
+
+// Builds the listing filter, optionally leaving out one facet's own filter
+type ListingWhere = (omit?: FacetDimension) => Prisma.ProductWhereInput;
+type ListingVariantWhere = (omit?: FacetDimension) => Prisma.ProductVariantWhereInput;
+
 @Injectable()
 export class ProductsService {
     private readonly logger = new Logger(ProductsService.name);
 
-    constructor(private readonly prisma: PrismaService) { }
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly inventoryService: InventoryService,
+        private readonly productSearchService: ProductSearchService,
+        private readonly productImagesService: ProductImagesService,
+    ) { }
+
+    /**
+     * Variant filter for stock not held by unpaid orders
+     */
+    private inStockVariantFilter() {
+        return { stockQuantity: { gt: this.prisma.productVariant.fields.reservedQuantity } };
+    }
+
+    /**
+     * Flag products the user has wishlisted (only when a user is known)
+     */
+    private async withWishlistFlags<T extends { id: string }>(
+        products: T[],
+        userId?: string,
+    ): Promise<Array<T & { isWishlisted?: boolean }>> {
+        if (!userId || products.length === 0) {
+            return products;
+        }
+
+        const wishlisted = await this.prisma.wishlistItem.findMany({
+            where: { userId, productId: { in: products.map((product) => product.id) } },
+            select: { productId: true },
+        });
+        const wishlistedIds = new Set(wishlisted.map((item) => item.productId));
+
+        return products.map((product) => ({
+            ...product,
+            isWishlisted: wishlistedIds.has(product.id),
+        }));
+    }
+
+    /**
+     * Group images by variant color - a color without its own images shows the shared ones
+     */
+    private buildColorGalleries(product: {
+        variants: Array<{ color: string }>;
+        images: ProductImageResponse[];
+        swatches: ColorSwatchResponse[];
+    }): ColorGalleryResponse[] {
+        const shared = product.images.filter((image) => image.color === null);
+        const colors = [...new Set(product.variants.map((variant) => variant.color))];
+
+        return colors.map((color) => {
+            const own = product.images.filter((image) => image.color === color);
+            const swatch = product.swatches.find((item) => item.color === color);
+
+            return {
+                color,
+                swatch: swatch ? { color, hex: swatch.hex, imageUrl: swatch.imageUrl } : null,
+                images: own.length > 0 ? own : shared,
+            };
+        });
+    }
 
     /**
      * Create a new product
@@ -111,6 +221,7 @@ export class ProductsService {
                 gender: dto.gender ?? 'UNISEX',
                 basePrice: dto.basePrice,
                 compareAtPrice: dto.compareAtPrice,
+                weightKg: dto.weightKg,
                 isFeatured: dto.isFeatured ?? false,
                 isActive: dto.isActive ?? true,
                 metaTitle: dto.metaTitle,
@@ -125,99 +236,267 @@ export class ProductsService {
             },
         });
 
+        await this.productSearchService.reindex([product.id]);
+
         this.logger.log(`Product created: ${product.name}`);
 
         return createdResponse(product, MESSAGES.PRODUCT.CREATED);
     }
 
     /**
-     * Get all products with filtering
+     * Get all products with filtering, optionally with facet counts
      */
     async findAll(
         query: ListProductsQueryDto,
-    ): Promise<ApiResponse<PaginatedResult<ProductWithDetails>>> {
-        const {
+        userId?: string,
+        options: { facets?: boolean } = {},
+    ): Promise<ApiResponse<ProductListResult>> {
+        const { page, limit, search, sortBy, sortOrder } = query;
+        const { skip, take } = calculatePagination(page, limit);
+
+        // Full-text search narrows the results to ranked matches
+        const hits = search ? await this.productSearchService.search(search) : undefined;
+        const [whereFor, variantWhereFor] = await this.buildListingWhere(query, hits);
+        const where = whereFor();
+
+        const include = {
+            category: {
+                select: { id: true, name: true, slug: true },
+            },
+            images: {
+                where: { isPrimary: true },
+                take: 1,
+            },
+        };
+
+        const sort = sortBy ?? (hits ? 'relevance' : 'createdAt');
+        let products: Array<ProductWithDetails & { id: string }>;
+        let total: number;
+
+        if (sort === 'relevance' && hits) {
+            // Keep the search ranking - filter the ranked ids, then load one page of them
+            const matching = await this.prisma.product.findMany({ where, select: { id: true } });
+            const matchingIds = new Set(matching.map((product) => product.id));
+            const rankedIds = hits
+                .map((hit) => hit.productId)
+                .filter((id) => matchingIds.has(id));
+            const pageIds = rankedIds.slice(skip, skip + take);
+
+            const found = await this.prisma.product.findMany({
+                where: { id: { in: pageIds } },
+                include,
+            });
+            const byId = new Map(found.map((product) => [product.id, product]));
+
+            products = pageIds.flatMap((id) => byId.get(id) ?? []);
+            total = rankedIds.length;
+        } else {
+            // Map sortBy to actual field(s) - relevance without a search term means newest first
+            const field = sort === 'relevance' ? 'createdAt' : sort;
+            const orderBy =
+                field === 'rating'
+                    ? [{ averageRating: sortOrder }, { reviewCount: sortOrder }]
+                    : { [field === 'price' ? 'basePrice' : field]: sortOrder };
+
+            [products, total] = await Promise.all([
+                this.prisma.product.findMany({
+                    where,
+                    skip,
+                    take,
+                    include,
+                    orderBy,
+                }),
+                this.prisma.product.count({ where }),
+            ]);
+        }
+
+        if (search) {
+            const highlights = await this.productSearchService.highlight(
+                search,
+                products.map((product) => product.id),
+            );
+            products = products.map((product) => ({
+                ...product,
+                highlight: highlights.get(product.id),
+            }));
+        }
+
+        const result: ProductListResult = createPaginatedResult(
+            await this.withWishlistFlags(products, userId),
+            total,
             page,
             limit,
-            search,
+        );
+
+        if (options.facets) {
+            result.facets = await this.buildFacets(whereFor, variantWhereFor);
+        }
+
+        return successResponse(result);
+    }
+
+    /**
+     * Build the listing filters
+     * Color, size and stock filters apply to the same variant, so "Red" + "M" means a red M exists
+     */
+    private async buildListingWhere(
+        query: ListProductsQueryDto,
+        hits?: Array<{ productId: string }>,
+    ): Promise<[ListingWhere, ListingVariantWhere]> {
+        const {
             categoryId,
             categorySlug,
+            categorySlugs,
+            colors,
+            sizes,
             minPrice,
             maxPrice,
             gender,
             isActive,
             isFeatured,
             inStock,
-            sortBy,
-            sortOrder,
+            minRating,
         } = query;
-        const { skip, take } = calculatePagination(page, limit);
 
-        // Resolve category ID from slug if needed
-        let resolvedCategoryId = categoryId;
-        if (categorySlug && !categoryId) {
-            const category = await this.prisma.category.findUnique({
-                where: { slug: categorySlug },
+        // Resolve category IDs from slugs if needed - unknown slugs match nothing
+        let categoryIds = categoryId ? [categoryId] : undefined;
+        const slugs = [...(categorySlug ? [categorySlug] : []), ...(categorySlugs ?? [])];
+        if (!categoryId && slugs.length > 0) {
+            const categories = await this.prisma.category.findMany({
+                where: { slug: { in: slugs } },
+                select: { id: true },
             });
-            resolvedCategoryId = category?.id;
+            categoryIds = categories.map((category) => category.id);
         }
 
-        // Build where clause
-        const where: Record<string, unknown> = {};
+        const filters: Array<{ dimension?: FacetDimension; where: Prisma.ProductWhereInput }> = [];
 
-        if (search) {
-            where.OR = [
-                { name: { contains: search, mode: 'insensitive' } },
-                { description: { contains: search, mode: 'insensitive' } },
-            ];
+        if (hits) filters.push({ where: { id: { in: hits.map((hit) => hit.productId) } } });
+        if (categoryIds) filters.push({ dimension: 'category', where: { categoryId: { in: categoryIds } } });
+        if (minPrice !== undefined || maxPrice !== undefined) {
+            filters.push({ dimension: 'price', where: { basePrice: { gte: minPrice, lte: maxPrice } } });
         }
-        if (resolvedCategoryId) where.categoryId = resolvedCategoryId;
-        if (minPrice !== undefined) where.basePrice = { ...((where.basePrice as object) || {}), gte: minPrice };
-        if (maxPrice !== undefined) where.basePrice = { ...((where.basePrice as object) || {}), lte: maxPrice };
-        if (gender) where.gender = gender;
-        if (isActive !== undefined) where.isActive = isActive;
-        if (isFeatured !== undefined) where.isFeatured = isFeatured;
-        if (inStock !== undefined) {
-            where.variants = inStock
-                ? { some: { stockQuantity: { gt: 0 } } }
-                : { every: { stockQuantity: { lte: 0 } } };
-        }
-
-        // Map sortBy to actual field
-        const orderByField = sortBy === 'price' ? 'basePrice' : sortBy;
-
-        const [products, total] = await Promise.all([
-            this.prisma.product.findMany({
-                where,
-                skip,
-                take,
-                include: {
-                    category: {
-                        select: { id: true, name: true, slug: true },
-                    },
-                    images: {
-                        where: { isPrimary: true },
-                        take: 1,
+        if (gender) filters.push({ dimension: 'gender', where: { gender } });
+        if (isActive !== undefined) filters.push({ where: { isActive } });
+        if (isFeatured !== undefined) filters.push({ where: { isFeatured } });
+        if (inStock === false) {
+            filters.push({
+                where: {
+                    variants: {
+                        every: { stockQuantity: { lte: this.prisma.productVariant.fields.reservedQuantity } },
                     },
                 },
-                orderBy: { [orderByField]: sortOrder },
+            });
+        }
+        if (minRating !== undefined) filters.push({ where: { averageRating: { gte: minRating } } });
+
+        const variantWhereFor: ListingVariantWhere = (omit) => {
+            const variant = {
+                ...(colors?.length && omit !== 'color' && { color: { in: colors } }),
+                ...(sizes?.length && omit !== 'size' && { size: { in: sizes } }),
+                ...(inStock && this.inStockVariantFilter()),
+            };
+
+            // Only a variant that is still sold can match, as in the color and size facets
+            return Object.keys(variant).length > 0 ? { isActive: true, ...variant } : variant;
+        };
+
+        const whereFor: ListingWhere = (omit) => {
+            const variant = variantWhereFor(omit);
+
+            return {
+                AND: [
+                    ...filters
+                        .filter((filter) => !omit || filter.dimension !== omit)
+                        .map((filter) => filter.where),
+                    ...(Object.keys(variant).length > 0 ? [{ variants: { some: variant } }] : []),
+                ],
+            };
+        };
+
+        return [whereFor, variantWhereFor];
+    }
+
+    /**
+     * Count matching products per facet value, each facet under all the other active filters
+     */
+    private async buildFacets(
+        whereFor: ListingWhere,
+        variantWhereFor: ListingVariantWhere,
+    ): Promise<ProductFacets> {
+        const priceRanges = buildPriceRanges(APP_CONSTANTS.PRICE_FACET_BOUNDARIES);
+
+        const [categoryGroups, genderGroups, colorGroups, sizeGroups, priceCounts] = await Promise.all([
+            this.prisma.product.groupBy({
+                by: ['categoryId'],
+                where: whereFor('category'),
+                _count: { _all: true },
+            }),
+            this.prisma.product.groupBy({
+                by: ['gender'],
+                where: whereFor('gender'),
+                _count: { _all: true },
+            }),
+            // One row per product and color, so a product counts once per color
+            this.prisma.productVariant.groupBy({
+                by: ['color', 'productId'],
+                where: { isActive: true, ...variantWhereFor('color'), product: whereFor('color') },
+            }),
+            this.prisma.productVariant.groupBy({
+                by: ['size', 'productId'],
+                where: { isActive: true, ...variantWhereFor('size'), product: whereFor('size') },
             }),
-            this.prisma.product.count({ where }),
+            Promise.all(
+                priceRanges.map((range) =>
+                    this.prisma.product.count({
+                        where: {
+                            AND: [
+                                whereFor('price'),
+                                { basePrice: { gte: range.min, ...(range.max !== null && { lt: range.max }) } },
+                            ],
+                        },
+                    }),
+                ),
+            ),
         ]);
 
-        const result = createPaginatedResult(products, total, page, limit);
-        return successResponse(result);
+        const categories = await this.prisma.category.findMany({
+            where: { id: { in: categoryGroups.map((group) => group.categoryId) } },
+            select: { id: true, name: true, slug: true },
+            orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+        });
+        const categoryCounts = new Map(
+            categoryGroups.map((group) => [group.categoryId, group._count._all]),
+        );
+
+        return {
+            categories: categories.map((category) => ({
+                ...category,
+                count: categoryCounts.get(category.id) ?? 0,
+            })),
+            genders: genderGroups.map((group) => ({ value: group.gender, count: group._count._all })),
+            colors: countValues(colorGroups.map((group) => group.color)).sort((a, b) =>
+                a.value.localeCompare(b.value),
+            ),
+            sizes: countValues(sizeGroups.map((group) => group.size)).sort((a, b) =>
+                compareSizes(a.value, b.value),
+            ),
+            priceRanges: priceRanges.map((range, index) => ({ ...range, count: priceCounts[index] })),
+        };
     }
 
     /**
      * Get featured products
      */
-    async findFeatured(limit: number = 8): Promise<ApiResponse<ProductWithDetails[]>> {
+    async findFeatured(
+        limit: number = 8,
+        userId?: string,
+    ): Promise<ApiResponse<ProductWithDetails[]>> {
         const products = await this.prisma.product.findMany({
             where: {
                 isFeatured: true,
                 isActive: true,
-                variants: { some: { stockQuantity: { gt: 0 } } },
+                variants: { some: this.inStockVariantFilter() },
             },
             take: limit,
             include: {
@@ -232,7 +511,7 @@ export class ProductsService {
             orderBy: { createdAt: 'desc' },
         });
 
-        return successResponse(products);
+        return successResponse(await this.withWishlistFlags(products, userId));
     }
 
     /**
@@ -250,6 +529,7 @@ export class ProductsService {
                     orderBy: [{ color: 'asc' }, { size: 'asc' }],
                 },
                 images: { orderBy: { sortOrder: 'asc' } },
+                swatches: { orderBy: { color: 'asc' } },
             },
         });
 
@@ -263,7 +543,10 @@ export class ProductsService {
     /**
      * Get product by slug
      */
-    async findBySlug(slug: string): Promise<ApiResponse<ProductWithDetails>> {
+    async findBySlug(
+        slug: string,
+        userId?: string,
+    ): Promise<ApiResponse<ProductWithDetails>> {
         const product = await this.prisma.product.findUnique({
             where: { slug },
             include: {
@@ -275,6 +558,7 @@ export class ProductsService {
                     orderBy: [{ color: 'asc' }, { size: 'asc' }],
                 },
                 images: { orderBy: { sortOrder: 'asc' } },
+                swatches: { orderBy: { color: 'asc' } },
             },
         });
 
@@ -282,7 +566,20 @@ export class ProductsService {
             throw new ProductNotFoundException();
         }
 
-        return successResponse(product);
+        const [withFlag] = await this.withWishlistFlags(
+            [
+                {
+                    ...product,
+                    variants: product.variants.map((variant) => ({
+                        ...variant,
+                        availableQuantity: getAvailableStock(variant),
+                    })),
+                    colors: this.buildColorGalleries(product),
+                },
+            ],
+            userId,
+        );
+        return successResponse(withFlag);
     }
 
     /**
@@ -341,6 +638,8 @@ export class ProductsService {
             },
         });
 
+        await this.productSearchService.reindex([id]);
+
         this.logger.log(`Product updated: ${product.name}`);
 
         return updatedResponse(product, MESSAGES.PRODUCT.UPDATED);
@@ -358,6 +657,28 @@ export class ProductsService {
             throw new ProductNotFoundException();
         }
 
+        // Sold or stock-counted products keep their variants for order and stock history
+        const hasHistory = await this.prisma.productVariant.count({
+            where: {
+                productId: id,
+                OR: [{ stockMovements: { some: {} } }, { orderItems: { some: {} } }],
+            },
+        });
+
+        if (hasHistory > 0) {
+            await this.prisma.$transaction([
+                this.prisma.product.update({ where: { id }, data: { isActive: false } }),
+                this.prisma.productVariant.updateMany({
+                    where: { productId: id },
+                    data: { isActive: false },
+                }),
+            ]);
+
+            this.logger.log(`Product deactivated instead of deleted: ${product.name}`);
+
+            return deletedResponse(MESSAGES.PRODUCT.DEACTIVATED);
+        }
+
         await this.prisma.product.delete({
             where: { id },
         });
@@ -403,6 +724,7 @@ export class ProductsService {
      */
     async addVariant(
         productId: string,
+        actorId: string,
         dto: CreateVariantDto,
     ): Promise<ApiResponse<VariantResponse>> {
         const product = await this.prisma.product.findUnique({
@@ -417,19 +739,37 @@ export class ProductsService {
         // Generate SKU
         const sku = dto.sku || generateSKU(product.category.name, dto.color, dto.size);
 
-        const variant = await this.prisma.productVariant.create({
-            data: {
-                productId,
-                sku,
-                color: dto.color,
-                size: dto.size,
-                priceModifier: dto.priceModifier ?? 0,
-                stockQuantity: dto.stockQuantity ?? 0,
-                lowStockThreshold: dto.lowStockThreshold ?? 5,
-                isActive: dto.isActive ?? true,
-            },
+        const variant = await this.prisma.$transaction(async (tx) => {
+            const created = await tx.productVariant.create({
+                data: {
+                    productId,
+                    sku,
+                    color: dto.color,
+                    size: dto.size,
+                    priceModifier: dto.priceModifier ?? 0,
+                    stockQuantity: dto.stockQuantity ?? 0,
+                    lowStockThreshold: dto.lowStockThreshold ?? 5,
+                    isActive: dto.isActive ?? true,
+                },
+            });
+
+            // Opening stock is the variant's first ledger entry
+            await this.inventoryService.recordMovements(tx, [
+                {
+                    variantId: created.id,
+                    delta: created.stockQuantity,
+                    reason: 'RESTOCK',
+                    actorId,
+                    note: 'Opening stock',
+                },
+            ]);
+
+            return created;
         });
 
+        // Variant colors are part of the search document
+        await this.productSearchService.reindex([productId]);
+
         this.logger.log(`Variant added to product ${product.name}`);
 
         return createdResponse(variant, MESSAGES.PRODUCT.VARIANT_ADDED);
@@ -451,11 +791,22 @@ export class ProductsService {
             throw new NotFoundException('Variant');
         }
 
-        const updated = await this.prisma.productVariant.update({
-            where: { id: variantId },
-            data: dto,
+        const updated = await this.prisma.$transaction(async (tx) => {
+            const saved = await tx.productVariant.update({
+                where: { id: variantId },
+                data: dto,
+            });
+
+            // Images and swatches are keyed by color, so they follow the rename
+            await this.productImagesService.renameColor(tx, productId, variant.color, saved.color);
+
+            return saved;
         });
 
+        if (dto.color !== undefined || dto.isActive !== undefined) {
+            await this.productSearchService.reindex([productId]);
+        }
+
         return updatedResponse(updated, MESSAGES.PRODUCT.VARIANT_UPDATED);
     }
 
@@ -468,17 +819,32 @@ export class ProductsService {
     ): Promise<ApiResponse<null>> {
         const variant = await this.prisma.productVariant.findFirst({
             where: { id: variantId, productId },
+            include: { _count: { select: { stockMovements: true, orderItems: true } } },
         });
 
         if (!variant) {
             throw new NotFoundException('Variant');
         }
 
-        await this.prisma.productVariant.delete({
-            where: { id: variantId },
-        });
+        // The stock ledger and past orders point at the variant, so it is retired rather than removed
+        const hasHistory = variant._count.stockMovements > 0 || variant._count.orderItems > 0;
 
-        return deletedResponse(MESSAGES.PRODUCT.VARIANT_DELETED);
+        if (hasHistory) {
+            await this.prisma.productVariant.update({
+                where: { id: variantId },
+                data: { isActive: false },
+            });
+        } else {
+            await this.prisma.productVariant.delete({
+                where: { id: variantId },
+            });
+        }
+
+        await this.productSearchService.reindex([productId]);
+
+        return deletedResponse(
+            hasHistory ? MESSAGES.PRODUCT.VARIANT_DEACTIVATED : MESSAGES.PRODUCT.VARIANT_DELETED,
+        );
     }
 
     /**
@@ -487,6 +853,7 @@ export class ProductsService {
     async updateVariantStock(
         productId: string,
         variantId: string,
+        actorId: string,
         dto: UpdateStockDto,
     ): Promise<ApiResponse<VariantResponse>> {
         const variant = await this.prisma.productVariant.findFirst({
@@ -497,13 +864,12 @@ export class ProductsService {
             throw new NotFoundException('Variant');
         }
 
-        const updated = await this.prisma.productVariant.update({
-            where: { id: variantId },
-            data: { stockQuantity: dto.stockQuantity },
+        // Stock changes go through the inventory ledger
+        const updated = await this.inventoryService.adjustStock(variantId, dto.stockQuantity, actorId, {
+            reason: dto.reason,
+            note: dto.note,
         });
 
-        this.logger.log(`Stock updated for variant ${variantId}: ${dto.stockQuantity}`);
-
         return updatedResponse(updated, MESSAGES.PRODUCT.STOCK_UPDATED);
     }
 }
@@ -0,0 +1,103 @@
+// Cloudinary Image Storage - signed uploads and deletes via the Cloudinary upload API
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { ImageStorageException } from '../../../common/filters';
+import type { ImageStorage, ImageUpload, StoredImage } from './image-storage.interface';
+
+const CLOUDINARY_API_URL = 'https://api.cloudinary.com/v1_1';
+
+interface CloudinaryUploadResult {
+    public_id: string;
+    secure_url: string;
+}
+
+@Injectable()
+export class CloudinaryImageStorage implements ImageStorage {
+    readonly name = 'CLOUDINARY';
+    private readonly logger = new Logger(CloudinaryImageStorage.name);
+    private readonly cloudName: string;
+    private readonly apiKey: string;
+    private readonly apiSecret: string;
+    private readonly baseFolder: string;
+
+    constructor(private readonly configService: ConfigService) {
+        this.cloudName = this.configService.get<string>('cloudinary.cloudName') || '';
+        this.apiKey = this.configService.get<string>('cloudinary.apiKey') || '';
+        this.apiSecret = this.configService.get<string>('cloudinary.apiSecret') || '';
+        this.baseFolder = this.configService.get<string>('cloudinary.folder') || 'vogue-tribe';
+    }
+
+    async upload(file: ImageUpload, folder: string): Promise<StoredImage> {
+        const form = this.signedForm({ folder: `${this.baseFolder}/${folder}` });
+        form.append('file', new Blob([new Uint8Array(file.buffer)], { type: file.mimetype }), file.originalname);
+
+        const result = await this.request<CloudinaryUploadResult>('upload', form);
+
+        return { key: result.public_id, url: result.secure_url };
+    }
+
+    async delete(key: string): Promise<void> {
+        const result = await this.request<{ result: string }>(
+            'destroy',
+            this.signedForm({ public_id: key }),
+        );
+
+        if (result.result !== 'ok' && result.result !== 'not found') {
+            this.logger.warn(`Cloudinary could not delete ${key}: ${result.result}`);
+        }
+    }
+
+    /**
+     * Build a form signed with the API secret - parameters are signed in alphabetical order
+     */
+    private signedForm(params: Record<string, string>): FormData {
+        const signed: Record<string, string> = {
+            ...params,
+            timestamp: Math.floor(Date.now() / 1000).toString(),
+        };
+        const payload = Object.keys(signed)
+            .sort()
+            .map((key) => `${key}=${signed[key]}`)
+            .join('&');
+
+        const form = new FormData();
+        for (const [key, value] of Object.entries(signed)) {
+            form.append(key, value);
+        }
+        form.append('api_key', this.apiKey);
+        form.append('signature', createHash('sha1').update(payload + this.apiSecret).digest('hex'));
+
+        return form;
+    }
+
+    private async request<T>(action: 'upload' | 'destroy', form: FormData): Promise<T> {
+        if (!this.cloudName || !this.apiKey || !this.apiSecret) {
+            throw new ImageStorageException('Image storage is not configured.');
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(`${CLOUDINARY_API_URL}/${this.cloudName}/image/${action}`, {
+                method: 'POST',
+                body: form,
+                signal: AbortSignal.timeout(30000),
+            });
+        } catch (error) {
+            this.logger.error(`Cloudinary ${action} failed: ${(error as Error).message}`);
+            throw new ImageStorageException();
+        }
+
+        const body = (await response.json().catch(() => ({}))) as T & { error?: { message: string } };
+
+        if (!response.ok) {
+            this.logger.error(
+                `Cloudinary ${action} rejected: HTTP ${response.status} ${body.error?.message ?? ''}`,
+            );
+            throw new ImageStorageException();
+        }
+
+        return body;
+    }
+}
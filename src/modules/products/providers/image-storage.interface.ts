@@ -0,0 +1,24 @@
+// Image storage contract - where uploaded product images live
+
+export const IMAGE_STORAGE = Symbol('IMAGE_STORAGE');
+
+export interface ImageUpload {
+    buffer: Buffer;
+    mimetype: string;
+    originalname: string;
+}
+
+export interface StoredImage {
+    url: string;
+    key: string; // storage-specific identifier used to delete the image
+}
+
+export interface ImageStorage {
+    readonly name: string;
+
+    /** Store an image under a folder and return its public URL */
+    upload(file: ImageUpload, folder: string): Promise<StoredImage>;
+
+    /** Remove a stored image; missing images are ignored */
+    delete(key: string): Promise<void>;
+}
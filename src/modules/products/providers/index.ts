@@ -0,0 +1,3 @@
+export * from './image-storage.interface';
+export * from './local.storage';
+export * from './cloudinary.storage';
@@ -0,0 +1,51 @@
+import { ConfigService } from '@nestjs/config';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalImageStorage } from './local.storage';
+import { detectImageType } from '../../../common/helpers';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+describe('LocalImageStorage', () => {
+  let dir: string;
+  let storage: LocalImageStorage;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'vt-uploads-'));
+    storage = new LocalImageStorage(
+      new ConfigService({
+        storage: { localDir: dir, publicUrl: 'http://localhost:3000/uploads/' },
+      }),
+    );
+  });
+
+  afterEach(() => rm(dir, { recursive: true, force: true }));
+
+  it('writes the file and returns a public URL for its key', async () => {
+    const stored = await storage.upload(
+      { buffer: PNG, mimetype: 'image/png', originalname: 'dress.png' },
+      'products/p1',
+    );
+
+    expect(stored.key).toMatch(/^products\/p1\/[\w-]+\.png$/);
+    expect(stored.url).toBe(`http://localhost:3000/uploads/${stored.key}`);
+    expect(await readFile(join(dir, stored.key))).toEqual(PNG);
+
+    await storage.delete(stored.key);
+    await expect(readFile(join(dir, stored.key))).rejects.toThrow();
+  });
+
+  it('refuses keys outside the storage directory', async () => {
+    await expect(storage.delete('../outside.png')).rejects.toThrow('Invalid storage key');
+  });
+});
+
+describe('detectImageType', () => {
+  it('identifies images by content rather than name', () => {
+    expect(detectImageType(PNG)).toBe('image/png');
+    expect(detectImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+    expect(detectImageType(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+    expect(detectImageType(Buffer.from('<svg></svg>'))).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+// Local Image Storage - writes images to disk for development and tests
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { getImageExtension } from '../../../common/helpers';
+import type { ImageStorage, ImageUpload, StoredImage } from './image-storage.interface';
+
+@Injectable()
+export class LocalImageStorage implements ImageStorage {
+    readonly name = 'LOCAL';
+    private readonly logger = new Logger(LocalImageStorage.name);
+    private readonly rootDir: string;
+    private readonly publicUrl: string;
+
+    constructor(private readonly configService: ConfigService) {
+        this.rootDir = resolve(this.configService.get<string>('storage.localDir') || 'uploads');
+        this.publicUrl = (
+            this.configService.get<string>('storage.publicUrl') || 'http://localhost:3000/uploads'
+        ).replace(/\/+$/, '');
+    }
+
+    async upload(file: ImageUpload, folder: string): Promise<StoredImage> {
+        const key = `${folder}/${randomUUID()}.${getImageExtension(file.mimetype)}`;
+        const path = this.resolveKey(key);
+
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, file.buffer);
+
+        return { key, url: `${this.publicUrl}/${key}` };
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.resolveKey(key), { force: true });
+        this.logger.debug(`Deleted ${key}`);
+    }
+
+    // Keys come from our own uploads, but never let one escape the storage directory
+    private resolveKey(key: string): string {
+        const path = resolve(join(this.rootDir, key));
+        if (!path.startsWith(this.rootDir + sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+        return path;
+    }
+}
@@ -1,6 +1,8 @@
 // Products Zod Schemas - Matching Prisma schema
 
 import { z } from 'zod';
+import { APP_CONSTANTS } from '../../../common/constants';
+import { multiValueSchema } from '../../../common/schemas';
 
 /**
  * Create product schema - matching Prisma Product model
@@ -28,6 +30,12 @@ export const createProductSchema = z.object({
         .multipleOf(0.01)
         .optional()
         .nullable(),
+    weightKg: z
+        .number()
+        .positive('Weight must be positive')
+        .max(100, 'Weight cannot exceed 100kg')
+        .multipleOf(0.01)
+        .optional(),
     isFeatured: z.boolean().default(false),
     isActive: z.boolean().default(true),
     metaTitle: z.string().max(100).optional().nullable(),
@@ -52,15 +60,22 @@ export const listProductsQuerySchema = z.object({
     search: z.string().optional(),
     categoryId: z.string().uuid().optional(),
     categorySlug: z.string().optional(),
+    categorySlugs: multiValueSchema,
+    colors: multiValueSchema,
+    sizes: multiValueSchema,
     minPrice: z.coerce.number().min(0).optional(),
     maxPrice: z.coerce.number().min(0).optional(),
     gender: z.enum(['MEN', 'WOMEN', 'UNISEX']).optional(),
     isActive: z.coerce.boolean().optional(),
     isFeatured: z.coerce.boolean().optional(),
     inStock: z.coerce.boolean().optional(),
-    sortBy: z
-        .enum(['name', 'price', 'createdAt'])
-        .default('createdAt'),
+    minRating: z.coerce
+        .number()
+        .min(APP_CONSTANTS.MIN_RATING, `Minimum rating must be at least ${APP_CONSTANTS.MIN_RATING}`)
+        .max(APP_CONSTANTS.MAX_RATING, `Minimum rating cannot exceed ${APP_CONSTANTS.MAX_RATING}`)
+        .optional(),
+    // Defaults to relevance when searching, otherwise createdAt
+    sortBy: z.enum(['relevance', 'name', 'price', 'createdAt', 'rating']).optional(),
     sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
@@ -71,6 +86,8 @@ export type ListProductsQueryDto = z.infer<typeof listProductsQuerySchema>;
  */
 export const updateStockSchema = z.object({
     stockQuantity: z.number().int().min(0, 'Stock cannot be negative'),
+    reason: z.enum(['ADJUSTMENT', 'RESTOCK']).default('ADJUSTMENT'),
+    note: z.string().max(500).trim().optional(),
 });
 
 export type UpdateStockDto = z.infer<typeof updateStockSchema>;
@@ -90,6 +107,130 @@ export const createVariantSchema = z.object({
 
 export type CreateVariantDto = z.infer<typeof createVariantSchema>;
 
-export const updateVariantSchema = createVariantSchema.partial();
+// Stock is changed through the stock endpoint so every change reaches the ledger
+export const updateVariantSchema = createVariantSchema.omit({ stockQuantity: true }).partial();
 
 export type UpdateVariantDto = z.infer<typeof updateVariantSchema>;
+
+/**
+ * Product import/export record - a product with its variants and image URLs
+ * Products are matched by slug, variants by SKU and categories by slug
+ */
+export const importVariantSchema = createVariantSchema.extend({
+    sku: z.string().trim().min(1, 'SKU is required').max(50),
+    // Left out, a new variant opens with no stock and an existing one keeps its count
+    stockQuantity: z.number().int().min(0).optional(),
+});
+
+export const importProductSchema = createProductSchema
+    .omit({ categoryId: true })
+    .extend({
+        slug: z
+            .string()
+            .trim()
+            .min(1, 'Slug is required')
+            .max(200)
+            .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and hyphens'),
+        categorySlug: z.string().trim().min(1, 'Category slug is required'),
+        images: z
+            .array(z.string().url('Invalid image URL'))
+            .max(APP_CONSTANTS.MAX_PRODUCT_IMAGES)
+            .default([]),
+        variants: z.array(importVariantSchema).default([]),
+    });
+
+export type ImportProductDto = z.infer<typeof importProductSchema>;
+
+// The shape written by the export, which the import accepts back
+export type ProductTransferRecord = z.input<typeof importProductSchema>;
+
+/**
+ * Product import query schema - format defaults to the file extension
+ */
+export const importProductsQuerySchema = z.object({
+    format: z.enum(['csv', 'json']).optional(),
+});
+
+export type ImportProductsQueryDto = z.infer<typeof importProductsQuerySchema>;
+
+/**
+ * Product export query schema
+ */
+export const exportProductsQuerySchema = z.object({
+    format: z.enum(['csv', 'json']).default('csv'),
+});
+
+export type ExportProductsQueryDto = z.infer<typeof exportProductsQuerySchema>;
+
+// An image can belong to one variant color, named directly or through one of its variants
+const imageColorFields = {
+    color: z.string().trim().min(1).max(50).nullable().optional(),
+    variantId: z.string().uuid('Invalid variant ID').optional(),
+};
+
+const hasSingleColorSource = (image: { color?: string | null; variantId?: string }) =>
+    image.color === undefined || image.variantId === undefined;
+
+/**
+ * Product image upload schema - multipart fields arrive as strings
+ */
+export const uploadImageSchema = z
+    .object({
+        altText: z.string().max(200).trim().optional(),
+        isPrimary: z
+            .enum(['true', 'false'])
+            .default('false')
+            .transform((value) => value === 'true'),
+        ...imageColorFields,
+    })
+    .refine(hasSingleColorSource, {
+        message: 'Provide either color or variantId',
+        path: ['color'],
+    });
+
+export type UploadImageDto = z.infer<typeof uploadImageSchema>;
+
+/**
+ * Update product image schema
+ */
+export const updateImageSchema = z
+    .object({
+        altText: z.string().max(200).trim().nullable().optional(),
+        ...imageColorFields,
+    })
+    .refine(hasSingleColorSource, {
+        message: 'Provide either color or variantId',
+        path: ['color'],
+    });
+
+export type UpdateImageDto = z.infer<typeof updateImageSchema>;
+
+/**
+ * Reorder product images schema - every image id in display order
+ */
+export const reorderImagesSchema = z.object({
+    imageIds: z.array(z.string().uuid('Invalid image ID')).min(1),
+});
+
+export type ReorderImagesDto = z.infer<typeof reorderImagesSchema>;
+
+/**
+ * Color swatch schema - a hex color or an image URL
+ */
+export const colorSwatchSchema = z
+    .object({
+        hex: z
+            .string()
+            .regex(/^#[0-9a-fA-F]{6}$/, 'Hex must look like #A1B2C3')
+            .transform((value) => value.toUpperCase())
+            .optional(),
+        imageUrl: z.string().url('Invalid swatch image URL').optional(),
+    })
+    .refine((swatch) => (swatch.hex === undefined) !== (swatch.imageUrl === undefined), {
+        message: 'Provide either hex or imageUrl',
+        path: ['hex'],
+    });
+
+export type ColorSwatchDto = z.infer<typeof colorSwatchSchema>;
+
+export const colorParamSchema = z.string().trim().min(1, 'Color is required').max(50);
@@ -0,0 +1,56 @@
+// Admin Reviews Controller
+
+import {
+    Controller,
+    Get,
+    Put,
+    Query,
+    Body,
+    UseGuards,
+} from '@nestjs/common';
+import { ReviewsService } from './reviews.service';
+import { listReviewsQuerySchema, moderateReviewsSchema } from './schemas';
+import type { ListReviewsQueryDto, ModerateReviewsDto } from './schemas';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles } from '../../common/decorators';
+import { ZodValidationPipe } from '../../common/pipes';
+
+@Controller('admin/reviews')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN', 'SUPER_ADMIN')
+export class AdminReviewsController {
+    constructor(private readonly reviewsService: ReviewsService) { }
+
+    /**
+     * List reviews (moderation queue)
+     * GET /api/v1/admin/reviews
+     */
+    @Get()
+    async findAll(
+        @Query(new ZodValidationPipe(listReviewsQuerySchema)) query: ListReviewsQueryDto,
+    ) {
+        return this.reviewsService.findAll(query);
+    }
+
+    /**
+     * Approve reviews in bulk
+     * PUT /api/v1/admin/reviews/approve
+     */
+    @Put('approve')
+    async approve(
+        @Body(new ZodValidationPipe(moderateReviewsSchema)) dto: ModerateReviewsDto,
+    ) {
+        return this.reviewsService.approve(dto);
+    }
+
+    /**
+     * Reject reviews in bulk
+     * PUT /api/v1/admin/reviews/reject
+     */
+    @Put('reject')
+    async reject(
+        @Body(new ZodValidationPipe(moderateReviewsSchema)) dto: ModerateReviewsDto,
+    ) {
+        return this.reviewsService.reject(dto);
+    }
+}
@@ -0,0 +1,6 @@
+export * from './reviews.module';
+export * from './reviews.service';
+export * from './reviews.controller';
+export * from './public-reviews.controller';
+export * from './admin-reviews.controller';
+export * from './schemas';
@@ -0,0 +1,28 @@
+// Public Reviews Controller - Storefront endpoints
+
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import { ReviewsService } from './reviews.service';
+import { listProductReviewsQuerySchema } from './schemas';
+import type { ListProductReviewsQueryDto } from './schemas';
+import { Public } from '../../common/decorators';
+import { ZodValidationPipe } from '../../common/pipes';
+import { slugSchema } from '../../common/schemas';
+
+@Controller('public/products')
+@Public()
+export class PublicReviewsController {
+    constructor(private readonly reviewsService: ReviewsService) { }
+
+    /**
+     * Get approved reviews for a product
+     * GET /api/v1/public/products/:slug/reviews
+     */
+    @Get(':slug/reviews')
+    async findByProductSlug(
+        @Param('slug', new ZodValidationPipe(slugSchema)) slug: string,
+        @Query(new ZodValidationPipe(listProductReviewsQuerySchema))
+        query: ListProductReviewsQueryDto,
+    ) {
+        return this.reviewsService.findByProductSlug(slug, query);
+    }
+}
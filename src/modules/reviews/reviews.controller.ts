@@ -0,0 +1,72 @@
+// Reviews Controller - Customer endpoints
+
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Delete,
+    Param,
+    Body,
+    UseGuards,
+} from '@nestjs/common';
+import { ReviewsService } from './reviews.service';
+import { createReviewSchema, updateReviewSchema } from './schemas';
+import type { CreateReviewDto, UpdateReviewDto } from './schemas';
+import { JwtAuthGuard } from '../auth/guards';
+import { CurrentUser } from '../../common/decorators';
+import { ZodValidationPipe } from '../../common/pipes';
+import type { RequestUser } from '../../common/types';
+import { uuidSchema } from '../../common/schemas';
+
+@Controller('reviews')
+@UseGuards(JwtAuthGuard)
+export class ReviewsController {
+    constructor(private readonly reviewsService: ReviewsService) { }
+
+    /**
+     * Get current user's reviews
+     * GET /api/v1/reviews
+     */
+    @Get()
+    async getUserReviews(@CurrentUser() user: RequestUser) {
+        return this.reviewsService.getUserReviews(user.id);
+    }
+
+    /**
+     * Create a review
+     * POST /api/v1/reviews
+     */
+    @Post()
+    async create(
+        @CurrentUser() user: RequestUser,
+        @Body(new ZodValidationPipe(createReviewSchema)) dto: CreateReviewDto,
+    ) {
+        return this.reviewsService.create(user.id, dto);
+    }
+
+    /**
+     * Update own review
+     * PUT /api/v1/reviews/:id
+     */
+    @Put(':id')
+    async update(
+        @CurrentUser() user: RequestUser,
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Body(new ZodValidationPipe(updateReviewSchema)) dto: UpdateReviewDto,
+    ) {
+        return this.reviewsService.update(user.id, id, dto);
+    }
+
+    /**
+     * Delete own review
+     * DELETE /api/v1/reviews/:id
+     */
+    @Delete(':id')
+    async delete(
+        @CurrentUser() user: RequestUser,
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+    ) {
+        return this.reviewsService.delete(user.id, id);
+    }
+}
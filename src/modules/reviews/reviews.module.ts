@@ -0,0 +1,14 @@
+// Reviews Module
+
+import { Module } from '@nestjs/common';
+import { ReviewsController } from './reviews.controller';
+import { PublicReviewsController } from './public-reviews.controller';
+import { AdminReviewsController } from './admin-reviews.controller';
+import { ReviewsService } from './reviews.service';
+
+@Module({
+    controllers: [ReviewsController, PublicReviewsController, AdminReviewsController],
+    providers: [ReviewsService],
+    exports: [ReviewsService],
+})
+export class ReviewsModule { }
@@ -0,0 +1,178 @@
+import { ReviewsService } from './reviews.service';
+import type { PrismaService } from '../../prisma';
+import { AlreadyReviewedException, PurchaseRequiredException } from '../../common/filters';
+
+interface FakeReview {
+  id: string;
+  userId: string;
+  productId: string;
+  rating: number;
+  title?: string;
+  content?: string;
+  status: string;
+}
+
+interface FakeState {
+  reviews: FakeReview[];
+  // user:product pairs with a delivered order
+  delivered: Set<string>;
+  summaries: Map<string, unknown>;
+}
+
+/**
+ * In-memory stand-in for reviews, delivered purchases and product rating summaries
+ * Reads hand out copies, as the database would
+ */
+function createFakePrisma(state: FakeState) {
+  return {
+    product: {
+      findUnique: ({ where }: { where: { id: string } }) =>
+        Promise.resolve({ id: where.id, name: 'Adire Shirt', isActive: true }),
+      update: ({ where, data }: { where: { id: string }; data: unknown }) => {
+        state.summaries.set(where.id, data);
+        return Promise.resolve(data);
+      },
+    },
+    orderItem: {
+      findFirst: ({ where }: { where: { variant: { productId: string }; order: { userId: string } } }) =>
+        Promise.resolve(
+          state.delivered.has(`${where.order.userId}:${where.variant.productId}`) ? { id: 'item-1' } : null,
+        ),
+    },
+    review: {
+      findUnique: ({ where }: { where: { userId_productId: { userId: string; productId: string } } }) =>
+        Promise.resolve(
+          state.reviews.find(
+            (review) =>
+              review.userId === where.userId_productId.userId &&
+              review.productId === where.userId_productId.productId,
+          ) ?? null,
+        ),
+      findFirst: ({ where }: { where: { id: string; userId: string } }) => {
+        const review = state.reviews.find((item) => item.id === where.id && item.userId === where.userId);
+        return Promise.resolve(review ? { ...review } : null);
+      },
+      findMany: ({ where }: { where: { id: { in: string[] } } }) =>
+        Promise.resolve(state.reviews.filter((review) => where.id.in.includes(review.id))),
+      create: ({ data }: { data: Omit<FakeReview, 'id'> }) => {
+        const review = { ...data, id: `review-${state.reviews.length + 1}` };
+        state.reviews.push(review);
+        return Promise.resolve(review);
+      },
+      update: ({ where, data }: { where: { id: string }; data: Partial<FakeReview> }) =>
+        Promise.resolve(Object.assign(state.reviews.find((review) => review.id === where.id)!, data)),
+      updateMany: ({ where, data }: { where: { id: { in: string[] } }; data: { status: string } }) => {
+        const matched = state.reviews.filter((review) => where.id.in.includes(review.id));
+        matched.forEach((review) => (review.status = data.status));
+        return Promise.resolve({ count: matched.length });
+      },
+      delete: ({ where }: { where: { id: string } }) => {
+        state.reviews = state.reviews.filter((review) => review.id !== where.id);
+        return Promise.resolve({});
+      },
+      groupBy: ({ where }: { where: { productId: string; status: string } }) => {
+        const counts = new Map<number, number>();
+        state.reviews
+          .filter((review) => review.productId === where.productId && review.status === where.status)
+          .forEach((review) => counts.set(review.rating, (counts.get(review.rating) ?? 0) + 1));
+        return Promise.resolve([...counts].map(([rating, count]) => ({ rating, _count: { _all: count } })));
+      },
+    },
+  };
+}
+
+describe('ReviewsService', () => {
+  let state: FakeState;
+  let service: ReviewsService;
+
+  const review = (id: string, userId: string, rating: number, status: string): FakeReview => ({
+    id,
+    userId,
+    productId: 'product-1',
+    rating,
+    status,
+  });
+
+  beforeEach(() => {
+    state = { reviews: [], delivered: new Set(['user-1:product-1']), summaries: new Map() };
+    service = new ReviewsService(createFakePrisma(state) as unknown as PrismaService);
+  });
+
+  describe('purchase gating', () => {
+    it('holds a verified buyer review for moderation', async () => {
+      const { data } = await service.create('user-1', { productId: 'product-1', rating: 5 });
+
+      expect(data.status).toBe('PENDING');
+      expect(state.summaries.size).toBe(0);
+    });
+
+    it('refuses a review without a delivered order for the product', async () => {
+      await expect(service.create('user-2', { productId: 'product-1', rating: 1 })).rejects.toBeInstanceOf(
+        PurchaseRequiredException,
+      );
+      expect(state.reviews).toHaveLength(0);
+    });
+
+    it('allows one review per product', async () => {
+      state.reviews.push(review('review-1', 'user-1', 4, 'APPROVED'));
+
+      await expect(service.create('user-1', { productId: 'product-1', rating: 5 })).rejects.toBeInstanceOf(
+        AlreadyReviewedException,
+      );
+    });
+
+    it('refuses edits once the buyer no longer has the delivered order', async () => {
+      state.reviews.push(review('review-1', 'user-1', 4, 'APPROVED'));
+      state.delivered.clear();
+
+      await expect(service.update('user-1', 'review-1', { rating: 1 })).rejects.toBeInstanceOf(
+        PurchaseRequiredException,
+      );
+      expect(state.reviews[0].rating).toBe(4);
+    });
+  });
+
+  describe('rating summary', () => {
+    beforeEach(() => {
+      state.reviews.push(
+        review('review-1', 'user-1', 5, 'PENDING'),
+        review('review-2', 'user-2', 4, 'PENDING'),
+        review('review-3', 'user-3', 1, 'PENDING'),
+      );
+    });
+
+    it('counts approved reviews only', async () => {
+      await service.approve({ reviewIds: ['review-1', 'review-2'] });
+
+      expect(state.summaries.get('product-1')).toEqual({
+        averageRating: 4.5,
+        reviewCount: 2,
+        ratingHistogram: { '1': 0, '2': 0, '3': 0, '4': 1, '5': 1 },
+      });
+    });
+
+    it('drops rejected reviews from the summary', async () => {
+      await service.approve({ reviewIds: ['review-1', 'review-2', 'review-3'] });
+      await service.reject({ reviewIds: ['review-3'] });
+
+      expect(state.summaries.get('product-1')).toMatchObject({ averageRating: 4.5, reviewCount: 2 });
+    });
+
+    it('takes an edited review out of the summary until it is approved again', async () => {
+      await service.approve({ reviewIds: ['review-1', 'review-2'] });
+
+      await service.update('user-1', 'review-1', { rating: 2 });
+
+      expect(state.reviews[0].status).toBe('PENDING');
+      expect(state.summaries.get('product-1')).toMatchObject({ averageRating: 4, reviewCount: 1 });
+    });
+
+    it('refreshes the summary when an approved review is deleted', async () => {
+      await service.approve({ reviewIds: ['review-1', 'review-2'] });
+
+      await service.delete('user-2', 'review-2');
+
+      expect(state.summaries.get('product-1')).toMatchObject({ averageRating: 5, reviewCount: 1 });
+    });
+  });
+});
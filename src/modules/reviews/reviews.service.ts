@@ -0,0 +1,351 @@
+// Reviews Service
+
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma';
+import type {
+    CreateReviewDto,
+    UpdateReviewDto,
+    ListProductReviewsQueryDto,
+    ListReviewsQueryDto,
+    ModerateReviewsDto,
+} from './schemas';
+import type { ApiResponse, PaginatedResult } from '../../common/types';
+import { MESSAGES } from '../../common/constants';
+import {
+    ProductNotFoundException,
+    ReviewNotFoundException,
+    AlreadyReviewedException,
+    PurchaseRequiredException,
+} from '../../common/filters';
+import {
+    successResponse,
+    createdResponse,
+    updatedResponse,
+    deletedResponse,
+    createPaginatedResult,
+    calculatePagination,
+    buildRatingSummary,
+} from '../../common/helpers';
+
+// Review response types
+export interface ReviewResponse {
+    id: string;
+    userId: string;
+    productId: string;
+    rating: number;
+    title: string | null;
+    content: string | null;
+    status: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface PublicReviewResponse {
+    id: string;
+    rating: number;
+    title: string | null;
+    content: string | null;
+    createdAt: Date;
+    user: {
+        firstName: string;
+        lastName: string;
+    };
+}
+
+export interface ModerationResult {
+    count: number;
+}
+
+@Injectable()
+export class ReviewsService {
+    private readonly logger = new Logger(ReviewsService.name);
+
+    constructor(private readonly prisma: PrismaService) { }
+
+    /**
+     * Ensure the user has a delivered order containing the product
+     */
+    private async assertVerifiedPurchase(
+        userId: string,
+        productId: string,
+    ): Promise<void> {
+        const deliveredItem = await this.prisma.orderItem.findFirst({
+            where: {
+                variant: { productId },
+                order: { userId, status: 'DELIVERED' },
+            },
+            select: { id: true },
+        });
+
+        if (!deliveredItem) {
+            throw new PurchaseRequiredException();
+        }
+    }
+
+    /**
+     * Recalculate the rating summary of products from their approved reviews
+     */
+    private async refreshProductRatings(productIds: string[]): Promise<void> {
+        for (const productId of new Set(productIds)) {
+            const groups = await this.prisma.review.groupBy({
+                by: ['rating'],
+                where: { productId, status: 'APPROVED' },
+                _count: { _all: true },
+            });
+
+            const summary = buildRatingSummary(
+                groups.map((group) => ({ rating: group.rating, count: group._count._all })),
+            );
+
+            await this.prisma.product.update({
+                where: { id: productId },
+                data: summary,
+            });
+        }
+    }
+
+    /**
+     * Create a review (customer)
+     */
+    async create(
+        userId: string,
+        dto: CreateReviewDto,
+    ): Promise<ApiResponse<ReviewResponse>> {
+        const product = await this.prisma.product.findUnique({
+            where: { id: dto.productId },
+        });
+
+        if (!product || !product.isActive) {
+            throw new ProductNotFoundException();
+        }
+
+        const existing = await this.prisma.review.findUnique({
+            where: {
+                userId_productId: { userId, productId: dto.productId },
+            },
+        });
+
+        if (existing) {
+            throw new AlreadyReviewedException();
+        }
+
+        await this.assertVerifiedPurchase(userId, dto.productId);
+
+        const review = await this.prisma.review.create({
+            data: {
+                userId,
+                productId: dto.productId,
+                rating: dto.rating,
+                title: dto.title,
+                content: dto.content,
+                status: 'PENDING',
+            },
+        });
+
+        this.logger.log(`Review created for product ${product.name} by user ${userId}`);
+
+        return createdResponse(review, MESSAGES.REVIEW.CREATED);
+    }
+
+    /**
+     * Update own review (customer) - edits go back to moderation
+     */
+    async update(
+        userId: string,
+        reviewId: string,
+        dto: UpdateReviewDto,
+    ): Promise<ApiResponse<ReviewResponse>> {
+        const review = await this.prisma.review.findFirst({
+            where: { id: reviewId, userId },
+        });
+
+        if (!review) {
+            throw new ReviewNotFoundException();
+        }
+
+        await this.assertVerifiedPurchase(userId, review.productId);
+
+        const updated = await this.prisma.review.update({
+            where: { id: reviewId },
+            data: {
+                ...dto,
+                status: 'PENDING',
+            },
+        });
+
+        // An approved review leaves the summary until it is re-approved
+        if (review.status === 'APPROVED') {
+            await this.refreshProductRatings([review.productId]);
+        }
+
+        this.logger.log(`Review ${reviewId} updated by user ${userId}`);
+
+        return updatedResponse(updated, MESSAGES.REVIEW.UPDATED);
+    }
+
+    /**
+     * Delete own review (customer)
+     */
+    async delete(userId: string, reviewId: string): Promise<ApiResponse<null>> {
+        const review = await this.prisma.review.findFirst({
+            where: { id: reviewId, userId },
+        });
+
+        if (!review) {
+            throw new ReviewNotFoundException();
+        }
+
+        await this.prisma.review.delete({
+            where: { id: reviewId },
+        });
+
+        if (review.status === 'APPROVED') {
+            await this.refreshProductRatings([review.productId]);
+        }
+
+        this.logger.log(`Review ${reviewId} deleted by user ${userId}`);
+
+        return deletedResponse(MESSAGES.REVIEW.DELETED);
+    }
+
+    /**
+     * Get current user's reviews
+     */
+    async getUserReviews(userId: string): Promise<ApiResponse<ReviewResponse[]>> {
+        const reviews = await this.prisma.review.findMany({
+            where: { userId },
+            include: {
+                product: { select: { id: true, name: true, slug: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return successResponse(reviews);
+    }
+
+    /**
+     * Get approved reviews for a product by slug (public)
+     */
+    async findByProductSlug(
+        slug: string,
+        query: ListProductReviewsQueryDto,
+    ): Promise<ApiResponse<PaginatedResult<PublicReviewResponse>>> {
+        const { page, limit, rating } = query;
+        const { skip, take } = calculatePagination(page, limit);
+
+        const product = await this.prisma.product.findUnique({
+            where: { slug },
+            select: { id: true, isActive: true },
+        });
+
+        if (!product || !product.isActive) {
+            throw new ProductNotFoundException();
+        }
+
+        const where = {
+            productId: product.id,
+            status: 'APPROVED' as const,
+            ...(rating !== undefined && { rating }),
+        };
+
+        const [reviews, total] = await Promise.all([
+            this.prisma.review.findMany({
+                where,
+                skip,
+                take,
+                select: {
+                    id: true,
+                    rating: true,
+                    title: true,
+                    content: true,
+                    createdAt: true,
+                    user: { select: { firstName: true, lastName: true } },
+                },
+                orderBy: { createdAt: 'desc' },
+            }),
+            this.prisma.review.count({ where }),
+        ]);
+
+        const result = createPaginatedResult(reviews, total, page, limit);
+        return successResponse(result);
+    }
+
+    // ============ ADMIN OPERATIONS ============
+
+    /**
+     * List reviews for moderation (admin)
+     */
+    async findAll(
+        query: ListReviewsQueryDto,
+    ): Promise<ApiResponse<PaginatedResult<ReviewResponse>>> {
+        const { page, limit, status, productId, rating } = query;
+        const { skip, take } = calculatePagination(page, limit);
+
+        const where = {
+            ...(status && { status }),
+            ...(productId && { productId }),
+            ...(rating !== undefined && { rating }),
+        };
+
+        const [reviews, total] = await Promise.all([
+            this.prisma.review.findMany({
+                where,
+                skip,
+                take,
+                include: {
+                    user: { select: { email: true, firstName: true, lastName: true } },
+                    product: { select: { id: true, name: true, slug: true } },
+                },
+                orderBy: { createdAt: 'asc' },
+            }),
+            this.prisma.review.count({ where }),
+        ]);
+
+        const result = createPaginatedResult(reviews, total, page, limit);
+        return successResponse(result);
+    }
+
+    /**
+     * Get the products affected by a set of reviews
+     */
+    private async getProductIds(reviewIds: string[]): Promise<string[]> {
+        const reviews = await this.prisma.review.findMany({
+            where: { id: { in: reviewIds } },
+            select: { productId: true },
+        });
+
+        return reviews.map((review) => review.productId);
+    }
+
+    /**
+     * Approve reviews in bulk (admin)
+     */
+    async approve(dto: ModerateReviewsDto): Promise<ApiResponse<ModerationResult>> {
+        const { count } = await this.prisma.review.updateMany({
+            where: { id: { in: dto.reviewIds } },
+            data: { status: 'APPROVED' },
+        });
+
+        await this.refreshProductRatings(await this.getProductIds(dto.reviewIds));
+
+        this.logger.log(`${count} review(s) approved`);
+
+        return updatedResponse({ count }, MESSAGES.REVIEW.BULK_APPROVED(count));
+    }
+
+    /**
+     * Reject reviews in bulk (admin)
+     */
+    async reject(dto: ModerateReviewsDto): Promise<ApiResponse<ModerationResult>> {
+        const { count } = await this.prisma.review.updateMany({
+            where: { id: { in: dto.reviewIds } },
+            data: { status: 'REJECTED' },
+        });
+
+        await this.refreshProductRatings(await this.getProductIds(dto.reviewIds));
+
+        this.logger.log(`${count} review(s) rejected`);
+
+        return updatedResponse({ count }, MESSAGES.REVIEW.BULK_REJECTED(count));
+    }
+}
@@ -0,0 +1 @@
+export * from './reviews.schema';
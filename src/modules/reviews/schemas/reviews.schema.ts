@@ -0,0 +1,77 @@
+// Reviews Zod Schemas
+
+import { z } from 'zod';
+import { APP_CONSTANTS } from '../../../common/constants';
+
+const ratingSchema = z
+    .number()
+    .int('Rating must be a whole number')
+    .min(APP_CONSTANTS.MIN_RATING, `Rating must be at least ${APP_CONSTANTS.MIN_RATING}`)
+    .max(APP_CONSTANTS.MAX_RATING, `Rating cannot exceed ${APP_CONSTANTS.MAX_RATING}`);
+
+/**
+ * Create review schema
+ */
+export const createReviewSchema = z.object({
+    productId: z.string().uuid('Invalid product ID'),
+    rating: ratingSchema,
+    title: z
+        .string()
+        .max(100, 'Title cannot exceed 100 characters')
+        .trim()
+        .optional(),
+    content: z
+        .string()
+        .max(2000, 'Review cannot exceed 2000 characters')
+        .trim()
+        .optional(),
+});
+
+export type CreateReviewDto = z.infer<typeof createReviewSchema>;
+
+/**
+ * Update review schema
+ */
+export const updateReviewSchema = createReviewSchema
+    .omit({ productId: true })
+    .partial();
+
+export type UpdateReviewDto = z.infer<typeof updateReviewSchema>;
+
+/**
+ * Public product reviews query schema
+ */
+export const listProductReviewsQuerySchema = z.object({
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    rating: z.coerce
+        .number()
+        .int()
+        .min(APP_CONSTANTS.MIN_RATING)
+        .max(APP_CONSTANTS.MAX_RATING)
+        .optional(),
+});
+
+export type ListProductReviewsQueryDto = z.infer<typeof listProductReviewsQuerySchema>;
+
+/**
+ * Admin: List reviews query schema
+ */
+export const listReviewsQuerySchema = listProductReviewsQuerySchema.extend({
+    status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+    productId: z.string().uuid().optional(),
+});
+
+export type ListReviewsQueryDto = z.infer<typeof listReviewsQuerySchema>;
+
+/**
+ * Admin: Bulk moderation schema
+ */
+export const moderateReviewsSchema = z.object({
+    reviewIds: z
+        .array(z.string().uuid('Invalid review ID'))
+        .min(1, 'Select at least one review')
+        .max(100, 'You can moderate at most 100 reviews at a time'),
+});
+
+export type ModerateReviewsDto = z.infer<typeof moderateReviewsSchema>;
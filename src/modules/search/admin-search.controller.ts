@@ -0,0 +1,23 @@
+// Admin Search Controller
+
+import { Controller, HttpCode, HttpStatus, Post, UseGuards } from '@nestjs/common';
+import { ProductSearchService } from './product-search.service';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles } from '../../common/decorators';
+
+@Controller('admin/search')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN', 'SUPER_ADMIN')
+export class AdminSearchController {
+    constructor(private readonly productSearchService: ProductSearchService) { }
+
+    /**
+     * Rebuild the product search index
+     * POST /api/v1/admin/search/reindex
+     */
+    @Post('reindex')
+    @HttpCode(HttpStatus.OK)
+    async reindex() {
+        return this.productSearchService.reindexAll();
+    }
+}
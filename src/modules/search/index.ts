@@ -0,0 +1,6 @@
+export * from './search.module';
+export * from './product-search.service';
+export * from './search-suggest.service';
+export * from './search.controller';
+export * from './admin-search.controller';
+export * from './schemas';
@@ -0,0 +1,123 @@
+// Product Search Service - Postgres full-text search with trigram typo tolerance
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma';
+import type { ApiResponse } from '../../common/types';
+import { APP_CONSTANTS, MESSAGES } from '../../common/constants';
+import { successResponse } from '../../common/helpers';
+
+// Snippet options for ts_headline - matches are wrapped in <mark>
+const NAME_HEADLINE = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+const SNIPPET_HEADLINE =
+    'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "';
+
+export interface ProductSearchHit {
+    productId: string;
+    rank: number;
+}
+
+export interface ProductHighlight {
+    name: string;
+    snippet: string;
+}
+
+export interface ReindexResult {
+    count: number;
+}
+
+@Injectable()
+export class ProductSearchService {
+    private readonly logger = new Logger(ProductSearchService.name);
+
+    constructor(private readonly prisma: PrismaService) { }
+
+    /**
+     * Find products matching a search term, best matches first
+     * Full-text matches rank by weighted field (name > category, colors > description),
+     * and misspelled names still match through trigram word similarity
+     */
+    async search(term: string): Promise<ProductSearchHit[]> {
+        return this.prisma.$queryRaw<ProductSearchHit[]>`
+            WITH q AS (SELECT websearch_to_tsquery('english', ${term}) AS query)
+            SELECT p.id AS "productId",
+                   (COALESCE(ts_rank_cd(p.search_vector, q.query), 0)
+                       + word_similarity(${term}, p.name))::float8 AS rank
+            FROM products p, q
+            WHERE p.search_vector @@ q.query
+               OR ${term} <% p.name
+            ORDER BY rank DESC, p.id
+            LIMIT ${APP_CONSTANTS.SEARCH_MAX_RESULTS}
+        `;
+    }
+
+    /**
+     * Highlight the search term in product names and description snippets
+     */
+    async highlight(term: string, productIds: string[]): Promise<Map<string, ProductHighlight>> {
+        if (productIds.length === 0) {
+            return new Map();
+        }
+
+        const rows = await this.prisma.$queryRaw<Array<ProductHighlight & { id: string }>>`
+            WITH q AS (SELECT websearch_to_tsquery('english', ${term}) AS query)
+            SELECT p.id,
+                   ts_headline('english', p.name, q.query, ${NAME_HEADLINE}) AS name,
+                   ts_headline('english', p.description, q.query, ${SNIPPET_HEADLINE}) AS snippet
+            FROM products p, q
+            WHERE p.id IN (${Prisma.join(productIds)})
+        `;
+
+        return new Map(rows.map(({ id, ...highlight }) => [id, highlight]));
+    }
+
+    /**
+     * Rebuild the search document of the given products
+     * Call after anything in the document changes - product text, category name or variant colors
+     */
+    async reindex(productIds: string[]): Promise<void> {
+        if (productIds.length === 0) {
+            return;
+        }
+
+        await this.prisma.$executeRaw`
+            ${this.updateSearchVector()}
+            AND p.id IN (${Prisma.join(productIds)})
+        `;
+    }
+
+    /**
+     * Rebuild the search documents of every product in a category
+     */
+    async reindexCategory(categoryId: string): Promise<void> {
+        await this.prisma.$executeRaw`
+            ${this.updateSearchVector()}
+            AND p.category_id = ${categoryId}
+        `;
+    }
+
+    /**
+     * Rebuild the whole search index (admin)
+     * Triggers keep documents current; this repairs an index that drifted
+     */
+    async reindexAll(): Promise<ApiResponse<ReindexResult>> {
+        const count = await this.prisma.$executeRaw`${this.updateSearchVector()}`;
+
+        this.logger.log(`Search index rebuilt for ${count} product(s)`);
+
+        return successResponse({ count }, MESSAGES.SEARCH.REINDEXED(count));
+    }
+
+    /**
+     * Rebuild search documents with the database's own definition (see the product_search_sync migration)
+     */
+    private updateSearchVector(): Prisma.Sql {
+        return Prisma.sql`
+            UPDATE products p
+            SET search_vector =
+                product_search_vector(p.id, p.name, p.short_description, p.description, p.category_id)
+            FROM categories c
+            WHERE c.id = p.category_id
+        `;
+    }
+}
@@ -0,0 +1,19 @@
+// Search Zod Schemas
+
+import { z } from 'zod';
+import { APP_CONSTANTS } from '../../../common/constants';
+
+/**
+ * Search suggestion query schema
+ */
+export const searchSuggestQuerySchema = z.object({
+    q: z.string().trim().min(1, 'Search term is required').max(100),
+    limit: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(APP_CONSTANTS.SEARCH_SUGGEST_MAX_LIMIT)
+        .default(APP_CONSTANTS.SEARCH_SUGGEST_LIMIT),
+});
+
+export type SearchSuggestQueryDto = z.infer<typeof searchSuggestQuerySchema>;
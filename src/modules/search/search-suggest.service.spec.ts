@@ -0,0 +1,105 @@
+import { SearchSuggestService } from './search-suggest.service';
+import { CacheService, MemoryCacheStore } from '../../cache';
+import { searchSuggestQuerySchema } from './schemas';
+import type { PrismaService } from '../../prisma';
+
+describe('SearchSuggestService', () => {
+  let prisma: {
+    $queryRaw: jest.Mock;
+    product: { findMany: jest.Mock };
+    category: { findMany: jest.Mock };
+    collection: { findMany: jest.Mock };
+  };
+  let service: SearchSuggestService;
+
+  const suggest = (query: Record<string, unknown>) => service.suggest(searchSuggestQuerySchema.parse(query));
+
+  // The SQL text and bound values of the product search
+  const productSearch = () => {
+    const [strings, ...values] = prisma.$queryRaw.mock.calls[0] as [TemplateStringsArray, ...unknown[]];
+    return { sql: strings.join('?').replace(/\s+/g, ' '), values };
+  };
+
+  beforeEach(() => {
+    prisma = {
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      product: { findMany: jest.fn().mockResolvedValue([]) },
+      category: { findMany: jest.fn().mockResolvedValue([]) },
+      collection: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    service = new SearchSuggestService(prisma as unknown as PrismaService, new CacheService(new MemoryCacheStore()));
+  });
+
+  describe('product matches', () => {
+    it('matches every typed word as a prefix', async () => {
+      await suggest({ q: 'ank dre' });
+
+      expect(productSearch().values[0]).toBe('ank:* & dre:*');
+    });
+
+    it('stems prefixes with the english config the search vector uses', async () => {
+      await suggest({ q: 'dresses' });
+
+      const { sql, values } = productSearch();
+      expect(sql).toContain("to_tsquery('english', ?)");
+      expect(values[0]).toBe('dresses:*');
+    });
+
+    it('drops punctuation so the prefix query stays valid tsquery syntax', async () => {
+      await suggest({ q: 'wrap-dress (ankara)!' });
+
+      expect(productSearch().values[0]).toBe('wrap:* & dress:* & ankara:*');
+    });
+
+    it('skips the product search when nothing searchable was typed', async () => {
+      const { data } = await suggest({ q: '!!!' });
+
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+      expect(data.products).toEqual([]);
+    });
+
+    it('keeps the ranked order and the primary image', async () => {
+      prisma.$queryRaw.mockResolvedValue([{ id: 'product-2' }, { id: 'product-1' }, { id: 'gone' }]);
+      prisma.product.findMany.mockResolvedValue([
+        { id: 'product-1', name: 'Ankara Dress', slug: 'ankara-dress', basePrice: 15000, images: [] },
+        {
+          id: 'product-2',
+          name: 'Ankara Skirt',
+          slug: 'ankara-skirt',
+          basePrice: 9000,
+          images: [{ url: 'https://cdn.test/skirt.jpg' }],
+        },
+      ]);
+
+      const { data } = await suggest({ q: 'ankara' });
+
+      expect(data.products).toEqual([
+        {
+          id: 'product-2',
+          name: 'Ankara Skirt',
+          slug: 'ankara-skirt',
+          basePrice: 9000,
+          imageUrl: 'https://cdn.test/skirt.jpg',
+        },
+        { id: 'product-1', name: 'Ankara Dress', slug: 'ankara-dress', basePrice: 15000, imageUrl: null },
+      ]);
+    });
+  });
+
+  describe('caching', () => {
+    it('shares one cache entry across case and spacing of the same term', async () => {
+      await suggest({ q: '  Ankara   DRESS ' });
+      const { data } = await suggest({ q: 'ankara dress' });
+
+      expect(data.query).toBe('ankara dress');
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    });
+
+    it('caches each limit separately', async () => {
+      await suggest({ q: 'ankara', limit: 3 });
+      await suggest({ q: 'ankara', limit: 5 });
+
+      expect(prisma.$queryRaw).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+// Search Suggest Service - autocomplete for the storefront search box
+
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma';
+import { CacheService } from '../../cache';
+import type { SearchSuggestQueryDto } from './schemas';
+import type { ApiResponse } from '../../common/types';
+import { APP_CONSTANTS } from '../../common/constants';
+import { successResponse } from '../../common/helpers';
+
+export interface ProductSuggestion {
+    id: string;
+    name: string;
+    slug: string;
+    basePrice: unknown; // Prisma Decimal
+    imageUrl: string | null;
+}
+
+export interface TaxonomySuggestion {
+    id: string;
+    name: string;
+    slug: string;
+    imageUrl: string | null;
+}
+
+export interface SearchSuggestions {
+    query: string;
+    products: ProductSuggestion[];
+    categories: TaxonomySuggestion[];
+    collections: TaxonomySuggestion[];
+}
+
+@Injectable()
+export class SearchSuggestService {
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly cache: CacheService,
+    ) { }
+
+    /**
+     * Suggest products, categories and collections for a partly typed search
+     * Results are cached briefly since the same prefixes are typed over and over
+     */
+    async suggest(query: SearchSuggestQueryDto): Promise<ApiResponse<SearchSuggestions>> {
+        const term = query.q.toLowerCase().replace(/\s+/g, ' ');
+
+        const suggestions = await this.cache.remember(
+            `search:suggest:${query.limit}:${term}`,
+            APP_CONSTANTS.SEARCH_SUGGEST_TTL,
+            () => this.findSuggestions(term, query.limit),
+        );
+
+        return successResponse(suggestions);
+    }
+
+    private async findSuggestions(term: string, limit: number): Promise<SearchSuggestions> {
+        const [products, categories, collections] = await Promise.all([
+            this.findProducts(term, limit),
+            this.prisma.category.findMany({
+                where: { isActive: true, name: { contains: term, mode: 'insensitive' } },
+                select: { id: true, name: true, slug: true, imageUrl: true },
+                orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+                take: limit,
+            }),
+            this.prisma.collection.findMany({
+                where: { isActive: true, name: { contains: term, mode: 'insensitive' } },
+                select: { id: true, name: true, slug: true, imageUrl: true },
+                orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+                take: limit,
+            }),
+        ]);
+
+        return { query: term, products, categories, collections };
+    }
+
+    /**
+     * Match every typed word as a prefix ("ank dre" finds "Ankara Dress"),
+     * with trigram similarity catching misspelled names
+     */
+    private async findProducts(term: string, limit: number): Promise<ProductSuggestion[]> {
+        const words = term.match(/[\p{L}\p{N}]+/gu);
+        if (!words) {
+            return [];
+        }
+
+        // Words hold only letters and digits, so they are safe in tsquery syntax
+        const prefixQuery = words.map((word) => `${word}:*`).join(' & ');
+
+        // Stem the prefixes with the search document's own config, so "dresses" matches the stored "dress"
+        const matches = await this.prisma.$queryRaw<Array<{ id: string }>>`
+            WITH q AS (SELECT to_tsquery('english', ${prefixQuery}) AS query)
+            SELECT p.id
+            FROM products p, q
+            WHERE p.is_active
+              AND (p.search_vector @@ q.query OR ${term} <% p.name)
+            ORDER BY COALESCE(ts_rank_cd(p.search_vector, q.query), 0)
+                         + word_similarity(${term}, p.name) DESC,
+                     p.name
+            LIMIT ${limit}
+        `;
+
+        const products = await this.prisma.product.findMany({
+            where: { id: { in: matches.map((match) => match.id) } },
+            select: {
+                id: true,
+                name: true,
+                slug: true,
+                basePrice: true,
+                images: {
+                    where: { isPrimary: true },
+                    select: { url: true },
+                    take: 1,
+                },
+            },
+        });
+        const byId = new Map(products.map((product) => [product.id, product]));
+
+        // Keep the ranked order from the search query
+        return matches.flatMap((match) => {
+            const product = byId.get(match.id);
+            if (!product) return [];
+
+            const { images, ...rest } = product;
+            return [{ ...rest, imageUrl: images[0]?.url ?? null }];
+        });
+    }
+}
@@ -0,0 +1,26 @@
+// Search Controller - Public endpoints
+
+import { Controller, Get, Query } from '@nestjs/common';
+import { SearchSuggestService } from './search-suggest.service';
+import { searchSuggestQuerySchema } from './schemas';
+import type { SearchSuggestQueryDto } from './schemas';
+import { Public } from '../../common/decorators';
+import { ZodValidationPipe } from '../../common/pipes';
+
+@Controller('public/search')
+@Public()
+export class SearchController {
+    constructor(private readonly searchSuggestService: SearchSuggestService) { }
+
+    /**
+     * Autocomplete suggestions for the search box
+     * GET /api/v1/public/search/suggest?q=ank
+     */
+    @Get('suggest')
+    async suggest(
+        @Query(new ZodValidationPipe(searchSuggestQuerySchema))
+        query: SearchSuggestQueryDto,
+    ) {
+        return this.searchSuggestService.suggest(query);
+    }
+}
@@ -0,0 +1,14 @@
+// Search Module
+
+import { Module } from '@nestjs/common';
+import { SearchController } from './search.controller';
+import { AdminSearchController } from './admin-search.controller';
+import { ProductSearchService } from './product-search.service';
+import { SearchSuggestService } from './search-suggest.service';
+
+@Module({
+    controllers: [SearchController, AdminSearchController],
+    providers: [ProductSearchService, SearchSuggestService],
+    exports: [ProductSearchService],
+})
+export class SearchModule { }
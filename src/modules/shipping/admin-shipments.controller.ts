@@ -0,0 +1,67 @@
+// Admin Shipments Controller
+
+import {
+    Controller,
+    Get,
+    Post,
+    Put,
+    Param,
+    Body,
+    UseGuards,
+} from '@nestjs/common';
+import { ShipmentsService } from './shipments.service';
+import { bookShipmentSchema, updateShipmentStatusSchema } from './schemas';
+import type { BookShipmentDto, UpdateShipmentStatusDto } from './schemas';
+import { JwtAuthGuard, RolesGuard } from '../auth/guards';
+import { Roles } from '../../common/decorators';
+import { ZodValidationPipe } from '../../common/pipes';
+import { uuidSchema } from '../../common/schemas';
+
+@Controller('admin/orders/:id/shipment')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN', 'SUPER_ADMIN')
+export class AdminShipmentsController {
+    constructor(private readonly shipmentsService: ShipmentsService) { }
+
+    /**
+     * Get order shipment with timeline
+     * GET /api/v1/admin/orders/:id/shipment
+     */
+    @Get()
+    async findByOrder(@Param('id', new ZodValidationPipe(uuidSchema)) id: string) {
+        return this.shipmentsService.findByOrder(id);
+    }
+
+    /**
+     * Book shipment with the delivery partner
+     * POST /api/v1/admin/orders/:id/shipment
+     */
+    @Post()
+    async book(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Body(new ZodValidationPipe(bookShipmentSchema)) dto: BookShipmentDto,
+    ) {
+        return this.shipmentsService.book(id, dto);
+    }
+
+    /**
+     * Update shipment status
+     * PUT /api/v1/admin/orders/:id/shipment/status
+     */
+    @Put('status')
+    async updateStatus(
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+        @Body(new ZodValidationPipe(updateShipmentStatusSchema)) dto: UpdateShipmentStatusDto,
+    ) {
+        return this.shipmentsService.updateStatus(id, dto);
+    }
+
+    /**
+     * Pull latest tracking events from the delivery partner
+     * POST /api/v1/admin/orders/:id/shipment/sync
+     */
+    @Post('sync')
+    async syncTracking(@Param('id', new ZodValidationPipe(uuidSchema)) id: string) {
+        return this.shipmentsService.syncTracking(id);
+    }
+}
@@ -0,0 +1,8 @@
+export * from './shipping.module';
+export * from './shipping.service';
+export * from './shipments.service';
+export * from './public-shipping.controller';
+export * from './shipment-tracking.controller';
+export * from './admin-shipments.controller';
+export * from './providers';
+export * from './schemas';
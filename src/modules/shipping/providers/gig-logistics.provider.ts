@@ -0,0 +1,182 @@
+// GIG Logistics Provider - rates, bookings and tracking via the GIG third-party API
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ShippingProviderException } from '../../../common/filters';
+import type {
+    ShippingProvider,
+    ShippingRateRequest,
+    ShippingRate,
+    BookShipmentRequest,
+    BookedShipment,
+    TrackingInfo,
+    TrackingEvent,
+    ShipmentTrackingStatus,
+} from './shipping-provider.interface';
+
+interface GigResponse<T> {
+    Code: string;
+    ShortDescription?: string;
+    Object: T;
+}
+
+interface GigTrackingEntry {
+    Status: string;
+    Location?: string;
+    DateTime: string;
+}
+
+@Injectable()
+export class GigLogisticsProvider implements ShippingProvider {
+    readonly name = 'GIG_LOGISTICS';
+    private readonly logger = new Logger(GigLogisticsProvider.name);
+    private readonly baseUrl: string;
+    private readonly apiKey: string;
+    private readonly timeoutMs: number;
+
+    constructor(private readonly configService: ConfigService) {
+        this.baseUrl = this.configService.get<string>('gig.baseUrl') || 'https://api.giglogistics.com';
+        this.apiKey = this.configService.get<string>('gig.apiKey') || '';
+        this.timeoutMs = this.configService.get<number>('gig.timeoutMs') || 15000;
+    }
+
+    /**
+     * Quote delivery price - GIG only offers standard e-commerce delivery
+     */
+    async getRates(request: ShippingRateRequest): Promise<ShippingRate[]> {
+        const quote = await this.request<{ DeliveryPrice: number; EstimatedDays?: number }>(
+            'POST',
+            '/api/thirdparty/price',
+            {
+                SenderState: this.configService.get<string>('shipping.originState'),
+                ReceiverState: request.destinationState,
+                ReceiverCity: request.destinationCity,
+                Weight: request.weightKg,
+            },
+        );
+
+        return [
+            {
+                method: 'STANDARD',
+                amount: Number(quote.DeliveryPrice),
+                estimatedDays: quote.EstimatedDays ?? 5,
+                description: 'GIG Logistics delivery',
+            },
+        ];
+    }
+
+    /**
+     * Capture a shipment for pickup
+     */
+    async bookShipment(request: BookShipmentRequest): Promise<BookedShipment> {
+        const booking = await this.request<{ Waybill: string; ExpectedDeliveryDate?: string }>(
+            'POST',
+            '/api/thirdparty/captureshipment',
+            {
+                CustomerReference: request.orderNumber,
+                SenderName: this.configService.get<string>('shipping.senderName'),
+                SenderPhoneNumber: this.configService.get<string>('shipping.senderPhone'),
+                SenderAddress: this.configService.get<string>('shipping.originAddress'),
+                SenderState: this.configService.get<string>('shipping.originState'),
+                ReceiverName: request.recipient.name,
+                ReceiverPhoneNumber: request.recipient.phone,
+                ReceiverAddress: request.recipient.street,
+                ReceiverCity: request.recipient.city,
+                ReceiverState: request.recipient.state,
+                Weight: request.weightKg,
+                DeclaredValue: request.declaredValue,
+                Items: request.items.map((item) => ({
+                    Description: item.name,
+                    Quantity: item.quantity,
+                })),
+            },
+        );
+
+        this.logger.log(`GIG shipment booked for ${request.orderNumber}: ${booking.Waybill}`);
+
+        return {
+            waybill: booking.Waybill,
+            trackingUrl: `https://giglogistics.com/track?waybill=${booking.Waybill}`,
+            estimatedDelivery: booking.ExpectedDeliveryDate
+                ? new Date(booking.ExpectedDeliveryDate)
+                : null,
+        };
+    }
+
+    /**
+     * Fetch the tracking timeline for a waybill
+     */
+    async getTracking(waybill: string): Promise<TrackingInfo> {
+        const entries = await this.request<GigTrackingEntry[]>(
+            'GET',
+            `/api/thirdparty/TrackAllShipment/${encodeURIComponent(waybill)}`,
+        );
+
+        const events: TrackingEvent[] = entries
+            .map((entry) => ({
+                status: this.mapStatus(entry.Status),
+                description: entry.Status,
+                location: entry.Location ?? null,
+                occurredAt: new Date(entry.DateTime),
+            }))
+            .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+        return {
+            waybill,
+            status: events.length > 0 ? events[events.length - 1].status : 'BOOKED',
+            events,
+        };
+    }
+
+    /**
+     * Map GIG scan descriptions onto our shipping statuses
+     */
+    private mapStatus(status: string): ShipmentTrackingStatus {
+        const normalized = status.toLowerCase();
+
+        if (normalized.includes('delivered')) return 'DELIVERED';
+        if (normalized.includes('fail') || normalized.includes('return')) return 'FAILED';
+        if (normalized.includes('pick')) return 'PICKED_UP';
+        if (normalized.includes('transit') || normalized.includes('arrived') || normalized.includes('depart')) {
+            return 'IN_TRANSIT';
+        }
+
+        return 'BOOKED';
+    }
+
+    /**
+     * Call the GIG API and unwrap its response envelope
+     */
+    private async request<T>(
+        method: 'GET' | 'POST',
+        path: string,
+        body?: Record<string, unknown>,
+    ): Promise<T> {
+        let response: Response;
+        try {
+            response = await fetch(`${this.baseUrl}${path}`, {
+                method,
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${this.apiKey}`,
+                },
+                body: body ? JSON.stringify(body) : undefined,
+                signal: AbortSignal.timeout(this.timeoutMs),
+            });
+        } catch (error) {
+            this.logger.error(`GIG request to ${path} failed: ${(error as Error).message}`);
+            throw new ShippingProviderException();
+        }
+
+        const payload = (await response.json().catch(() => null)) as GigResponse<T> | null;
+
+        if (!response.ok || !payload || payload.Code !== '200') {
+            this.logger.error(
+                `GIG request to ${path} returned ${response.status}: ${payload?.ShortDescription ?? 'no body'}`,
+            );
+            throw new ShippingProviderException();
+        }
+
+        return payload.Object;
+    }
+}
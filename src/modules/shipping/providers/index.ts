@@ -0,0 +1,3 @@
+export * from './shipping-provider.interface';
+export * from './stub-shipping.provider';
+export * from './gig-logistics.provider';
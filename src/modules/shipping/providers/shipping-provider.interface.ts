@@ -0,0 +1,75 @@
+// Shipping provider contract - implemented by each delivery partner
+
+export const SHIPPING_PROVIDER = Symbol('SHIPPING_PROVIDER');
+
+export type ShippingMethod = 'STANDARD' | 'EXPRESS';
+
+export type ShipmentTrackingStatus =
+    | 'PENDING'
+    | 'BOOKED'
+    | 'PICKED_UP'
+    | 'IN_TRANSIT'
+    | 'DELIVERED'
+    | 'FAILED';
+
+export interface ShippingRateRequest {
+    destinationState: string;
+    destinationCity?: string;
+    weightKg: number;
+}
+
+export interface ShippingRate {
+    method: ShippingMethod;
+    amount: number;
+    estimatedDays: number;
+    description: string;
+}
+
+export interface BookShipmentRequest {
+    orderNumber: string;
+    method: ShippingMethod;
+    weightKg: number;
+    declaredValue: number;
+    recipient: {
+        name: string;
+        phone: string;
+        street: string;
+        city: string;
+        state: string;
+    };
+    items: Array<{ name: string; quantity: number }>;
+}
+
+export interface BookedShipment {
+    waybill: string;
+    trackingUrl: string | null;
+    estimatedDelivery: Date | null;
+    metadata?: Record<string, string | number | boolean | null>;
+}
+
+export interface TrackingEvent {
+    status: ShipmentTrackingStatus;
+    description: string;
+    location: string | null;
+    occurredAt: Date;
+}
+
+export interface TrackingInfo {
+    waybill: string;
+    status: ShipmentTrackingStatus;
+    events: TrackingEvent[];
+}
+
+export interface ShippingProvider {
+    /** Provider name stored on Shipment.provider */
+    readonly name: string;
+
+    /** Quote available delivery options for a destination and parcel weight */
+    getRates(request: ShippingRateRequest): Promise<ShippingRate[]>;
+
+    /** Book a pickup and return the provider waybill */
+    bookShipment(request: BookShipmentRequest): Promise<BookedShipment>;
+
+    /** Fetch the latest tracking timeline for a waybill */
+    getTracking(waybill: string): Promise<TrackingInfo>;
+}
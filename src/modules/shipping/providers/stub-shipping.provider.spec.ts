@@ -0,0 +1,59 @@
+import { ConfigService } from '@nestjs/config';
+import { StubShippingProvider } from './stub-shipping.provider';
+
+describe('StubShippingProvider', () => {
+  let provider: StubShippingProvider;
+
+  const createProvider = (config: Record<string, unknown> = {}) =>
+    new StubShippingProvider({ get: (key: string) => config[key] } as unknown as ConfigService);
+
+  const ratesTo = (destinationState: string, weightKg: number) => provider.getRates({ destinationState, weightKg });
+
+  beforeEach(() => {
+    provider = createProvider();
+  });
+
+  describe('getRates', () => {
+    it('quotes the flat intrastate rates from Lagos by default', async () => {
+      await expect(ratesTo('Lagos', 1)).resolves.toEqual([
+        { method: 'STANDARD', amount: 1500, estimatedDays: 2, description: 'Standard delivery' },
+        { method: 'EXPRESS', amount: 3500, estimatedDays: 1, description: 'Express delivery' },
+      ]);
+    });
+
+    it('quotes the flat interstate rates elsewhere', async () => {
+      await expect(ratesTo('Kano', 0.4)).resolves.toEqual([
+        { method: 'STANDARD', amount: 3000, estimatedDays: 5, description: 'Standard delivery' },
+        { method: 'EXPRESS', amount: 5000, estimatedDays: 2, description: 'Express delivery' },
+      ]);
+    });
+
+    it('adds a surcharge for every started kilogram after the first', async () => {
+      const [standard, express] = await ratesTo('Oyo', 2.2);
+
+      expect(standard.amount).toBe(4000);
+      expect(express.amount).toBe(6000);
+    });
+
+    it('matches the origin state whatever its spelling', async () => {
+      provider = createProvider({ 'shipping.originState': 'Rivers' });
+
+      const [standard] = await ratesTo('  rivers State ', 1);
+
+      expect(standard).toMatchObject({ amount: 1500, estimatedDays: 2 });
+    });
+  });
+
+  it('books a waybill derived from the order number', async () => {
+    await expect(
+      provider.bookShipment({
+        orderNumber: 'VT-MGX2K1-AB12',
+        method: 'EXPRESS',
+        weightKg: 1.5,
+        declaredValue: 25000,
+        recipient: { name: 'Ada Obi', phone: '08030000000', street: '1 Allen Ave', city: 'Ikeja', state: 'Lagos' },
+        items: [{ name: 'Adire Shirt (Indigo, M)', quantity: 1 }],
+      }),
+    ).resolves.toMatchObject({ waybill: 'STUB-VT-MGX2K1-AB12', trackingUrl: null });
+  });
+});
@@ -0,0 +1,83 @@
+// Stub Shipping Provider - deterministic in-process rates for tests and local dev
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type {
+    ShippingProvider,
+    ShippingRateRequest,
+    ShippingRate,
+    BookShipmentRequest,
+    BookedShipment,
+    TrackingInfo,
+} from './shipping-provider.interface';
+
+// Flat rates in Naira for the first kilogram, plus a per-kg surcharge
+const STUB_RATES = {
+    INTRASTATE: 1500,
+    INTERSTATE: 3000,
+    EXPRESS_SURCHARGE: 2000,
+    PER_EXTRA_KG: 500,
+} as const;
+
+@Injectable()
+export class StubShippingProvider implements ShippingProvider {
+    readonly name = 'STUB';
+    private readonly originState: string;
+
+    constructor(private readonly configService: ConfigService) {
+        this.originState = this.configService.get<string>('shipping.originState') || 'Lagos';
+    }
+
+    /**
+     * Quote standard and express delivery from the origin state
+     */
+    getRates(request: ShippingRateRequest): Promise<ShippingRate[]> {
+        const isIntrastate = this.normalizeState(request.destinationState) ===
+            this.normalizeState(this.originState);
+        const extraKg = Math.max(0, Math.ceil(request.weightKg) - 1);
+        const standard = (isIntrastate ? STUB_RATES.INTRASTATE : STUB_RATES.INTERSTATE) +
+            extraKg * STUB_RATES.PER_EXTRA_KG;
+
+        return Promise.resolve([
+            {
+                method: 'STANDARD',
+                amount: standard,
+                estimatedDays: isIntrastate ? 2 : 5,
+                description: 'Standard delivery',
+            },
+            {
+                method: 'EXPRESS',
+                amount: standard + STUB_RATES.EXPRESS_SURCHARGE,
+                estimatedDays: isIntrastate ? 1 : 2,
+                description: 'Express delivery',
+            },
+        ]);
+    }
+
+    /**
+     * Book a shipment - the waybill is derived from the order number
+     */
+    bookShipment(request: BookShipmentRequest): Promise<BookedShipment> {
+        return Promise.resolve({
+            waybill: `STUB-${request.orderNumber}`,
+            trackingUrl: null,
+            estimatedDelivery: null,
+            metadata: { method: request.method, weightKg: request.weightKg },
+        });
+    }
+
+    /**
+     * Stub shipments never move on their own; status changes come from admins
+     */
+    getTracking(waybill: string): Promise<TrackingInfo> {
+        return Promise.resolve({
+            waybill,
+            status: 'BOOKED',
+            events: [],
+        });
+    }
+
+    private normalizeState(state: string): string {
+        return state.trim().toLowerCase().replace(/\s+state$/, '');
+    }
+}
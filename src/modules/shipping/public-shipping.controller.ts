@@ -0,0 +1,25 @@
+// Public Shipping Controller
+
+import { Controller, Get, Query } from '@nestjs/common';
+import { ShippingService } from './shipping.service';
+import { shippingRatesQuerySchema } from './schemas';
+import type { ShippingRatesQueryDto } from './schemas';
+import { Public } from '../../common/decorators';
+import { ZodValidationPipe } from '../../common/pipes';
+
+@Controller('public/shipping')
+@Public()
+export class PublicShippingController {
+    constructor(private readonly shippingService: ShippingService) { }
+
+    /**
+     * Get delivery options for a destination and parcel weight
+     * GET /api/v1/public/shipping/rates
+     */
+    @Get('rates')
+    async findRates(
+        @Query(new ZodValidationPipe(shippingRatesQuerySchema)) query: ShippingRatesQueryDto,
+    ) {
+        return this.shippingService.findRates(query);
+    }
+}
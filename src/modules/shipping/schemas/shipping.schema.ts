@@ -0,0 +1,40 @@
+// Shipping Zod Schemas
+
+import { z } from 'zod';
+
+/**
+ * Delivery method schema
+ */
+export const shippingMethodSchema = z.enum(['STANDARD', 'EXPRESS']);
+
+/**
+ * Shipping rates query schema
+ */
+export const shippingRatesQuerySchema = z.object({
+    state: z.string().min(2, 'Please provide a destination state').max(50).trim(),
+    city: z.string().max(100).trim().optional(),
+    weightKg: z.coerce.number().positive('Weight must be positive').max(1000).default(1),
+});
+
+export type ShippingRatesQueryDto = z.infer<typeof shippingRatesQuerySchema>;
+
+/**
+ * Book shipment schema (admin) - defaults to the method chosen at checkout
+ */
+export const bookShipmentSchema = z.object({
+    method: shippingMethodSchema.optional(),
+});
+
+export type BookShipmentDto = z.infer<typeof bookShipmentSchema>;
+
+/**
+ * Update shipment status schema (admin)
+ */
+export const updateShipmentStatusSchema = z.object({
+    status: z.enum(['BOOKED', 'PICKED_UP', 'IN_TRANSIT', 'DELIVERED', 'FAILED']),
+    description: z.string().max(255).trim().optional(),
+    location: z.string().max(100).trim().optional(),
+    occurredAt: z.coerce.date().optional(),
+});
+
+export type UpdateShipmentStatusDto = z.infer<typeof updateShipmentStatusSchema>;
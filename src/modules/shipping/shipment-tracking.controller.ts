@@ -0,0 +1,27 @@
+// Shipment Tracking Controller - Customer endpoints
+
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import { ShipmentsService } from './shipments.service';
+import { JwtAuthGuard } from '../auth/guards';
+import { CurrentUser } from '../../common/decorators';
+import { ZodValidationPipe } from '../../common/pipes';
+import { uuidSchema } from '../../common/schemas';
+import type { RequestUser } from '../../common/types';
+
+@Controller('orders')
+@UseGuards(JwtAuthGuard)
+export class ShipmentTrackingController {
+    constructor(private readonly shipmentsService: ShipmentsService) { }
+
+    /**
+     * Get delivery timeline of own order
+     * GET /api/v1/orders/:id/tracking
+     */
+    @Get(':id/tracking')
+    async getTracking(
+        @CurrentUser() user: RequestUser,
+        @Param('id', new ZodValidationPipe(uuidSchema)) id: string,
+    ) {
+        return this.shipmentsService.getTracking(user.id, id);
+    }
+}
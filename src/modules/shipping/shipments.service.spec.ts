@@ -0,0 +1,120 @@
+import { ShipmentsService } from './shipments.service';
+import type { ShippingService } from './shipping.service';
+import type { PrismaService } from '../../prisma';
+import { BadRequestException } from '../../common/filters';
+import { MESSAGES } from '../../common/constants';
+
+interface FakeState {
+  order: { id: string; status: string };
+  shipment: { id: string; orderId: string; waybill: string; status: string; deliveredAt: Date | null };
+  events: Array<{ shipmentId: string; status: string; occurredAt: Date }>;
+}
+
+/**
+ * In-memory stand-in for one order, its shipment and the shipment timeline
+ */
+function createFakePrisma(state: FakeState) {
+  const prisma = {
+    $transaction: (callback: (tx: unknown) => unknown) => callback(prisma),
+    order: {
+      update: ({ data }: { data: { status: string } }) => {
+        state.order.status = data.status;
+        return Promise.resolve({ ...state.order });
+      },
+    },
+    shipment: {
+      findUnique: () => Promise.resolve({ ...state.shipment, events: [...state.events] }),
+      findUniqueOrThrow: () =>
+        Promise.resolve({ ...state.shipment, order: { ...state.order }, events: [...state.events] }),
+      update: ({ data }: { data: Partial<FakeState['shipment']> }) => {
+        Object.assign(state.shipment, data);
+        return Promise.resolve({ ...state.shipment });
+      },
+    },
+    shipmentEvent: {
+      createMany: ({ data }: { data: FakeState['events'] }) => {
+        state.events.push(...data);
+        return Promise.resolve({ count: data.length });
+      },
+    },
+  };
+  return prisma;
+}
+
+describe('ShipmentsService', () => {
+  const deliveredAt = new Date('2026-10-18T14:30:00Z');
+  let state: FakeState;
+  let shippingService: { getTracking: jest.Mock };
+  let service: ShipmentsService;
+
+  const deliver = () => service.updateStatus('order-1', { status: 'DELIVERED', occurredAt: deliveredAt });
+
+  beforeEach(() => {
+    state = {
+      order: { id: 'order-1', status: 'SHIPPED' },
+      shipment: { id: 'shipment-1', orderId: 'order-1', waybill: 'GIG-123', status: 'IN_TRANSIT', deliveredAt: null },
+      events: [],
+    };
+    shippingService = { getTracking: jest.fn() };
+    service = new ShipmentsService(
+      createFakePrisma(state) as unknown as PrismaService,
+      shippingService as unknown as ShippingService,
+    );
+  });
+
+  describe('delivery', () => {
+    it('moves the order to DELIVERED with the shipment', async () => {
+      await deliver();
+
+      expect(state.shipment).toMatchObject({ status: 'DELIVERED', deliveredAt });
+      expect(state.order.status).toBe('DELIVERED');
+      expect(state.events).toEqual([
+        expect.objectContaining({ status: 'DELIVERED', description: 'Package delivered' }),
+      ]);
+    });
+
+    it('delivers an order synced from the courier timeline', async () => {
+      shippingService.getTracking.mockResolvedValue({
+        waybill: 'GIG-123',
+        status: 'DELIVERED',
+        events: [
+          { status: 'IN_TRANSIT', description: 'In transit', location: 'Ibadan', occurredAt: new Date('2026-10-17') },
+          { status: 'DELIVERED', description: 'Delivered', location: 'Ikeja', occurredAt: deliveredAt },
+        ],
+      });
+
+      await service.syncTracking('order-1');
+
+      expect(state.shipment.status).toBe('DELIVERED');
+      expect(state.order.status).toBe('DELIVERED');
+    });
+
+    it.each(['CANCELLED', 'REFUNDED'])('never delivers a %s order', async (status) => {
+      state.order.status = status;
+
+      await deliver();
+
+      expect(state.shipment.status).toBe('DELIVERED');
+      expect(state.order.status).toBe(status);
+    });
+
+    it('refuses further events once delivered', async () => {
+      await deliver();
+
+      await expect(service.updateStatus('order-1', { status: 'FAILED' })).rejects.toBeInstanceOf(BadRequestException);
+      await expect(service.updateStatus('order-1', { status: 'FAILED' })).rejects.toMatchObject({
+        response: { error: { message: MESSAGES.SHIPPING.ALREADY_DELIVERED } },
+      });
+      expect(state.events).toHaveLength(1);
+    });
+  });
+
+  it('marks a processing order SHIPPED once the courier picks it up', async () => {
+    state.order.status = 'PROCESSING';
+    state.shipment.status = 'BOOKED';
+
+    await service.updateStatus('order-1', { status: 'PICKED_UP' });
+
+    expect(state.order.status).toBe('SHIPPED');
+  });
+});
@@ -0,0 +1,360 @@
+// Shipments Service - booking, status timeline and customer tracking
+
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma';
+import { ShippingService } from './shipping.service';
+import type { ShipmentTrackingStatus, TrackingEvent } from './providers';
+import type { BookShipmentDto, UpdateShipmentStatusDto } from './schemas';
+import type { ApiResponse } from '../../common/types';
+import { MESSAGES } from '../../common/constants';
+import {
+    BadRequestException,
+    OrderNotFoundException,
+    ShipmentNotFoundException,
+    ShipmentAlreadyBookedException,
+} from '../../common/filters';
+import { successResponse, createdResponse, updatedResponse } from '../../common/helpers';
+
+// Shipment response types
+export interface ShipmentEventResponse {
+    id: string;
+    status: string;
+    description: string;
+    location: string | null;
+    occurredAt: Date;
+}
+
+export interface ShipmentResponse {
+    id: string;
+    orderId: string;
+    waybill: string | null;
+    provider: string;
+    status: string;
+    trackingUrl: string | null;
+    estimatedDelivery: Date | null;
+    deliveredAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+    events: ShipmentEventResponse[];
+}
+
+export interface OrderTrackingResponse {
+    orderNumber: string;
+    orderStatus: string;
+    shipment: ShipmentResponse;
+}
+
+interface ShippingAddressSnapshot {
+    firstName: string;
+    lastName: string;
+    phone: string;
+    street: string;
+    city: string;
+    state: string;
+}
+
+// Orders that are paid for and not yet shipped
+const SHIPPABLE_ORDER_STATUSES = ['CONFIRMED', 'PROCESSING'];
+
+// Orders still open for delivery - cancelled, refunded and delivered orders are never moved on
+const DELIVERABLE_ORDER_STATUSES = [...SHIPPABLE_ORDER_STATUSES, 'SHIPPED'];
+
+const EVENT_DESCRIPTIONS: Record<ShipmentTrackingStatus, string> = {
+    PENDING: 'Awaiting shipment',
+    BOOKED: 'Shipment booked with courier',
+    PICKED_UP: 'Package picked up by courier',
+    IN_TRANSIT: 'Package in transit',
+    DELIVERED: 'Package delivered',
+    FAILED: 'Delivery failed',
+};
+
+@Injectable()
+export class ShipmentsService {
+    private readonly logger = new Logger(ShipmentsService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly shippingService: ShippingService,
+    ) { }
+
+    /**
+     * Book a shipment for an order with the configured provider (admin)
+     */
+    async book(orderId: string, dto: BookShipmentDto): Promise<ApiResponse<ShipmentResponse>> {
+        const order = await this.prisma.order.findUnique({
+            where: { id: orderId },
+            include: {
+                shipment: true,
+                items: {
+                    include: {
+                        variant: { include: { product: { select: { weightKg: true } } } },
+                    },
+                },
+            },
+        });
+
+        if (!order) {
+            throw new OrderNotFoundException();
+        }
+
+        // A failed shipment can be re-booked, anything else is already on its way
+        if (order.shipment && order.shipment.status !== 'FAILED') {
+            throw new ShipmentAlreadyBookedException();
+        }
+
+        // A shipment that failed after pickup leaves the order SHIPPED, so it is re-booked from there
+        const rebookingFailed = order.status === 'SHIPPED' && order.shipment?.status === 'FAILED';
+        if (!SHIPPABLE_ORDER_STATUSES.includes(order.status) && !rebookingFailed) {
+            throw new BadRequestException(MESSAGES.SHIPPING.ORDER_NOT_READY);
+        }
+
+        const address = order.shippingAddress as unknown as ShippingAddressSnapshot;
+        const method = dto.method ?? (order.shippingMethod as 'STANDARD' | 'EXPRESS');
+
+        const booked = await this.shippingService.bookShipment({
+            orderNumber: order.orderNumber,
+            method,
+            weightKg: this.shippingService.calculateWeight(
+                order.items.map((item) => ({
+                    quantity: item.quantity,
+                    weightKg: item.variant.product.weightKg,
+                })),
+            ),
+            declaredValue: Number(order.subtotal),
+            recipient: {
+                name: `${address.firstName} ${address.lastName}`,
+                phone: address.phone,
+                street: address.street,
+                city: address.city,
+                state: address.state,
+            },
+            items: order.items.map((item) => ({
+                name: `${item.productName} (${item.variantColor}, ${item.variantSize})`,
+                quantity: item.quantity,
+            })),
+        });
+
+        const shipmentData = {
+            provider: this.shippingService.providerName,
+            waybill: booked.waybill,
+            trackingUrl: booked.trackingUrl,
+            estimatedDelivery: booked.estimatedDelivery,
+            status: 'BOOKED' as const,
+            deliveredAt: null,
+            metadata: booked.metadata,
+        };
+
+        const shipment = await this.prisma.$transaction(async (tx) => {
+            const saved = await tx.shipment.upsert({
+                where: { orderId },
+                create: { orderId, ...shipmentData },
+                update: shipmentData,
+            });
+
+            await tx.shipmentEvent.create({
+                data: {
+                    shipmentId: saved.id,
+                    status: 'BOOKED',
+                    description: `${EVENT_DESCRIPTIONS.BOOKED} (${booked.waybill})`,
+                    occurredAt: new Date(),
+                },
+            });
+
+            if (order.status === 'CONFIRMED') {
+                await tx.order.update({
+                    where: { id: orderId },
+                    data: { status: 'PROCESSING' },
+                });
+            }
+
+            return tx.shipment.findUniqueOrThrow({
+                where: { id: saved.id },
+                include: { events: { orderBy: { occurredAt: 'asc' } } },
+            });
+        });
+
+        this.logger.log(`Shipment booked for order ${order.orderNumber}: ${booked.waybill}`);
+
+        return createdResponse(shipment, MESSAGES.SHIPPING.BOOKED);
+    }
+
+    /**
+     * Get the shipment of an order with its timeline (admin)
+     */
+    async findByOrder(orderId: string): Promise<ApiResponse<ShipmentResponse>> {
+        const shipment = await this.prisma.shipment.findUnique({
+            where: { orderId },
+            include: { events: { orderBy: { occurredAt: 'asc' } } },
+        });
+
+        if (!shipment) {
+            throw new ShipmentNotFoundException();
+        }
+
+        return successResponse(shipment);
+    }
+
+    /**
+     * Record a status change on a shipment (admin)
+     */
+    async updateStatus(
+        orderId: string,
+        dto: UpdateShipmentStatusDto,
+    ): Promise<ApiResponse<ShipmentResponse>> {
+        const shipment = await this.prisma.shipment.findUnique({
+            where: { orderId },
+        });
+
+        if (!shipment) {
+            throw new ShipmentNotFoundException();
+        }
+
+        const updated = await this.recordEvents(shipment.id, [
+            {
+                status: dto.status,
+                description: dto.description ?? EVENT_DESCRIPTIONS[dto.status],
+                location: dto.location ?? null,
+                occurredAt: dto.occurredAt ?? new Date(),
+            },
+        ]);
+
+        this.logger.log(`Shipment for order ${orderId} moved to ${dto.status}`);
+
+        return updatedResponse(updated, MESSAGES.SHIPPING.STATUS_UPDATED(dto.status));
+    }
+
+    /**
+     * Pull the latest tracking events from the provider (admin)
+     */
+    async syncTracking(orderId: string): Promise<ApiResponse<ShipmentResponse>> {
+        const shipment = await this.prisma.shipment.findUnique({
+            where: { orderId },
+            include: { events: true },
+        });
+
+        if (!shipment || !shipment.waybill) {
+            throw new ShipmentNotFoundException();
+        }
+
+        const tracking = await this.shippingService.getTracking(shipment.waybill);
+
+        // Only keep provider events we have not recorded yet
+        const newEvents = tracking.events.filter(
+            (event) =>
+                !shipment.events.some(
+                    (existing) =>
+                        existing.status === event.status &&
+                        existing.occurredAt.getTime() === event.occurredAt.getTime(),
+                ),
+        );
+
+        const updated = await this.recordEvents(shipment.id, newEvents);
+
+        return updatedResponse(updated, MESSAGES.SHIPPING.TRACKING_UPDATED);
+    }
+
+    /**
+     * Get the delivery timeline of an order (customer)
+     */
+    async getTracking(
+        userId: string,
+        orderId: string,
+    ): Promise<ApiResponse<OrderTrackingResponse>> {
+        const order = await this.prisma.order.findFirst({
+            where: { id: orderId, userId },
+            select: {
+                orderNumber: true,
+                status: true,
+                shipment: {
+                    omit: { metadata: true },
+                    include: { events: { orderBy: { occurredAt: 'asc' } } },
+                },
+            },
+        });
+
+        if (!order) {
+            throw new OrderNotFoundException();
+        }
+
+        if (!order.shipment) {
+            throw new ShipmentNotFoundException();
+        }
+
+        return successResponse({
+            orderNumber: order.orderNumber,
+            orderStatus: order.status,
+            shipment: order.shipment,
+        });
+    }
+
+    /**
+     * Append events to a shipment and move the shipment and order along
+     */
+    private async recordEvents(
+        shipmentId: string,
+        events: TrackingEvent[],
+    ): Promise<ShipmentResponse> {
+        return this.prisma.$transaction(async (tx) => {
+            const shipment = await tx.shipment.findUniqueOrThrow({
+                where: { id: shipmentId },
+                include: { order: { select: { id: true, status: true } } },
+            });
+
+            if (events.length > 0) {
+                if (shipment.status === 'DELIVERED') {
+                    throw new BadRequestException(MESSAGES.SHIPPING.ALREADY_DELIVERED);
+                }
+
+                await tx.shipmentEvent.createMany({
+                    data: events.map((event) => ({ shipmentId, ...event })),
+                });
+
+                const latest = events.reduce((last, event) =>
+                    event.occurredAt >= last.occurredAt ? event : last,
+                );
+
+                await tx.shipment.update({
+                    where: { id: shipmentId },
+                    data: {
+                        status: latest.status,
+                        ...(latest.status === 'DELIVERED' && { deliveredAt: latest.occurredAt }),
+                    },
+                });
+
+                const orderStatus = this.getOrderStatus(latest.status, shipment.order.status);
+                if (orderStatus) {
+                    await tx.order.update({
+                        where: { id: shipment.order.id },
+                        data: { status: orderStatus },
+                    });
+                }
+            }
+
+            return tx.shipment.findUniqueOrThrow({
+                where: { id: shipmentId },
+                include: { events: { orderBy: { occurredAt: 'asc' } } },
+            });
+        });
+    }
+
+    /**
+     * Order status implied by a shipment status, if it moves the order forward
+     */
+    private getOrderStatus(
+        shipmentStatus: ShipmentTrackingStatus,
+        orderStatus: string,
+    ): 'SHIPPED' | 'DELIVERED' | null {
+        if (shipmentStatus === 'DELIVERED' && DELIVERABLE_ORDER_STATUSES.includes(orderStatus)) {
+            return 'DELIVERED';
+        }
+
+        if (
+            (shipmentStatus === 'PICKED_UP' || shipmentStatus === 'IN_TRANSIT') &&
+            SHIPPABLE_ORDER_STATUSES.includes(orderStatus)
+        ) {
+            return 'SHIPPED';
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,36 @@
+// Shipping Module
+
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PublicShippingController } from './public-shipping.controller';
+import { ShipmentTrackingController } from './shipment-tracking.controller';
+import { AdminShipmentsController } from './admin-shipments.controller';
+import { ShippingService } from './shipping.service';
+import { ShipmentsService } from './shipments.service';
+import {
+    SHIPPING_PROVIDER,
+    GigLogisticsProvider,
+    StubShippingProvider,
+} from './providers';
+
+@Module({
+    controllers: [
+        PublicShippingController,
+        ShipmentTrackingController,
+        AdminShipmentsController,
+    ],
+    providers: [
+        ShippingService,
+        ShipmentsService,
+        {
+            provide: SHIPPING_PROVIDER,
+            inject: [ConfigService],
+            useFactory: (configService: ConfigService) =>
+                configService.get<string>('shipping.provider') === 'gig'
+                    ? new GigLogisticsProvider(configService)
+                    : new StubShippingProvider(configService),
+        },
+    ],
+    exports: [ShippingService, ShipmentsService],
+})
+export class ShippingModule { }
@@ -0,0 +1,120 @@
+// Shipping Service - quotes, bookings and tracking through the configured provider
+
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { SHIPPING_PROVIDER } from './providers';
+import type {
+    ShippingProvider,
+    ShippingRate,
+    ShippingMethod,
+    ShippingRateRequest,
+    BookShipmentRequest,
+    BookedShipment,
+    TrackingInfo,
+} from './providers';
+import type { ShippingRatesQueryDto } from './schemas';
+import type { ApiResponse } from '../../common/types';
+import { MESSAGES } from '../../common/constants';
+import {
+    BadRequestException,
+    BusinessException,
+    AddressNotServiceableException,
+    ShippingProviderException,
+} from '../../common/filters';
+import { successResponse, roundPrice } from '../../common/helpers';
+
+@Injectable()
+export class ShippingService {
+    private readonly logger = new Logger(ShippingService.name);
+
+    constructor(
+        @Inject(SHIPPING_PROVIDER) private readonly provider: ShippingProvider,
+    ) { }
+
+    /**
+     * Name of the active provider (stored on shipments)
+     */
+    get providerName(): string {
+        return this.provider.name;
+    }
+
+    /**
+     * Total parcel weight for a set of line items
+     */
+    calculateWeight(items: Array<{ quantity: number; weightKg: unknown }>): number {
+        return roundPrice(
+            items.reduce((sum, item) => sum + Number(item.weightKg) * item.quantity, 0),
+        );
+    }
+
+    /**
+     * Get available delivery options for a destination
+     */
+    async getRates(request: ShippingRateRequest): Promise<ShippingRate[]> {
+        const rates = await this.callProvider(() => this.provider.getRates(request));
+
+        if (rates.length === 0) {
+            throw new AddressNotServiceableException();
+        }
+
+        return rates;
+    }
+
+    /**
+     * Quote a single delivery method (used at checkout)
+     */
+    async quote(request: ShippingRateRequest, method: ShippingMethod): Promise<ShippingRate> {
+        const rates = await this.getRates(request);
+        const rate = rates.find((option) => option.method === method);
+
+        if (!rate) {
+            throw new BadRequestException(MESSAGES.SHIPPING.METHOD_UNAVAILABLE(method));
+        }
+
+        return rate;
+    }
+
+    /**
+     * Get delivery options (public)
+     */
+    async findRates(query: ShippingRatesQueryDto): Promise<ApiResponse<ShippingRate[]>> {
+        const rates = await this.getRates({
+            destinationState: query.state,
+            destinationCity: query.city,
+            weightKg: query.weightKg,
+        });
+
+        return successResponse(rates, MESSAGES.SHIPPING.RATE_CALCULATED);
+    }
+
+    /**
+     * Book a shipment with the provider
+     */
+    async bookShipment(request: BookShipmentRequest): Promise<BookedShipment> {
+        return this.callProvider(() => this.provider.bookShipment(request));
+    }
+
+    /**
+     * Fetch tracking from the provider
+     */
+    async getTracking(waybill: string): Promise<TrackingInfo> {
+        return this.callProvider(() => this.provider.getTracking(waybill));
+    }
+
+    /**
+     * Surface unexpected provider failures as a gateway error
+     */
+    private async callProvider<T>(call: () => Promise<T>): Promise<T> {
+        try {
+            return await call();
+        } catch (error) {
+            if (error instanceof BusinessException) {
+                throw error;
+            }
+
+            this.logger.error(
+                `Shipping provider ${this.provider.name} failed: ${(error as Error).message}`,
+            );
+            throw new ShippingProviderException();
+        }
+    }
+}
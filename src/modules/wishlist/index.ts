@@ -0,0 +1,4 @@
+export * from './wishlist.module';
+export * from './wishlist.service';
+export * from './wishlist.controller';
+export * from './schemas';
@@ -0,0 +1,31 @@
+// Wishlist Zod Schemas
+
+import { z } from 'zod';
+import { APP_CONSTANTS } from '../../../common/constants';
+
+/**
+ * Add item to wishlist schema
+ */
+export const addWishlistItemSchema = z.object({
+    productId: z.string().uuid('Invalid product ID'),
+});
+
+export type AddWishlistItemDto = z.infer<typeof addWishlistItemSchema>;
+
+/**
+ * Move wishlist item to cart schema
+ */
+export const moveToCartSchema = z.object({
+    variantId: z.string().uuid('Invalid variant ID').optional(),
+    quantity: z
+        .number()
+        .int()
+        .min(1, 'Quantity must be at least 1')
+        .max(
+            APP_CONSTANTS.MAX_ITEM_QUANTITY,
+            `Quantity cannot exceed ${APP_CONSTANTS.MAX_ITEM_QUANTITY}`,
+        )
+        .default(1),
+});
+
+export type MoveToCartDto = z.infer<typeof moveToCartSchema>;
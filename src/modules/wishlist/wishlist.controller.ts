@@ -0,0 +1,71 @@
+// Wishlist Controller
+
+import {
+    Controller,
+    Get,
+    Post,
+    Delete,
+    Param,
+    Body,
+    UseGuards,
+} from '@nestjs/common';
+import { WishlistService } from './wishlist.service';
+import { addWishlistItemSchema, moveToCartSchema } from './schemas';
+import type { AddWishlistItemDto, MoveToCartDto } from './schemas';
+import { JwtAuthGuard } from '../auth/guards';
+import { CurrentUser } from '../../common/decorators';
+import { ZodValidationPipe } from '../../common/pipes';
+import type { RequestUser } from '../../common/types';
+import { uuidSchema } from '../../common/schemas';
+
+@Controller('wishlist')
+@UseGuards(JwtAuthGuard)
+export class WishlistController {
+    constructor(private readonly wishlistService: WishlistService) { }
+
+    /**
+     * Get current user's wishlist
+     * GET /api/v1/wishlist
+     */
+    @Get()
+    async getWishlist(@CurrentUser() user: RequestUser) {
+        return this.wishlistService.getWishlist(user.id);
+    }
+
+    /**
+     * Add product to wishlist
+     * POST /api/v1/wishlist
+     */
+    @Post()
+    async addItem(
+        @CurrentUser() user: RequestUser,
+        @Body(new ZodValidationPipe(addWishlistItemSchema)) dto: AddWishlistItemDto,
+    ) {
+        return this.wishlistService.addItem(user.id, dto);
+    }
+
+    /**
+     * Remove product from wishlist
+     * DELETE /api/v1/wishlist/:productId
+     */
+    @Delete(':productId')
+    async removeItem(
+        @CurrentUser() user: RequestUser,
+        @Param('productId', new ZodValidationPipe(uuidSchema)) productId: string,
+    ) {
+        return this.wishlistService.removeItem(user.id, productId);
+    }
+
+    /**
+     * Move wishlist item to cart
+     * POST /api/v1/wishlist/:productId/move-to-cart
+     */
+    @Post(':productId/move-to-cart')
+    async moveToCart(
+        @CurrentUser() user: RequestUser,
+        @Param('productId', new ZodValidationPipe(uuidSchema)) productId: string,
+        @Body(new ZodValidationPipe(moveToCartSchema)) dto: MoveToCartDto,
+    ) {
+        return this.wishlistService.moveToCart(user.id, productId, dto);
+    }
+}
@@ -0,0 +1,14 @@
+// Wishlist Module
+
+import { Module } from '@nestjs/common';
+import { CartModule } from '../cart/cart.module';
+import { WishlistController } from './wishlist.controller';
+import { WishlistService } from './wishlist.service';
+
+@Module({
+    imports: [CartModule],
+    controllers: [WishlistController],
+    providers: [WishlistService],
+    exports: [WishlistService],
+})
+export class WishlistModule { }
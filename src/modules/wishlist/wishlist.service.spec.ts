@@ -0,0 +1,165 @@
+import { WishlistService } from './wishlist.service';
+import type { CartService } from '../cart/cart.service';
+import type { PrismaService } from '../../prisma';
+import {
+  BadRequestException,
+  InsufficientStockException,
+  NotFoundException,
+  OutOfStockException,
+  WishlistItemNotFoundException,
+} from '../../common/filters';
+import { MESSAGES } from '../../common/constants';
+
+interface FakeVariant {
+  id: string;
+  productId: string;
+  isActive: boolean;
+  stockQuantity: number;
+  reservedQuantity: number;
+}
+
+interface FakeState {
+  wishlist: Array<{ id: string; userId: string; productId: string }>;
+  variants: FakeVariant[];
+}
+
+/**
+ * In-memory stand-in for a wishlist and product variants
+ */
+function createFakePrisma(state: FakeState) {
+  return {
+    wishlistItem: {
+      findUnique: ({ where }: { where: { userId_productId: { userId: string; productId: string } } }) =>
+        Promise.resolve(
+          state.wishlist.find(
+            (item) =>
+              item.userId === where.userId_productId.userId && item.productId === where.userId_productId.productId,
+          ) ?? null,
+        ),
+      delete: ({ where }: { where: { id: string } }) => {
+        state.wishlist = state.wishlist.filter((item) => item.id !== where.id);
+        return Promise.resolve({});
+      },
+    },
+    productVariant: {
+      fields: { reservedQuantity: 'reservedQuantity' },
+      findFirst: ({ where }: { where: { id: string; productId: string; isActive: boolean } }) =>
+        Promise.resolve(
+          state.variants.find(
+            (variant) =>
+              variant.id === where.id && variant.productId === where.productId && variant.isActive === where.isActive,
+          ) ?? null,
+        ),
+      // Active variants of the product with stock beyond their reservations
+      findMany: ({ where }: { where: { productId: string } }) =>
+        Promise.resolve(
+          state.variants.filter(
+            (variant) =>
+              variant.productId === where.productId &&
+              variant.isActive &&
+              variant.stockQuantity > variant.reservedQuantity,
+          ),
+        ),
+    },
+  };
+}
+
+describe('WishlistService', () => {
+  let state: FakeState;
+  let cartService: { addItem: jest.Mock };
+  let service: WishlistService;
+
+  const variant = (id: string, stockQuantity: number, overrides: Partial<FakeVariant> = {}): FakeVariant => ({
+    id,
+    productId: 'product-1',
+    isActive: true,
+    stockQuantity,
+    reservedQuantity: 0,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    state = {
+      wishlist: [{ id: 'wish-1', userId: 'user-1', productId: 'product-1' }],
+      variants: [],
+    };
+    cartService = { addItem: jest.fn().mockResolvedValue({ success: true, message: 'added', data: {} }) };
+    service = new WishlistService(
+      createFakePrisma(state) as unknown as PrismaService,
+      cartService as unknown as CartService,
+    );
+  });
+
+  describe('moveToCart', () => {
+    it('adds the requested variant to the cart and takes the product off the wishlist', async () => {
+      state.variants.push(variant('variant-1', 3), variant('variant-2', 3));
+
+      const result = await service.moveToCart('user-1', 'product-1', { variantId: 'variant-2', quantity: 2 });
+
+      expect(cartService.addItem).toHaveBeenCalledWith('user-1', { variantId: 'variant-2', quantity: 2 });
+      expect(result.message).toBe(MESSAGES.WISHLIST.MOVED_TO_CART);
+      expect(state.wishlist).toHaveLength(0);
+    });
+
+    it.each([
+      ['of another product', { productId: 'product-2' }],
+      ['that is retired', { isActive: false }],
+    ])('refuses a requested variant %s', async (_, overrides) => {
+      state.variants.push(variant('variant-1', 3, overrides));
+
+      await expect(
+        service.moveToCart('user-1', 'product-1', { variantId: 'variant-1', quantity: 1 }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+      expect(cartService.addItem).not.toHaveBeenCalled();
+      expect(state.wishlist).toHaveLength(1);
+    });
+
+    it('picks the only variant still in stock when none was chosen', async () => {
+      state.variants.push(
+        variant('variant-1', 2, { reservedQuantity: 2 }),
+        variant('variant-2', 4),
+        variant('variant-3', 5, { isActive: false }),
+      );
+
+      await service.moveToCart('user-1', 'product-1', { quantity: 1 });
+
+      expect(cartService.addItem).toHaveBeenCalledWith('user-1', { variantId: 'variant-2', quantity: 1 });
+    });
+
+    it('asks for a variant when several are in stock', async () => {
+      state.variants.push(variant('variant-1', 3), variant('variant-2', 3));
+
+      await expect(service.moveToCart('user-1', 'product-1', { quantity: 1 })).rejects.toMatchObject({
+        response: { error: { message: MESSAGES.WISHLIST.VARIANT_REQUIRED } },
+      });
+      await expect(service.moveToCart('user-1', 'product-1', { quantity: 1 })).rejects.toBeInstanceOf(
+        BadRequestException,
+      );
+    });
+
+    it('reports a product with nothing left in stock', async () => {
+      state.variants.push(variant('variant-1', 1, { reservedQuantity: 1 }));
+
+      await expect(service.moveToCart('user-1', 'product-1', { quantity: 1 })).rejects.toBeInstanceOf(
+        OutOfStockException,
+      );
+      expect(state.wishlist).toHaveLength(1);
+    });
+
+    it('keeps the product on the wishlist when the cart refuses it', async () => {
+      state.variants.push(variant('variant-1', 1));
+      cartService.addItem.mockRejectedValue(new InsufficientStockException(1));
+
+      await expect(service.moveToCart('user-1', 'product-1', { quantity: 2 })).rejects.toBeInstanceOf(
+        InsufficientStockException,
+      );
+      expect(state.wishlist).toHaveLength(1);
+    });
+
+    it('refuses products that are not on the wishlist', async () => {
+      await expect(service.moveToCart('user-1', 'product-9', { quantity: 1 })).rejects.toBeInstanceOf(
+        WishlistItemNotFoundException,
+      );
+    });
+  });
+});
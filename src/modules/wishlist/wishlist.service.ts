@@ -0,0 +1,233 @@
+// Wishlist Service
+
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../prisma';
+import { CartService, type CartResponse } from '../cart/cart.service';
+import type { AddWishlistItemDto, MoveToCartDto } from './schemas';
+import type { ApiResponse } from '../../common/types';
+import { MESSAGES } from '../../common/constants';
+import {
+    ProductNotFoundException,
+    NotFoundException,
+    OutOfStockException,
+    BadRequestException,
+    WishlistItemExistsException,
+    WishlistItemNotFoundException,
+} from '../../common/filters';
+import {
+    successResponse,
+    createdResponse,
+    deletedResponse,
+    getAvailableStock,
+} from '../../common/helpers';
+
+// Wishlist response types
+export interface WishlistItemResponse {
+    id: string;
+    productId: string;
+    createdAt: Date;
+    inStock: boolean;
+    backInStock: boolean;
+    product: {
+        id: string;
+        name: string;
+        slug: string;
+        basePrice: unknown;
+        compareAtPrice: unknown;
+        isActive: boolean;
+        images: Array<{ url: string; altText: string | null }>;
+    };
+}
+
+@Injectable()
+export class WishlistService {
+    private readonly logger = new Logger(WishlistService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly cartService: CartService,
+    ) { }
+
+    /**
+     * Get user's wishlist
+     */
+    async getWishlist(userId: string): Promise<ApiResponse<WishlistItemResponse[]>> {
+        const items = await this.prisma.wishlistItem.findMany({
+            where: { userId },
+            include: {
+                product: {
+                    select: {
+                        id: true,
+                        name: true,
+                        slug: true,
+                        basePrice: true,
+                        compareAtPrice: true,
+                        isActive: true,
+                        images: {
+                            where: { isPrimary: true },
+                            select: { url: true, altText: true },
+                            take: 1,
+                        },
+                        variants: {
+                            where: { isActive: true },
+                            select: { stockQuantity: true, reservedQuantity: true },
+                        },
+                    },
+                },
+            },
+            orderBy: { createdAt: 'desc' },
+        });
+
+        return successResponse(
+            items.map(({ product: { variants, ...product }, ...item }) => {
+                const inStock = variants.some((variant) => getAvailableStock(variant) > 0);
+
+                return {
+                    id: item.id,
+                    productId: item.productId,
+                    createdAt: item.createdAt,
+                    inStock,
+                    backInStock: inStock && !item.inStockWhenAdded,
+                    product,
+                };
+            }),
+        );
+    }
+
+    /**
+     * Add product to wishlist
+     */
+    async addItem(
+        userId: string,
+        dto: AddWishlistItemDto,
+    ): Promise<ApiResponse<{ id: string; productId: string; createdAt: Date }>> {
+        const product = await this.prisma.product.findUnique({
+            where: { id: dto.productId },
+            include: {
+                variants: {
+                    where: { isActive: true },
+                    select: { stockQuantity: true, reservedQuantity: true },
+                },
+            },
+        });
+
+        if (!product || !product.isActive) {
+            throw new ProductNotFoundException();
+        }
+
+        const existing = await this.prisma.wishlistItem.findUnique({
+            where: {
+                userId_productId: { userId, productId: dto.productId },
+            },
+        });
+
+        if (existing) {
+            throw new WishlistItemExistsException();
+        }
+
+        const item = await this.prisma.wishlistItem.create({
+            data: {
+                userId,
+                productId: dto.productId,
+                inStockWhenAdded: product.variants.some(
+                    (variant) => getAvailableStock(variant) > 0,
+                ),
+            },
+            select: { id: true, productId: true, createdAt: true },
+        });
+
+        this.logger.log(`Product ${product.name} added to wishlist for user ${userId}`);
+
+        return createdResponse(item, MESSAGES.WISHLIST.ADDED);
+    }
+
+    /**
+     * Remove product from wishlist
+     */
+    async removeItem(userId: string, productId: string): Promise<ApiResponse<null>> {
+        const { count } = await this.prisma.wishlistItem.deleteMany({
+            where: { userId, productId },
+        });
+
+        if (count === 0) {
+            throw new WishlistItemNotFoundException();
+        }
+
+        this.logger.log(`Product ${productId} removed from wishlist for user ${userId}`);
+
+        return deletedResponse(MESSAGES.WISHLIST.REMOVED);
+    }
+
+    /**
+     * Move wishlist item to cart
+     */
+    async moveToCart(
+        userId: string,
+        productId: string,
+        dto: MoveToCartDto,
+    ): Promise<ApiResponse<CartResponse>> {
+        const item = await this.prisma.wishlistItem.findUnique({
+            where: { userId_productId: { userId, productId } },
+        });
+
+        if (!item) {
+            throw new WishlistItemNotFoundException();
+        }
+
+        const variantId = await this.pickVariant(productId, dto.variantId);
+
+        // Same stock checks as adding straight to the cart
+        const result = await this.cartService.addItem(userId, {
+            variantId,
+            quantity: dto.quantity,
+        });
+
+        await this.prisma.wishlistItem.delete({
+            where: { id: item.id },
+        });
+
+        this.logger.log(`Product ${productId} moved from wishlist to cart for user ${userId}`);
+
+        return {
+            ...result,
+            message: MESSAGES.WISHLIST.MOVED_TO_CART,
+        };
+    }
+
+    /**
+     * Resolve which variant to add: the requested one, or the only one in stock
+     */
+    private async pickVariant(productId: string, variantId?: string): Promise<string> {
+        if (variantId) {
+            const variant = await this.prisma.productVariant.findFirst({
+                where: { id: variantId, productId, isActive: true },
+                select: { id: true },
+            });
+
+            if (!variant) {
+                throw new NotFoundException('Product variant');
+            }
+
+            return variant.id;
+        }
+
+        const inStockVariants = await this.prisma.productVariant.findMany({
+            where: {
+                productId,
+                isActive: true,
+                stockQuantity: { gt: this.prisma.productVariant.fields.reservedQuantity },
+            },
+            select: { id: true },
+        });
+
+        if (inStockVariants.length === 0) {
+            throw new OutOfStockException();
+        }
+
+        if (inStockVariants.length > 1) {
+            throw new BadRequestException(MESSAGES.WISHLIST.VARIANT_REQUIRED);
+        }
+
+        return inStockVariants[0].id;
+    }
+}
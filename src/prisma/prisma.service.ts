@@ -2,6 +2,10 @@
 
 import { Injectable, OnModuleInit, OnModuleDestroy, Logger } from '@nestjs/common';
 import { PrismaClient } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+
+// Client handed to interactive transaction callbacks
+export type PrismaTransactionClient = Prisma.TransactionClient;
 
 @Injectable()
 export class PrismaService extends PrismaClient implements OnModuleInit, OnModuleDestroy {
@@ -45,14 +49,21 @@ export class PrismaService extends PrismaClient implements OnModuleInit, OnModul
             this.newsletterSubscriber.deleteMany(),
             this.review.deleteMany(),
             this.wishlistItem.deleteMany(),
+            this.shipmentEvent.deleteMany(),
             this.shipment.deleteMany(),
+            this.webhookEvent.deleteMany(),
+            this.refundItem.deleteMany(),
+            this.refund.deleteMany(),
             this.payment.deleteMany(),
+            this.inventoryReservation.deleteMany(),
+            this.stockMovement.deleteMany(),
             this.orderItem.deleteMany(),
             this.order.deleteMany(),
             this.cartItem.deleteMany(),
             this.cart.deleteMany(),
             this.coupon.deleteMany(),
             this.productImage.deleteMany(),
+            this.productColorSwatch.deleteMany(),
             this.productVariant.deleteMany(),
             this.product.deleteMany(),
             this.category.deleteMany(),
@@ -0,0 +1,107 @@
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PrismaService } from './../src/prisma';
+import { InventoryService } from './../src/modules/inventory/inventory.service';
+import { InsufficientStockException } from './../src/common/filters';
+
+// Runs against the migrated database in DATABASE_URL
+describe('InventoryService (e2e)', () => {
+  const STOCK = 3;
+  const CHECKOUTS = 10;
+  const run = Date.now().toString(36);
+
+  let prisma: PrismaService;
+  let inventoryService: InventoryService;
+  let userId: string;
+  let categoryId: string;
+  let productId: string;
+  let variantId: string;
+  let orderIds: string[];
+
+  beforeAll(async () => {
+    prisma = new PrismaService();
+    await prisma.$connect();
+    inventoryService = new InventoryService(prisma, new EventEmitter2());
+
+    const user = await prisma.user.create({
+      data: { email: `oversell-${run}@example.com`, firstName: 'Stock', lastName: 'Test' },
+    });
+    const category = await prisma.category.create({
+      data: { name: `Oversell ${run}`, slug: `oversell-${run}` },
+    });
+    const product = await prisma.product.create({
+      data: {
+        name: `Oversell Shirt ${run}`,
+        slug: `oversell-shirt-${run}`,
+        description: 'Last units on the shelf',
+        categoryId: category.id,
+        basePrice: 5000,
+      },
+    });
+    const variant = await prisma.productVariant.create({
+      data: {
+        productId: product.id,
+        sku: `OVERSELL-${run}`,
+        color: 'Indigo',
+        size: 'M',
+        stockQuantity: STOCK,
+      },
+    });
+
+    userId = user.id;
+    categoryId = category.id;
+    productId = product.id;
+    variantId = variant.id;
+    orderIds = [];
+    for (let index = 0; index < CHECKOUTS; index++) {
+      const order = await prisma.order.create({
+        data: {
+          orderNumber: `VT-OVERSELL-${run}-${index}`,
+          userId,
+          subtotal: 5000,
+          shippingCost: 0,
+          vat: 0,
+          total: 5000,
+          shippingAddress: {},
+        },
+      });
+      orderIds.push(order.id);
+    }
+  });
+
+  afterAll(async () => {
+    await prisma.inventoryReservation.deleteMany({ where: { variantId } });
+    await prisma.order.deleteMany({ where: { id: { in: orderIds } } });
+    await prisma.productVariant.deleteMany({ where: { id: variantId } });
+    await prisma.product.deleteMany({ where: { id: productId } });
+    await prisma.category.deleteMany({ where: { id: categoryId } });
+    await prisma.user.deleteMany({ where: { id: userId } });
+    await prisma.$disconnect();
+  });
+
+  it('lets only as many concurrent checkouts reserve as there are units', async () => {
+    const expiresAt = new Date(Date.now() + 15 * 60 * 1000);
+
+    // Every checkout asks for one of the last units at the same time
+    const results = await Promise.allSettled(
+      orderIds.map((orderId) =>
+        prisma.$transaction(
+          (tx) => inventoryService.reserve(tx, orderId, [{ variantId, quantity: 1 }], expiresAt),
+          { maxWait: 30000 },
+        ),
+      ),
+    );
+
+    const rejected = results.filter((result) => result.status === 'rejected');
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(STOCK);
+    expect(rejected).toHaveLength(CHECKOUTS - STOCK);
+    for (const result of rejected) {
+      expect(result.reason).toBeInstanceOf(InsufficientStockException);
+    }
+
+    const variant = await prisma.productVariant.findUniqueOrThrow({ where: { id: variantId } });
+    expect(variant).toMatchObject({ stockQuantity: STOCK, reservedQuantity: STOCK });
+    await expect(
+      prisma.inventoryReservation.count({ where: { variantId, status: 'ACTIVE' } }),
+    ).resolves.toBe(STOCK);
+  });
+});